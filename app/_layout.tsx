@@ -1,9 +1,9 @@
 import { Slot, useSegments, useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { Platform, View, Text, StyleSheet, Alert } from 'react-native';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import { UserProvider, useUser } from './contexts/UserContext';
-import NetInfo from '@react-native-community/netinfo';
+import { NetworkProvider, useNetwork } from './contexts/networkcontext';
 import React from 'react';
 
 // Define allowed routes for staff
@@ -13,13 +13,29 @@ const STAFF_ALLOWED_ROUTES = [
   '/inventory1', // inventory1.tsx
   '/dashboard',  // dashboard.tsx
   '/settings',   // settings.tsx
+  '/tables',     // tables.tsx
+  '/kitchen',    // kitchen.tsx
+  '/shifts',     // shifts.tsx
+  '/customer-display', // customer-display.tsx
 ];
 
 // Offline Banner component
-function OfflineBanner() {
+function OfflineBanner({ pendingCount }: { pendingCount: number }) {
   return (
     <View style={styles.offlineBanner}>
-      <Text style={styles.offlineText}>You are currently offline. Some features may be limited.</Text>
+      <Text style={styles.offlineText}>
+        You are currently offline. Some features may be limited.
+        {pendingCount > 0 ? ` ${pendingCount} order(s) waiting to sync.` : ''}
+      </Text>
+    </View>
+  );
+}
+
+// Shown while queued orders are being replayed after reconnecting
+function SyncBanner({ pendingCount }: { pendingCount: number }) {
+  return (
+    <View style={[styles.offlineBanner, styles.syncBanner]}>
+      <Text style={styles.offlineText}>Syncing {pendingCount} offline order(s)...</Text>
     </View>
   );
 }
@@ -28,7 +44,7 @@ function RootLayoutNav() {
   const segments = useSegments();
   const router = useRouter();
   const { user, role, loading } = useUser();
-  const [isOffline, setIsOffline] = useState(false);
+  const { isOffline, isSyncing, pendingCount } = useNetwork();
 
   // Set up screen orientation
   useEffect(() => {
@@ -37,29 +53,6 @@ function RootLayoutNav() {
     }
   }, []);
 
-  // Set up network connectivity listener
-  useEffect(() => {
-    const unsubscribe = NetInfo.addEventListener(state => {
-      const offline = !state.isConnected;
-      setIsOffline(offline);
-      
-      // Alert on network status change
-      if (offline) {
-        console.log('App is offline');
-      } else {
-        console.log('App is back online');
-      }
-    });
-
-    // Check initial network state
-    NetInfo.fetch().then(state => {
-      setIsOffline(!state.isConnected);
-    });
-
-    // Clean up listener
-    return () => unsubscribe();
-  }, []);
-
   useEffect(() => {
     if (loading) return;
 
@@ -97,7 +90,8 @@ function RootLayoutNav() {
 
   return (
     <>
-      {isOffline && <OfflineBanner />}
+      {isOffline && <OfflineBanner pendingCount={pendingCount} />}
+      {!isOffline && isSyncing && pendingCount > 0 && <SyncBanner pendingCount={pendingCount} />}
       <Slot />
     </>
   );
@@ -106,7 +100,9 @@ function RootLayoutNav() {
 export default function RootLayout() {
   return (
     <UserProvider>
-      <RootLayoutNav />
+      <NetworkProvider>
+        <RootLayoutNav />
+      </NetworkProvider>
     </UserProvider>
   );
 }
@@ -121,6 +117,9 @@ const styles = StyleSheet.create({
     top: 0,
     zIndex: 999,
   },
+  syncBanner: {
+    backgroundColor: '#F59E0B',
+  },
   offlineText: {
     color: 'white',
     fontWeight: 'bold',
@@ -8,6 +8,9 @@ import { db } from '../firebaseConfig';
 import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, query, where, onSnapshot } from 'firebase/firestore';
 import { Alert } from 'react-native';
 import { router } from 'expo-router';
+import { ModifierGroup, ModifierOption, createModifierGroupId, validateModifierGroups } from '../utils/modifiers';
+import { normalizeBarcode, findBarcodeConflict } from '../utils/barcodes';
+import { TaxClass, TAX_CLASS_LABELS } from '../utils/pricing';
 // Replace the problematic import with a direct color definition
 // import { Colors } from 'react-native/Libraries/NewAppScreen';
 
@@ -18,6 +21,7 @@ interface Category {
 
 interface SizeData {
   price: string;
+  barcode?: string;
 }
 
 interface Product {
@@ -28,10 +32,14 @@ interface Product {
   imageUrl: string;
   description: string;
   status: 'available' | 'unavailable';
+  sku?: string;
+  barcode?: string;
+  taxClass?: TaxClass;
   hasSizes?: boolean;
   sizes?: {
     [key: string]: SizeData;
   };
+  modifierGroups?: ModifierGroup[];
   isAvailable: boolean;
 }
 
@@ -133,6 +141,12 @@ export default function AddItems() {
       if (hasInvalidPrice) return;
     }
 
+    const modifierError = validateModifierGroups(newProduct.modifierGroups);
+    if (modifierError) {
+      setErrorMessage(modifierError);
+      return;
+    }
+
     try {
       setIsLoading(true);
 
@@ -144,8 +158,12 @@ export default function AddItems() {
         description: newProduct.description?.trim() || '',
         imageUrl: newProduct.imageUrl || '',
         status: 'available',
+        sku: normalizeBarcode(newProduct.sku),
+        barcode: normalizeBarcode(newProduct.barcode),
+        taxClass: newProduct.taxClass || 'vatable',
         hasSizes: newProduct.hasSizes || false,
         sizes: newProduct.hasSizes && newProduct.sizes ? newProduct.sizes : null,
+        modifierGroups: newProduct.modifierGroups || [],
         isAvailable: newProduct.isAvailable ?? true,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -337,6 +355,23 @@ export default function AddItems() {
         }
       }
     }
+    const modifierError = validateModifierGroups(newProduct.modifierGroups);
+    if (modifierError) {
+      setErrorMessage(modifierError);
+      return false;
+    }
+    const barcodeError = findBarcodeConflict({
+      id: editMode?.type === 'product' ? editMode.id : '',
+      name: newProduct.name,
+      sku: newProduct.sku,
+      barcode: newProduct.barcode,
+      hasSizes: newProduct.hasSizes,
+      sizes: newProduct.sizes
+    }, products);
+    if (barcodeError) {
+      setErrorMessage(barcodeError);
+      return false;
+    }
     return true;
   };
 
@@ -349,12 +384,13 @@ export default function AddItems() {
       setIsLoading(true);
       
       // Prepare the sizes data if hasSizes is true
-      const sizesData: { [key: string]: { price: string } } = {};
+      const sizesData: { [key: string]: SizeData } = {};
       if (newProduct.hasSizes && newProduct.sizes) {
         Object.entries(newProduct.sizes).forEach(([key, value]) => {
           if (value.price) {
             sizesData[key] = {
-              price: value.price?.trim() || ''
+              price: value.price?.trim() || '',
+              barcode: normalizeBarcode(value.barcode)
             };
           }
         });
@@ -368,8 +404,12 @@ export default function AddItems() {
         imageUrl: newProduct.imageUrl || '',
         description: newProduct.description?.trim() || '',
         status: 'available',
+        sku: normalizeBarcode(newProduct.sku),
+        barcode: normalizeBarcode(newProduct.barcode),
+        taxClass: newProduct.taxClass || 'vatable',
         hasSizes: newProduct.hasSizes || false,
         sizes: Object.keys(sizesData).length > 0 ? sizesData : null,
+        modifierGroups: newProduct.modifierGroups || [],
         isAvailable: newProduct.isAvailable,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -429,8 +469,12 @@ export default function AddItems() {
       basePrice: product.basePrice,
       description: product.description,
       imageUrl: product.imageUrl,
+      sku: product.sku,
+      barcode: product.barcode,
+      taxClass: product.taxClass || 'vatable',
       hasSizes: product.hasSizes,
       sizes: product.sizes,
+      modifierGroups: product.modifierGroups || [],
       isAvailable: product.isAvailable
     });
     setShowProductModal(true);
@@ -446,12 +490,13 @@ export default function AddItems() {
       const productRef = doc(db, 'products', id);
 
       // Prepare the sizes data if hasSizes is true
-      const sizesData: { [key: string]: { price: string } } = {};
+      const sizesData: { [key: string]: SizeData } = {};
       if (newProduct.hasSizes && newProduct.sizes) {
         Object.entries(newProduct.sizes).forEach(([key, value]) => {
           if (value.price) {
             sizesData[key] = {
-              price: value.price?.trim() || ''
+              price: value.price?.trim() || '',
+              barcode: normalizeBarcode(value.barcode)
             };
           }
         });
@@ -463,8 +508,12 @@ export default function AddItems() {
         basePrice: string;
         description: string;
         imageUrl: string;
+        sku: string;
+        barcode: string;
+        taxClass: TaxClass;
         hasSizes: boolean;
-        sizes: { [key: string]: { price: string } } | null;
+        sizes: { [key: string]: SizeData } | null;
+        modifierGroups: ModifierGroup[];
         isAvailable: boolean;
         updatedAt: string;
       }> = {
@@ -472,8 +521,12 @@ export default function AddItems() {
         basePrice: newProduct.hasSizes ? '' : (newProduct.basePrice?.trim() || ''),
         description: newProduct.description?.trim() || '',
         imageUrl: newProduct.imageUrl || '',
+        sku: normalizeBarcode(newProduct.sku),
+        barcode: normalizeBarcode(newProduct.barcode),
+        taxClass: newProduct.taxClass || 'vatable',
         hasSizes: newProduct.hasSizes || false,
         sizes: Object.keys(sizesData).length > 0 ? sizesData : null,
+        modifierGroups: newProduct.modifierGroups || [],
         isAvailable: newProduct.isAvailable ?? true,
         updatedAt: new Date().toISOString()
       };
@@ -530,7 +583,7 @@ export default function AddItems() {
     setErrorMessage('');
   };
 
-  const handleSizeChange = (sizeName: string, field: 'price', value: string) => {
+  const handleSizeChange = (sizeName: string, field: keyof SizeData, value: string) => {
     setNewProduct(prev => {
       const updatedSizes = { ...(prev.sizes || {}) };
       if (!updatedSizes[sizeName]) {
@@ -559,6 +612,75 @@ export default function AddItems() {
     });
   };
 
+  const handleAddModifierGroup = () => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: [
+        ...(prev.modifierGroups || []),
+        {
+          id: createModifierGroupId(),
+          name: '',
+          required: false,
+          minSelections: 0,
+          maxSelections: 1,
+          options: []
+        }
+      ]
+    }));
+  };
+
+  const handleModifierGroupChange = (groupId: string, changes: Partial<ModifierGroup>) => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: (prev.modifierGroups || []).map(group =>
+        group.id === groupId ? { ...group, ...changes } : group
+      )
+    }));
+  };
+
+  const handleDeleteModifierGroup = (groupId: string) => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: (prev.modifierGroups || []).filter(group => group.id !== groupId)
+    }));
+  };
+
+  const handleAddModifierOption = (groupId: string) => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: (prev.modifierGroups || []).map(group =>
+        group.id === groupId
+          ? { ...group, options: [...group.options, { name: '', price: '' }] }
+          : group
+      )
+    }));
+  };
+
+  const handleModifierOptionChange = (groupId: string, index: number, field: keyof ModifierOption, value: string) => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: (prev.modifierGroups || []).map(group =>
+        group.id === groupId
+          ? {
+              ...group,
+              options: group.options.map((option, i) => i === index ? { ...option, [field]: value } : option)
+            }
+          : group
+      )
+    }));
+  };
+
+  const handleDeleteModifierOption = (groupId: string, index: number) => {
+    setNewProduct(prev => ({
+      ...prev,
+      modifierGroups: (prev.modifierGroups || []).map(group =>
+        group.id === groupId
+          ? { ...group, options: group.options.filter((_, i) => i !== index) }
+          : group
+      )
+    }));
+  };
+
   // --- Confirmation Modal Handler ---
   const handleConfirmDelete = () => {
     if (!itemToDelete) return;
@@ -874,6 +996,41 @@ export default function AddItems() {
                     placeholderTextColor="#9CA3AF"
                     editable={!newProduct.hasSizes}
                   />
+                  <View style={styles.codeInputRow}>
+                    <TextInput
+                      style={[styles.modalInput, styles.codeInput]}
+                      value={newProduct.sku}
+                      onChangeText={(text) => setNewProduct({ ...newProduct, sku: text })}
+                      placeholder="SKU (Optional)"
+                      autoCapitalize="characters"
+                      placeholderTextColor="#9CA3AF"
+                    />
+                    <TextInput
+                      style={[styles.modalInput, styles.codeInput]}
+                      value={newProduct.barcode}
+                      onChangeText={(text) => setNewProduct({ ...newProduct, barcode: text })}
+                      placeholder="Barcode (Optional)"
+                      autoCapitalize="characters"
+                      placeholderTextColor="#9CA3AF"
+                    />
+                  </View>
+                  <View style={styles.taxClassRow}>
+                    <Text style={styles.taxClassLabel}>Tax Class</Text>
+                    {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map(taxClass => {
+                      const isSelected = (newProduct.taxClass || 'vatable') === taxClass;
+                      return (
+                        <TouchableOpacity
+                          key={taxClass}
+                          style={[styles.taxClassOption, isSelected && styles.taxClassOptionSelected]}
+                          onPress={() => setNewProduct({ ...newProduct, taxClass })}
+                        >
+                          <Text style={[styles.taxClassOptionText, isSelected && styles.taxClassOptionTextSelected]}>
+                            {TAX_CLASS_LABELS[taxClass]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
                   <TextInput
                     style={[styles.modalInput, styles.textArea]}
                     value={newProduct.description}
@@ -948,6 +1105,14 @@ export default function AddItems() {
                                   keyboardType="numeric"
                                   placeholderTextColor="#9CA3AF"
                                 />
+                                <TextInput
+                                  style={[styles.modalInput, styles.priceInput]}
+                                  placeholder="Barcode"
+                                  value={sizeData.barcode}
+                                  onChangeText={(text) => handleSizeChange(sizeName, 'barcode', text)}
+                                  autoCapitalize="characters"
+                                  placeholderTextColor="#9CA3AF"
+                                />
                                 <TouchableOpacity
                                   style={styles.deleteSizeButton}
                                   onPress={() => handleDeleteSize(sizeName)}
@@ -993,6 +1158,120 @@ export default function AddItems() {
                     )}
                   </View>
                 </View>
+
+                <View style={styles.formSection}>
+                  <View style={styles.modifierSectionHeader}>
+                    <Text style={[styles.formSectionTitle, { flex: 1 }]}>Modifiers & Add-ons</Text>
+                    <TouchableOpacity
+                      style={styles.addModifierGroupButton}
+                      onPress={handleAddModifierGroup}
+                    >
+                      <MaterialIcons name="add" size={18} color="#FFFFFF" />
+                      <Text style={styles.buttonTextSmall}>Add Group</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {(newProduct.modifierGroups || []).length === 0 ? (
+                    <Text style={styles.noSizesText}>
+                      No modifiers. Add a group for choices like milk type, sugar level or extra shots.
+                    </Text>
+                  ) : (
+                    (newProduct.modifierGroups || []).map(group => (
+                      <View key={group.id} style={styles.modifierGroupCard}>
+                        <View style={styles.sizeRow}>
+                          <TextInput
+                            style={[styles.modalInput, { marginBottom: 0, flex: 1 }]}
+                            placeholder="Group Name (e.g. Milk Type)"
+                            value={group.name}
+                            onChangeText={(text) => handleModifierGroupChange(group.id, { name: text })}
+                            placeholderTextColor="#9CA3AF"
+                          />
+                          <TouchableOpacity
+                            style={styles.deleteSizeButton}
+                            onPress={() => handleDeleteModifierGroup(group.id)}
+                          >
+                            <MaterialIcons name="delete" size={20} color="#FFFFFF" />
+                          </TouchableOpacity>
+                        </View>
+
+                        <View style={styles.modifierRulesRow}>
+                          <View style={[styles.checkboxContainer, { marginBottom: 0 }]}>
+                            <TouchableOpacity
+                              style={[styles.checkbox, group.required && styles.checkboxChecked]}
+                              onPress={() => handleModifierGroupChange(group.id, { required: !group.required })}
+                              activeOpacity={0.7}
+                            >
+                              {group.required && (
+                                <Text style={styles.checkmark}>✓</Text>
+                              )}
+                            </TouchableOpacity>
+                            <Text style={styles.checkboxLabel}>Required</Text>
+                          </View>
+                          <Text style={styles.sizeLabel}>Min</Text>
+                          <TextInput
+                            style={[styles.modalInput, styles.modifierCountInput]}
+                            value={String(group.minSelections)}
+                            onChangeText={(text) => {
+                              if (text === '' || /^\d+$/.test(text)) {
+                                handleModifierGroupChange(group.id, { minSelections: Number(text) || 0 });
+                              }
+                            }}
+                            keyboardType="numeric"
+                          />
+                          <Text style={styles.sizeLabel}>Max</Text>
+                          <TextInput
+                            style={[styles.modalInput, styles.modifierCountInput]}
+                            value={String(group.maxSelections)}
+                            onChangeText={(text) => {
+                              if (text === '' || /^\d+$/.test(text)) {
+                                handleModifierGroupChange(group.id, { maxSelections: Number(text) || 0 });
+                              }
+                            }}
+                            keyboardType="numeric"
+                          />
+                        </View>
+
+                        {group.options.map((option, index) => (
+                          <View key={index} style={styles.sizeRow}>
+                            <TextInput
+                              style={[styles.modalInput, styles.priceInput]}
+                              placeholder="Option (e.g. Oat Milk)"
+                              value={option.name}
+                              onChangeText={(text) => handleModifierOptionChange(group.id, index, 'name', text)}
+                              placeholderTextColor="#9CA3AF"
+                            />
+                            <TextInput
+                              style={[styles.modalInput, styles.priceInput]}
+                              placeholder="+ Price (0 if free)"
+                              value={option.price}
+                              onChangeText={(text) => {
+                                if (text === '' || /^\d*\.?\d*$/.test(text)) {
+                                  handleModifierOptionChange(group.id, index, 'price', text);
+                                }
+                              }}
+                              keyboardType="numeric"
+                              placeholderTextColor="#9CA3AF"
+                            />
+                            <TouchableOpacity
+                              style={styles.deleteSizeButton}
+                              onPress={() => handleDeleteModifierOption(group.id, index)}
+                            >
+                              <MaterialIcons name="close" size={18} color="#FFFFFF" />
+                            </TouchableOpacity>
+                          </View>
+                        ))}
+
+                        <TouchableOpacity
+                          style={styles.addModifierOptionButton}
+                          onPress={() => handleAddModifierOption(group.id)}
+                        >
+                          <MaterialIcons name="add" size={16} color="#2563EB" />
+                          <Text style={styles.addModifierOptionText}>Add Option</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  )}
+                </View>
               </View>
             </ScrollView>
 
@@ -1390,6 +1669,92 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  codeInputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  codeInput: {
+    flex: 1,
+    width: 'auto',
+  },
+  taxClassRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  taxClassLabel: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginRight: 4,
+  },
+  taxClassOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  taxClassOptionSelected: {
+    backgroundColor: '#F36514',
+    borderColor: '#F36514',
+  },
+  taxClassOptionText: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  taxClassOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  modifierSectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+  },
+  addModifierGroupButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  modifierGroupCard: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 6,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 10,
+  },
+  modifierRulesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  modifierCountInput: {
+    width: 56,
+    height: 40,
+    marginBottom: 0,
+    textAlign: 'center',
+  },
+  addModifierOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  addModifierOptionText: {
+    color: '#2563EB',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   noSizesText: {
     textAlign: 'center',
     color: '#6B7280',
@@ -0,0 +1,145 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  QueuedOrder,
+  QueuedOrderEffects,
+  enqueueOrder,
+  getQueuedOrders,
+  syncQueuedOrders,
+  retryQueuedOrder,
+  discardQueuedOrder
+} from '../../utils/orderQueue';
+
+interface NetworkContextType {
+  isOffline: boolean;
+  isSyncing: boolean;
+  queuedOrders: QueuedOrder[];
+  pendingCount: number;
+  queueOrder: (id: string, order: { total: number; [key: string]: any }, effects: QueuedOrderEffects) => Promise<void>;
+  syncNow: () => Promise<void>;
+  retryOrder: (id: string) => Promise<void>;
+  discardOrder: (id: string) => Promise<boolean>;
+}
+
+const SYNC_RETRY_INTERVAL_MS = 60 * 1000;
+
+const NetworkContext = createContext<NetworkContextType>({
+  isOffline: false,
+  isSyncing: false,
+  queuedOrders: [],
+  pendingCount: 0,
+  queueOrder: async () => {},
+  syncNow: async () => {},
+  retryOrder: async () => {},
+  discardOrder: async () => false,
+});
+
+export function NetworkProvider({ children }: { children: React.ReactNode }) {
+  const [isOffline, setIsOffline] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [queuedOrders, setQueuedOrders] = useState<QueuedOrder[]>([]);
+  // Guards against overlapping replays when reconnects and new sales arrive together. A
+  // sync asked for mid-replay sets syncRequested so the running replay goes round again.
+  const syncInProgress = useRef(false);
+  const syncRequested = useRef(false);
+  const isOfflineRef = useRef(false);
+
+  const refreshQueue = async () => {
+    try {
+      setQueuedOrders(await getQueuedOrders());
+    } catch (error) {
+      console.error('Error reading order queue:', error);
+    }
+  };
+
+  const syncNow = async () => {
+    if (isOfflineRef.current) return;
+    if (syncInProgress.current) {
+      syncRequested.current = true;
+      return;
+    }
+    syncInProgress.current = true;
+    setIsSyncing(true);
+    try {
+      do {
+        syncRequested.current = false;
+        await syncQueuedOrders();
+      } while (syncRequested.current && !isOfflineRef.current);
+    } catch (error) {
+      console.error('Error syncing order queue:', error);
+    } finally {
+      syncInProgress.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+  };
+
+  const queueOrder = async (id: string, order: { total: number; [key: string]: any }, effects: QueuedOrderEffects) => {
+    await enqueueOrder(id, order, effects);
+    await refreshQueue();
+    // Fire and forget: the sale is already safe locally
+    syncNow();
+  };
+
+  const retryOrder = async (id: string) => {
+    await retryQueuedOrder(id);
+    await refreshQueue();
+    syncNow();
+  };
+
+  const discardOrder = async (id: string) => {
+    const discarded = await discardQueuedOrder(id);
+    await refreshQueue();
+    return discarded;
+  };
+
+  useEffect(() => {
+    const handleState = (connected: boolean | null) => {
+      const offline = !connected;
+      isOfflineRef.current = offline;
+      setIsOffline(offline);
+      if (offline) {
+        console.log('App is offline');
+      } else {
+        console.log('App is back online');
+        syncNow();
+      }
+    };
+
+    const unsubscribe = NetInfo.addEventListener(state => handleState(state.isConnected));
+
+    // Check initial network state and replay anything left from a previous session
+    NetInfo.fetch().then(state => handleState(state.isConnected));
+    refreshQueue();
+
+    // Sales that failed for a passing reason are retried on their own while online,
+    // so a quiet register doesn't hold them until the next sale
+    const retryInterval = setInterval(async () => {
+      try {
+        const queued = await getQueuedOrders();
+        if (queued.some(order => order.status === 'pending' || order.status === 'failed')) {
+          syncNow();
+        }
+      } catch (error) {
+        console.error('Error reading order queue:', error);
+      }
+    }, SYNC_RETRY_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(retryInterval);
+    };
+  }, []);
+
+  const pendingCount = queuedOrders.filter(order => order.status !== 'synced').length;
+
+  return (
+    <NetworkContext.Provider value={{ isOffline, isSyncing, queuedOrders, pendingCount, queueOrder, syncNow, retryOrder, discardOrder }}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  return useContext(NetworkContext);
+}
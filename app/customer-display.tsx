@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Image, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { useUser } from './contexts/UserContext';
+import {
+  CustomerDisplayState,
+  PaymentQrCodes,
+  IDLE_DISPLAY_STATE,
+  subscribeToCustomerDisplay
+} from '../utils/customerDisplay';
+import { getPaymentMethodLabel } from '../utils/payments';
+
+interface Banner {
+  id: string;
+  imageUrl: string;
+  title: string;
+  subtitle: string;
+}
+
+const BANNER_INTERVAL_MS = 6000;
+
+const peso = (amount: number) => `₱${amount.toFixed(2)}`;
+
+// Second screen facing the customer: open it in another browser window or on a tablet
+// signed in as the cashier. Long-press the header to leave.
+export default function CustomerDisplayScreen() {
+  const { user: authUser } = useUser();
+  const [display, setDisplay] = useState<CustomerDisplayState>(IDLE_DISPLAY_STATE);
+  const [banners, setBanners] = useState<Banner[]>([]);
+  const [paymentQrCodes, setPaymentQrCodes] = useState<PaymentQrCodes>({});
+  const [bannerIndex, setBannerIndex] = useState(0);
+
+  useEffect(() => {
+    if (!authUser) return;
+    return subscribeToCustomerDisplay(authUser.uid, setDisplay);
+  }, [authUser]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'settings', 'config'),
+      (snapshot) => {
+        const data = snapshot.exists() ? snapshot.data() : {};
+        setBanners(data.banners || []);
+        setPaymentQrCodes(data.paymentQrCodes || {});
+      },
+      (error) => {
+        console.error('Error fetching display settings:', error);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  // Rotate banners while the register is idle
+  useEffect(() => {
+    if (display.status !== 'idle' || banners.length < 2) return;
+    const interval = setInterval(() => {
+      setBannerIndex(index => (index + 1) % banners.length);
+    }, BANNER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [display.status, banners.length]);
+
+  const renderIdle = () => {
+    const banner = banners[bannerIndex % Math.max(banners.length, 1)];
+    return (
+      <View style={styles.idleContainer}>
+        {banner ? (
+          <Image source={{ uri: banner.imageUrl }} style={styles.bannerImage} resizeMode="cover" />
+        ) : (
+          <View style={styles.idleBrand}>
+            <Text style={styles.idleTitle}>Brothers' Nook</Text>
+            <Text style={styles.idleSubtitle}>Welcome! Your order will appear here.</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderComplete = () => (
+    <View style={styles.idleBrand}>
+      <Text style={styles.idleTitle}>Thank you!</Text>
+      <Text style={styles.idleSubtitle}>Please wait for your order number to be called.</Text>
+    </View>
+  );
+
+  // A generated QR Ph code carries the exact amount; the uploaded static code is the fallback
+  const renderPaymentQr = () => {
+    const method = display.paymentMethod;
+    if (method && display.paymentQr) {
+      return (
+        <View style={styles.qrContainer}>
+          <QRCode value={display.paymentQr.payload} size={240} />
+          <Text style={styles.qrCaption}>
+            Scan to pay {peso(display.paymentQr.amount)} with {getPaymentMethodLabel(method)} or any QR Ph app
+          </Text>
+          <Text style={styles.qrReference}>Ref {display.paymentQr.reference}</Text>
+        </View>
+      );
+    }
+
+    const qrImage = method === 'gcash' || method === 'maya' ? paymentQrCodes[method] : null;
+    if (!method || !qrImage) return null;
+
+    return (
+      <View style={styles.qrContainer}>
+        <Image source={{ uri: qrImage }} style={styles.qrImage} resizeMode="contain" />
+        <Text style={styles.qrCaption}>
+          Scan to pay {peso(display.remaining)} with {getPaymentMethodLabel(method)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderOrder = () => (
+    <View style={styles.orderContainer}>
+      <ScrollView style={styles.linesPanel} contentContainerStyle={{ padding: 24 }}>
+        {display.lines.map((line, index) => (
+          <View key={`${line.name}-${index}`} style={styles.lineRow}>
+            <Text style={styles.lineQuantity}>{line.quantity}×</Text>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.lineName}>{line.name}</Text>
+              {line.details && <Text style={styles.lineDetails}>{line.details}</Text>}
+            </View>
+            <Text style={styles.lineTotal}>{peso(line.total)}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.totalsPanel}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal</Text>
+          <Text style={styles.totalValue}>{peso(display.subtotal)}</Text>
+        </View>
+        {display.adjustments.map(adjustment => (
+          <View key={adjustment.label} style={styles.totalRow}>
+            <Text style={[styles.totalLabel, adjustment.amount < 0 && styles.discountText]}>{adjustment.label}</Text>
+            <Text style={[styles.totalValue, adjustment.amount < 0 && styles.discountText]}>
+              {adjustment.amount < 0 ? `-${peso(-adjustment.amount)}` : peso(adjustment.amount)}
+            </Text>
+          </View>
+        ))}
+        <View style={[styles.totalRow, styles.grandTotalRow]}>
+          <Text style={styles.grandTotalLabel}>Total</Text>
+          <Text style={styles.grandTotalValue}>{peso(display.total)}</Text>
+        </View>
+
+        {display.status === 'payment' && (
+          <>
+            {display.tip > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Tip</Text>
+                <Text style={styles.totalValue}>{peso(display.tip)}</Text>
+              </View>
+            )}
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>Paid</Text>
+              <Text style={styles.totalValue}>{peso(display.paid)}</Text>
+            </View>
+            <View style={styles.totalRow}>
+              <Text style={styles.amountDueLabel}>{display.remaining > 0 ? 'Amount Due' : 'Change'}</Text>
+              <Text style={styles.amountDueValue}>
+                {peso(display.remaining > 0 ? display.remaining : display.change)}
+              </Text>
+            </View>
+            {renderPaymentQr()}
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TouchableOpacity style={styles.header} onLongPress={() => router.back()} activeOpacity={1}>
+        <Text style={styles.headerTitle}>Brothers' Nook</Text>
+      </TouchableOpacity>
+
+      {display.status === 'idle' && renderIdle()}
+      {display.status === 'complete' && renderComplete()}
+      {(display.status === 'cart' || display.status === 'payment') && renderOrder()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    backgroundColor: '#F36514',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  idleContainer: {
+    flex: 1,
+  },
+  bannerImage: {
+    flex: 1,
+    width: '100%',
+  },
+  idleBrand: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  idleTitle: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#F36514',
+    marginBottom: 12,
+  },
+  idleSubtitle: {
+    fontSize: 22,
+    color: '#4B5563',
+    textAlign: 'center',
+  },
+  orderContainer: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  linesPanel: {
+    flex: 3,
+    borderRightWidth: 1,
+    borderRightColor: '#E5E7EB',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  lineQuantity: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#F36514',
+    minWidth: 40,
+  },
+  lineName: {
+    fontSize: 20,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  lineDetails: {
+    fontSize: 15,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  lineTotal: {
+    fontSize: 20,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  totalsPanel: {
+    flex: 2,
+    padding: 24,
+    backgroundColor: '#F9FAFB',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  totalLabel: {
+    fontSize: 18,
+    color: '#4B5563',
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  discountText: {
+    color: '#059669',
+  },
+  grandTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#D1D5DB',
+    marginTop: 8,
+    paddingTop: 12,
+  },
+  grandTotalLabel: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  grandTotalValue: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#F36514',
+  },
+  amountDueLabel: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  amountDueValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#F36514',
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  qrImage: {
+    width: 240,
+    height: 240,
+  },
+  qrCaption: {
+    fontSize: 16,
+    color: '#4B5563',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  qrReference: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+});
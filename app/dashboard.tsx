@@ -20,11 +20,18 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
 import { router } from 'expo-router';
+import { PaymentTender, getOrderPayments, getPaymentMethodLabel } from '../utils/payments';
+import { SelectedModifier } from '../utils/modifiers';
+import { OrderRefund, getOrderNetTotal, getRefundedQuantity, getVoidedQuantity, getRefundsByMethod } from '../utils/refunds';
+import { OrderVoid, getVoidsByMethod } from '../utils/voids';
+import { OrderTip, TipSplitMode, TipStaffHours, getKeptTip, getTipsByMethod, getStaffHours, splitTipPool } from '../utils/tips';
+import { toShift } from '../utils/shifts';
 
 interface OrderItem {
   name: string;
   quantity: number;
   price: number;
+  modifiers?: SelectedModifier[];
 }
 
 interface Order {
@@ -36,6 +43,16 @@ interface Order {
   tableNumber?: number;
   customerName?: string;
   source?: string; // 'customer' or 'pos'
+  paymentMethod?: string;
+  payments?: PaymentTender[];
+  refunds?: OrderRefund[];
+  refundedAmount?: number;
+  voids?: OrderVoid[];
+  voidedAmount?: number;
+  tip?: OrderTip | null;
+  shiftId?: string | null;
+  staffId?: string;
+  staffName?: string;
 }
 
 interface Ingredient {
@@ -85,7 +102,11 @@ interface DashboardData {
   customerAppOrders: number;
   posAppOrders: number;
   topSellingItems: { name: string; quantity: number }[];
+  topModifiers: { name: string; quantity: number }[];
+  paymentBreakdown: { method: string; amount: number; count: number }[];
   salesByDate: { date: string; amount: number }[];
+  tipPool: number;
+  tipStaffHours: TipStaffHours[];
   lowStockItems: InventoryItem[];
   expiringItems: InventoryItem[];
 }
@@ -98,7 +119,11 @@ export default function Dashboard() {
     customerAppOrders: 0,
     posAppOrders: 0,
     topSellingItems: [],
+    topModifiers: [],
+    paymentBreakdown: [],
     salesByDate: [],
+    tipPool: 0,
+    tipStaffHours: [],
     lowStockItems: [],
     expiringItems: []
   });
@@ -113,6 +138,7 @@ export default function Dashboard() {
   const [startDateText, setStartDateText] = useState('');
   const [endDateText, setEndDateText] = useState('');
   const [dateInputError, setDateInputError] = useState('');
+  const [tipSplitMode, setTipSplitMode] = useState<TipSplitMode>('hours');
 
   // Load data on initial render only, not on date changes
   useEffect(() => {
@@ -163,8 +189,8 @@ export default function Dashboard() {
         ...doc.data()
       } as Order));
 
-      // Calculate sales metrics
-      const totalSales = orders.reduce((sum, order) => sum + (order.total || 0), 0);
+      // Calculate sales metrics (net of refunds)
+      const totalSales = orders.reduce((sum, order) => sum + getOrderNetTotal(order), 0);
       const totalOrders = orders.length;
       
       // Count orders by source
@@ -174,9 +200,9 @@ export default function Dashboard() {
       // Calculate top selling items
       const itemsMap = new Map<string, number>();
       orders.forEach(order => {
-        order.items?.forEach((item: OrderItem) => {
+        order.items?.forEach((item: OrderItem, index) => {
           const currentQuantity = itemsMap.get(item.name) || 0;
-          itemsMap.set(item.name, currentQuantity + item.quantity);
+          itemsMap.set(item.name, currentQuantity + item.quantity - getRefundedQuantity(order, index) - getVoidedQuantity(order, index));
         });
       });
 
@@ -185,13 +211,50 @@ export default function Dashboard() {
         .sort((a, b) => b.quantity - a.quantity)
         .slice(0, 5);
 
+      // Calculate most popular modifiers (each option counts once per unit sold)
+      const modifiersMap = new Map<string, number>();
+      orders.forEach(order => {
+        order.items?.forEach((item: OrderItem) => {
+          item.modifiers?.forEach(modifier => {
+            const key = `${modifier.groupName}: ${modifier.name}`;
+            modifiersMap.set(key, (modifiersMap.get(key) || 0) + item.quantity);
+          });
+        });
+      });
+
+      const topModifiers = Array.from(modifiersMap.entries())
+        .map(([name, quantity]) => ({ name, quantity }))
+        .sort((a, b) => b.quantity - a.quantity)
+        .slice(0, 5);
+
+      // Calculate collections per payment method (split tenders count towards each method)
+      const paymentsMap = new Map<string, { amount: number; count: number }>();
+      orders.forEach(order => {
+        getOrderPayments(order).forEach(payment => {
+          const current = paymentsMap.get(payment.method) || { amount: 0, count: 0 };
+          paymentsMap.set(payment.method, {
+            amount: current.amount + (payment.amount || 0),
+            count: current.count + 1
+          });
+        });
+        // Refunds paid out and voids reduce what each method collected; tips aren't sales
+        [...getRefundsByMethod(order), ...getVoidsByMethod(order), ...getTipsByMethod(order)].forEach(deduction => {
+          const current = paymentsMap.get(deduction.method) || { amount: 0, count: 0 };
+          paymentsMap.set(deduction.method, { ...current, amount: current.amount - deduction.amount });
+        });
+      });
+
+      const paymentBreakdown = Array.from(paymentsMap.entries())
+        .map(([method, data]) => ({ method, ...data }))
+        .sort((a, b) => b.amount - a.amount);
+
       // Calculate sales by date
       const salesByDate = new Map<string, number>();
       orders.forEach(order => {
         if (order.createdAt) {
           const date = new Date(order.createdAt.seconds * 1000).toLocaleDateString();
           const currentAmount = salesByDate.get(date) || 0;
-          salesByDate.set(date, currentAmount + (order.total || 0));
+          salesByDate.set(date, currentAmount + getOrderNetTotal(order));
         }
       });
 
@@ -199,6 +262,18 @@ export default function Dashboard() {
         .map(([date, amount]) => ({ date, amount }))
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
+      // Tip pool for the period, split among the staff on the shifts that overlap it.
+      // Voided orders hand their tip back with the rest of the order.
+      const tipPool = orders.reduce((sum, order) => sum + getKeptTip(order), 0);
+      const shiftsSnapshot = await getDocs(query(
+        collection(db, 'shifts'),
+        where('openedAt', '<=', Timestamp.fromDate(endDateTime))
+      ));
+      const shifts = shiftsSnapshot.docs
+        .map(shiftDoc => toShift(shiftDoc.id, shiftDoc.data()))
+        .filter(shift => !shift.closedAt || shift.closedAt >= startDateTime);
+      const tipStaffHours = getStaffHours(shifts, orders, startDateTime, endDateTime);
+
       // Load inventory data from the inventory collection
       const inventoryRef = collection(db, 'inventory');
       const inventorySnapshot = await getDocs(inventoryRef);
@@ -244,7 +319,11 @@ export default function Dashboard() {
         customerAppOrders,
         posAppOrders,
         topSellingItems,
+        topModifiers,
+        paymentBreakdown,
         salesByDate: salesData,
+        tipPool,
+        tipStaffHours,
         lowStockItems,
         expiringItems
       });
@@ -725,6 +804,73 @@ export default function Dashboard() {
           </View>
         )}
 
+        {/* Payment Breakdown */}
+        <View style={styles.topItemsContainer}>
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="wallet" size={22} color="#4F46E5" />
+            <Text style={styles.topItemsTitle}>Payment Breakdown</Text>
+          </View>
+          {dashboardData.paymentBreakdown.length > 0 ? (
+            dashboardData.paymentBreakdown.map(payment => (
+              <View key={payment.method} style={styles.topItemRow}>
+                <View style={styles.topItemInfo}>
+                  <Text style={styles.topItemName}>{getPaymentMethodLabel(payment.method)}</Text>
+                  <Text style={styles.legendText}>
+                    {formatNumber(payment.count)} {payment.count === 1 ? 'tender' : 'tenders'}
+                  </Text>
+                </View>
+                <View style={styles.quantityBadge}>
+                  <Text style={styles.topItemQuantity}>{formatCurrency(payment.amount)}</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.legendText}>No payments recorded for this period</Text>
+          )}
+        </View>
+
+        {/* Tip Report */}
+        <View style={styles.topItemsContainer}>
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="hand-coin" size={22} color="#059669" />
+            <Text style={styles.topItemsTitle}>Tips</Text>
+          </View>
+          <View style={styles.topItemRow}>
+            <Text style={styles.topItemName}>Tip Pool</Text>
+            <View style={styles.quantityBadge}>
+              <Text style={styles.topItemQuantity}>{formatCurrency(dashboardData.tipPool)}</Text>
+            </View>
+          </View>
+          <View style={styles.tipModeToggle}>
+            {(['hours', 'even'] as TipSplitMode[]).map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.tipModeButton, tipSplitMode === mode && styles.tipModeButtonActive]}
+                onPress={() => setTipSplitMode(mode)}
+              >
+                <Text style={[styles.tipModeText, tipSplitMode === mode && styles.tipModeTextActive]}>
+                  {mode === 'hours' ? 'Split by Hours' : 'Split Evenly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {dashboardData.tipStaffHours.length > 0 ? (
+            splitTipPool(dashboardData.tipPool, dashboardData.tipStaffHours, tipSplitMode).map(share => (
+              <View key={share.staffId} style={styles.topItemRow}>
+                <View style={styles.topItemInfo}>
+                  <Text style={styles.topItemName}>{share.staffName}</Text>
+                  <Text style={styles.legendText}>{share.hours.toFixed(1)} hrs on shift</Text>
+                </View>
+                <View style={styles.quantityBadge}>
+                  <Text style={styles.topItemQuantity}>{formatCurrency(share.amount)}</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.legendText}>No shifts were worked in this period</Text>
+          )}
+        </View>
+
         {/* Top Selling Items */}
         <View style={styles.topItemsContainer}>
           <View style={styles.sectionHeader}>
@@ -745,6 +891,29 @@ export default function Dashboard() {
             </View>
           ))}
         </View>
+
+        {/* Top Modifiers */}
+        {dashboardData.topModifiers.length > 0 && (
+          <View style={styles.topItemsContainer}>
+            <View style={styles.sectionHeader}>
+              <MaterialCommunityIcons name="tune-variant" size={22} color="#F36514" />
+              <Text style={styles.topItemsTitle}>Popular Add-ons</Text>
+            </View>
+            {dashboardData.topModifiers.map((modifier, index) => (
+              <View key={modifier.name} style={styles.topItemRow}>
+                <View style={styles.topItemInfo}>
+                  <View style={[styles.rankBadge, index === 0 ? styles.firstRank : (index === 1 ? styles.secondRank : (index === 2 ? styles.thirdRank : styles.otherRank))]}>
+                    <Text style={styles.rankText}>#{index + 1}</Text>
+                  </View>
+                  <Text style={styles.topItemName}>{modifier.name}</Text>
+                </View>
+                <View style={styles.quantityBadge}>
+                  <Text style={styles.topItemQuantity}>{modifier.quantity} sold</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
       </ScrollView>
 
       {/* Inventory Report Modal */}
@@ -1172,6 +1341,30 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     gap: 8,
   },
+  tipModeToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 12,
+  },
+  tipModeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  tipModeButtonActive: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  tipModeText: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  tipModeTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   topItemsTitle: {
     fontSize: 18,
     fontWeight: '600',
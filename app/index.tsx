@@ -1,13 +1,39 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, TextInput, Modal, Alert, ActivityIndicator, Image, ScrollView, Animated, SafeAreaView, FlatList, Platform } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import { FontAwesome } from '@expo/vector-icons';
 import { Link, router } from 'expo-router';
 import { onAuthStateChanged, signOut } from 'firebase/auth';
-import { collection, addDoc, serverTimestamp, onSnapshot, query, orderBy, where, doc, updateDoc, getDocs, writeBatch, arrayUnion, getDoc, setDoc } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, onSnapshot, query, orderBy, where, doc, updateDoc, getDocs, writeBatch, arrayUnion, getDoc, setDoc, deleteDoc, runTransaction } from 'firebase/firestore';
 import { auth, db } from '../firebaseConfig';
 import { useUser } from './contexts/UserContext';
+import { useNetwork } from './contexts/networkcontext';
 import { loadSounds, playNewOrderSound, stopNewOrderSound, unloadSounds } from '../utils/soundUtils';
+import { ModifierGroup, SelectedModifier, getMinSelections, getMaxSelections, getModifiersTotal, getModifiersKey, formatModifiers, validateModifierSelections, buildSelectedModifiers } from '../utils/modifiers';
+import { DiscountCardholder, StatutoryDiscountType } from '../utils/discounts';
+import { PricingBreakdown, TaxClass, TaxSettings, DEFAULT_TAX_SETTINGS, TAX_CLASS_LABELS, CURRENCY_TOLERANCE, computePricing, roundCurrency } from '../utils/pricing';
+import { normalizeBarcode, buildBarcodeIndex } from '../utils/barcodes';
+import { QueuedOrderStatus, createOrderId } from '../utils/orderQueue';
+import { Customer, CustomerForm, CustomerProfileStats, isStaffAccount, searchCustomers, validateCustomerForm, buildCustomerStats, normalizePhone } from '../utils/customers';
+import {
+  DailyNumber,
+  OrderNumbers,
+  allocateDailyNumber,
+  allocateOrderNumbers,
+  assignOrderNumbers,
+  formatOrderReference,
+  getOrderLabel,
+  formatReceiptNumber
+} from '../utils/orderNumbers';
+import { DiningTable, toDiningTable, isTableOccupied, formatOccupiedDuration } from '../utils/tables';
+import { Shift, subscribeToOpenShift } from '../utils/shifts';
+import { OrderTip, TIP_PERCENTAGES, calculateTip } from '../utils/tips';
+import { CustomerDisplayState, PaymentQr, publishCustomerDisplay } from '../utils/customerDisplay';
+import { PREP_TIME_OPTIONS, DEFAULT_PREP_TIME, REJECTION_REASONS, acceptOrder, rejectOrder } from '../utils/orderIntake';
+import { VoidApprover, findVoidApprover } from '../utils/voids';
+import { QrPhSettings, DEFAULT_QRPH_SETTINGS, toQrPhSettings, isQrPhConfigured, buildQrPhPayload } from '../utils/qrph';
+import QRCode from 'react-native-qrcode-svg';
+import { PaymentMethod, PaymentTender, PAYMENT_METHOD_LABELS, CASH_DENOMINATIONS, getTenderedTotal, getRemainingBalance, isFullyTendered, getCashTendered, getChangeDue, getPointsRedeemed } from '../utils/payments';
 
 interface Category {
   id: string;
@@ -22,12 +48,17 @@ interface Product {
   imageUrl: string;
   status: 'available' | 'unavailable';
   quantity?: number;
+  sku?: string;
+  barcode?: string;
+  taxClass?: TaxClass;
   hasSizes?: boolean;
   sizes?: {
     [key: string]: {
       price: string;
+      barcode?: string;
     };
   };
+  modifierGroups?: ModifierGroup[];
   price: string;
   basePrice: string;
 }
@@ -48,6 +79,9 @@ interface CartItem {
   total: number;
   imageUrl?: string;
   size?: string;
+  modifiers?: SelectedModifier[];
+  note?: string; // Kitchen instruction for this line, e.g. "less ice"
+  taxClass?: TaxClass;
 }
 
 interface InventoryItem {
@@ -71,14 +105,48 @@ interface Order {
   customerId: string;
   staffId: string;
   staffEmail: string;
-  paymentMethod: 'cash' | 'gcash' | 'maya' | 'grabpay';
+  paymentMethod: PaymentMethod | 'split';
+  payments?: PaymentTender[];
   diningMode: 'dine-in' | 'takeout';
   source: 'pos' | 'customer';
+  orderNumber?: number | null;
+  receiptNumber?: number | null;
   createdAt?: any;
 }
 
+interface VoucherSettings {
+  id: string;
+  code: string;
+  description: string;
+  discountAmount: number;
+  minimumOrderAmount: number;
+  maxUsagePerUser: number;
+  enabled: boolean;
+}
+
+// A parked cart saved as an open ticket so any terminal can recall it
+interface HeldOrder {
+  id: string;
+  name: string;
+  items: CartItem[];
+  isPwdDiscount: boolean;
+  isSeniorDiscount: boolean;
+  discountCardholders?: DiscountCardholder[];
+  partySize?: number;
+  voucher?: VoucherSettings | null;
+  customerId?: string | null;
+  customerEmail: string | null;
+  orderNote: string | null;
+  staffId: string;
+  staffName: string;
+  createdAt: any;
+}
+
 export default function Index() {
   const { user: authUser, role } = useUser();
+  const { isOffline, isSyncing, queuedOrders, pendingCount, queueOrder, syncNow, retryOrder, discardOrder } = useNetwork();
+  const [showSyncQueueModal, setShowSyncQueueModal] = useState(false);
+  const [discardingQueuedOrderId, setDiscardingQueuedOrderId] = useState<string | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
@@ -90,12 +158,47 @@ export default function Index() {
   const [selectedPayment, setSelectedPayment] = useState<'cash' | 'gcash' | 'maya' | 'grabpay' | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [selectedSize, setSelectedSize] = useState<string>('');
+  // Option names picked per modifier group in the product configurator
+  const [modifierSelections, setModifierSelections] = useState<{ [groupId: string]: string[] }>({});
   const [quantity, setQuantity] = useState(1);
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<string | null>(null);
+  // Tenders collected so far for the current checkout (split payments)
+  const [payments, setPayments] = useState<PaymentTender[]>([]);
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderReference, setTenderReference] = useState('');
+  // Voluntary tip on top of the order; it can only change before the first tender is added
+  const [tip, setTip] = useState<OrderTip | null>(null);
+  const [customTipInput, setCustomTipInput] = useState('');
+  const [showCustomTip, setShowCustomTip] = useState(false);
+  // ID the sale being rung up will be saved under, picked when a QR Ph code is first shown
+  // so the code's reference matches the order. Order and receipt numbers are only taken
+  // when the sale is saved, so an abandoned checkout leaves no gap in the OR series.
+  // Daily order number reserved for the QR Ph reference before the sale is rung up
+  const [checkoutNumber, setCheckoutNumber] = useState<DailyNumber | null>(null);
+  const [qrPhSettings, setQrPhSettings] = useState<QrPhSettings>(DEFAULT_QRPH_SETTINGS);
   const [diningMode, setDiningMode] = useState<string | null>(null);
-  const [customerEmail, setCustomerEmail] = useState<string>('');
+  const [diningTables, setDiningTables] = useState<DiningTable[]>([]);
+  const [openShift, setOpenShift] = useState<Shift | null>(null);
+  const [showTablePicker, setShowTablePicker] = useState(false);
+  // Customers for the checkout search; the selected one earns and redeems points
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [customerStats, setCustomerStats] = useState<CustomerProfileStats | null>(null);
+  const [isLoadingCustomerStats, setIsLoadingCustomerStats] = useState(false);
+  const [showNewCustomerModal, setShowNewCustomerModal] = useState(false);
+  const [newCustomerForm, setNewCustomerForm] = useState<CustomerForm>({ name: '', email: '', phone: '' });
+  const [isSavingCustomer, setIsSavingCustomer] = useState(false);
+  // Kitchen notes: the whole-order note, plus the line (by cart index) or order currently being edited
+  const [orderNote, setOrderNote] = useState('');
+  const [noteTarget, setNoteTarget] = useState<number | 'order' | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  // Scan-to-cart field; keyboard-wedge scanners type the code and press Enter
+  const [scanCode, setScanCode] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
+  const scanInputRef = useRef<TextInput>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [consumptionModalVisible, setConsumptionModalVisible] = useState(false);
   const [consumptionError, setConsumptionError] = useState<string | null>(null);
@@ -103,6 +206,13 @@ export default function Index() {
   const [showNotificationModal, setShowNotificationModal] = useState(false);
   const [hasUnreadNotifications, setHasUnreadNotifications] = useState(false);
   const [notifications, setNotifications] = useState<Order[]>([]);
+  // Intake choices per incoming customer order, keyed by order ID
+  const [prepTimes, setPrepTimes] = useState<Record<string, number>>({});
+  const [rejectingOrderId, setRejectingOrderId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  // Owner approval PIN entered when staff reject an order
+  const [rejectionPin, setRejectionPin] = useState('');
+  const [intakeOrderId, setIntakeOrderId] = useState<string | null>(null);
   const [inventoryItems, setInventoryItems] = useState<Array<{
     [x: string]: any;id: string; name: string; quantity: number
   }>>([]);
@@ -117,14 +227,10 @@ export default function Index() {
   // Add new state for success modal
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successOrderId, setSuccessOrderId] = useState<string>('');
+  const [successOrderNumbers, setSuccessOrderNumbers] = useState<OrderNumbers | null>(null);
 
   // Add back tax and payment settings
-  const [taxSettings, setTaxSettings] = useState<{ enabled: boolean; percentage: number; label: string; embedded: boolean }>({
-    enabled: false,
-    percentage: 0,
-    label: '',
-    embedded: false
-  });
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
 
   const [paymentSettings, setPaymentSettings] = useState<{
     enableCash: boolean;
@@ -149,6 +255,34 @@ export default function Index() {
   const [isPwdDiscount, setIsPwdDiscount] = useState(false);
   const [isSeniorDiscount, setIsSeniorDiscount] = useState(false);
   const [discountPercentage, setDiscountPercentage] = useState(20); // Default 20% discount
+  // Statutory discount details: who holds the PWD/Senior ID and how many people share the bill
+  const [discountCardholders, setDiscountCardholders] = useState<DiscountCardholder[]>([]);
+  const [partySize, setPartySize] = useState('1');
+  const [discountModalType, setDiscountModalType] = useState<StatutoryDiscountType | null>(null);
+  const [cardholderIdNumber, setCardholderIdNumber] = useState('');
+  const [cardholderName, setCardholderName] = useState('');
+
+  // Vouchers configured in settings and the one redeemed on the current cart
+  const [vouchers, setVouchers] = useState<VoucherSettings[]>([]);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [appliedVoucher, setAppliedVoucher] = useState<VoucherSettings | null>(null);
+  const [isValidatingVoucher, setIsValidatingVoucher] = useState(false);
+
+  // Rewards program settings (points earned per item and their peso value at checkout)
+  const [rewardsSettings, setRewardsSettings] = useState({ enabled: false, pointsPerItem: 1, pointValue: 1 });
+
+  // Looked up from the live list so points stay current while the cart is open
+  const selectedCustomer = customers.find(customer => customer.id === selectedCustomerId) || null;
+  const customerEmail = selectedCustomer?.email || '';
+
+  // Held carts (open tickets)
+  const [heldOrders, setHeldOrders] = useState<HeldOrder[]>([]);
+  const [showHoldModal, setShowHoldModal] = useState(false);
+  const [showNoShiftModal, setShowNoShiftModal] = useState(false);
+  const [showHeldOrdersModal, setShowHeldOrdersModal] = useState(false);
+  // Held ticket waiting for the cashier to confirm replacing the cart with it, or deleting it
+  const [confirmingHeldOrder, setConfirmingHeldOrder] = useState<{ id: string; action: 'recall' | 'delete' } | null>(null);
+  const [holdName, setHoldName] = useState('');
 
   const sidebarAnimation = useRef(new Animated.Value(-300)).current;
 
@@ -236,6 +370,13 @@ export default function Index() {
       
       setNotifications(newOrders);
       setHasUnreadNotifications(newOrders.length > 0);
+
+      // Paid customer-app orders get their queue and OR numbers on arrival
+      newOrders
+        .filter(order => !order.orderNumber)
+        .forEach(order => {
+          assignOrderNumbers(order.id).catch(error => console.error('Error numbering customer order:', error));
+        });
     });
 
     // Check for daily consumption alert
@@ -276,6 +417,24 @@ export default function Index() {
     };
   }, []);
 
+  useEffect(() => {
+    // Subscribe to held carts so every terminal sees the same open tickets
+    const heldOrdersRef = collection(db, 'heldOrders');
+    const q = query(heldOrdersRef, orderBy('createdAt', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const held = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as HeldOrder[];
+      setHeldOrders(held);
+    }, (error) => {
+      console.error('Error loading held orders:', error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
   useEffect(() => {
     const fetchItemDetails = async () => {
       if (selectedItem) {
@@ -377,23 +536,74 @@ export default function Index() {
     };
   }, []);
 
+  useEffect(() => {
+    // Subscribe to customers; staff accounts share the users collection
+    const unsubscribe = onSnapshot(
+      collection(db, 'users'),
+      (snapshot) => {
+        const customerList = snapshot.docs
+          .filter(doc => !isStaffAccount(doc.data()) && doc.data().email)
+          .map(doc => ({
+            id: doc.id,
+            name: doc.data().name || 'Customer',
+            email: doc.data().email,
+            phone: doc.data().phone || null,
+            points: doc.data().points || 0
+          }));
+        setCustomers(customerList);
+      },
+      (error) => {
+        console.error('Error fetching customers:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    // Subscribe to the floor plan so dine-in orders can be seated
+    const unsubscribe = onSnapshot(
+      collection(db, 'tables'),
+      (snapshot) => {
+        const tableList = snapshot.docs
+          .map(tableDoc => toDiningTable(tableDoc.id, tableDoc.data()))
+          .sort((a, b) => a.number - b.number);
+        setDiningTables(tableList);
+      },
+      (error) => {
+        console.error('Error fetching tables:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    // Every sale is rung up against the open cash drawer shift
+    const unsubscribe = subscribeToOpenShift(setOpenShift);
+    return () => unsubscribe();
+  }, []);
+
   const filteredProducts = products.filter(product => {
     const matchesCategory = selectedCategory?.id === 'all' || product.categoryId === selectedCategory?.id;
     const matchesSearch = searchQuery.trim() === '' || 
       product.name.toLowerCase().includes(searchQuery.toLowerCase().trim()) ||
-      product.description?.toLowerCase().includes(searchQuery.toLowerCase().trim());
+      product.description?.toLowerCase().includes(searchQuery.toLowerCase().trim()) ||
+      normalizeBarcode(product.sku) === normalizeBarcode(searchQuery);
     return matchesCategory && matchesSearch;
   });
 
   const loadTaxSettings = async () => {
-    // VAT is now automatically embedded in the price, no need to load settings
-    // Just set a default configuration
-    setTaxSettings({ 
-      enabled: true, 
-      percentage: 12, 
-      label: 'VAT',
-      embedded: true
-    });
+    try {
+      const settingsRef = doc(db, 'settings', 'config');
+      const settingsDoc = await getDoc(settingsRef);
+
+      if (settingsDoc.exists() && settingsDoc.data().tax) {
+        setTaxSettings({ ...DEFAULT_TAX_SETTINGS, ...settingsDoc.data().tax });
+      }
+    } catch (error) {
+      console.error('Error loading tax settings:', error);
+    }
   };
 
   const loadPaymentSettings = async () => {
@@ -406,6 +616,7 @@ export default function Index() {
         if (settings.payment) {
           setPaymentSettings(settings.payment);
         }
+        setQrPhSettings(toQrPhSettings(settings.qrPh));
       }
       setIsSettingsLoaded(true);
     } catch (error) {
@@ -437,6 +648,12 @@ export default function Index() {
           if (settings.general) {
             setNotificationSoundEnabled(settings.general.notificationSound ?? true);
           }
+          setVouchers(settings.vouchers || []);
+          setRewardsSettings({
+            enabled: settings.rewards?.enabled ?? false,
+            pointsPerItem: settings.rewards?.pointsPerItem ?? 1,
+            pointValue: settings.rewards?.pointValue ?? 1
+          });
         }
       }, (error) => {
         console.error('Error listening to general settings:', error);
@@ -449,30 +666,354 @@ export default function Index() {
     }
   };
 
-  const calculateTax = (total: number) => {
-    // Calculate VAT as exactly 12% of the total price
-    return total * 0.12;
+  // Single source of truth for every total the register shows, charges and saves
+  const calculatePricing = (): PricingBreakdown =>
+    computePricing({
+      lines: cart,
+      vatRate: taxSettings.rate / 100,
+      pricesIncludeVat: taxSettings.pricesIncludeVat,
+      serviceChargeRate: paymentSettings?.autoApplyServiceCharge ? paymentSettings.serviceChargePercentage || 0 : 0,
+      statutoryDiscount: isPwdDiscount || isSeniorDiscount ? {
+        cardholderCount: discountCardholders.length,
+        partySize: parseInt(partySize) || 1,
+        percentage: discountPercentage
+      } : null,
+      voucher: appliedVoucher ? {
+        discountAmount: appliedVoucher.discountAmount,
+        minimumOrderAmount: appliedVoucher.minimumOrderAmount
+      } : null,
+      pointsTendered: payments
+        .filter(payment => payment.method === 'points')
+        .reduce((sum, payment) => sum + payment.amount, 0)
+    });
+
+  // Amount the customer has to settle, including any tip
+  const calculateAmountDue = () => roundCurrency(calculatePricing().total + (tip?.amount || 0));
+
+  // Dynamic QR Ph code for the GCash or Maya amount being entered
+  const getPaymentQr = (): PaymentQr | null => {
+    const amount = roundCurrency(parseFloat(tenderAmount) || 0);
+    if ((paymentMethod !== 'gcash' && paymentMethod !== 'maya') || !isQrPhConfigured(qrPhSettings) || !checkoutNumber || amount <= 0) {
+      return null;
+    }
+    // The order number the sale will be saved under
+    const reference = formatOrderReference(checkoutNumber);
+    return { payload: buildQrPhPayload(qrPhSettings, amount, reference), amount, reference };
+  };
+
+  // Mirrors the cart and payment progress to the customer display (customer-display.tsx)
+  useEffect(() => {
+    if (!authUser) return;
+
+    const pricing = calculatePricing();
+    const status: CustomerDisplayState['status'] = showPaymentModal
+      ? 'payment'
+      : cart.length > 0 ? 'cart' : showSuccessModal ? 'complete' : 'idle';
+    const adjustments = [
+      ...(!pricing.pricesIncludeVat && pricing.vatAmount > 0 ? [{ label: taxSettings.label || 'VAT', amount: pricing.vatAmount }] : []),
+      ...(pricing.serviceCharge > 0 ? [{ label: `Service Charge (${pricing.serviceChargeRate}%)`, amount: pricing.serviceCharge }] : []),
+      ...(pricing.statutory.vatRemoved > 0 ? [{ label: 'VAT Exemption', amount: -pricing.statutory.vatRemoved }] : []),
+      ...(pricing.statutory.discountAmount > 0
+        ? [{ label: `${isPwdDiscount ? 'PWD' : 'Senior Citizen'} Discount`, amount: -pricing.statutory.discountAmount }]
+        : []),
+      ...(pricing.voucherApplied && pricing.voucherDiscount > 0 ? [{ label: 'Voucher', amount: -pricing.voucherDiscount }] : [])
+    ];
+
+    publishCustomerDisplay(authUser.uid, {
+      status,
+      lines: cart.map(item => ({
+        name: item.name,
+        quantity: item.quantity,
+        total: item.total,
+        details: [item.size, formatModifiers(item.modifiers)].filter(Boolean).join(' · ') || null
+      })),
+      subtotal: pricing.grossSales,
+      adjustments,
+      total: pricing.total,
+      tip: tip?.amount || 0,
+      paid: getTenderedTotal(payments),
+      remaining: getRemainingBalance(calculateAmountDue(), payments),
+      change: getChangeDue(payments),
+      paymentMethod: showPaymentModal ? paymentMethod : null,
+      paymentQr: showPaymentModal ? getPaymentQr() : null,
+      updatedAt: Date.now()
+    });
+  }, [authUser, cart, payments, tip, paymentMethod, tenderAmount, checkoutNumber, qrPhSettings, showPaymentModal,
+    showSuccessModal, isPwdDiscount, isSeniorDiscount, discountCardholders, partySize, discountPercentage, appliedVoucher,
+    taxSettings, paymentSettings]);
+
+  // Order fields written from the breakdown, so receipts read back exactly what was charged
+  const getOrderPricingFields = (pricing: PricingBreakdown) => ({
+    subtotal: pricing.netSales,
+    tax: {
+      amount: pricing.vatAmount,
+      percentage: pricing.vatRate * 100,
+      label: taxSettings.label || 'VAT',
+      embedded: pricing.pricesIncludeVat
+    },
+    // Sales split the way BIR receipts and reports require
+    vatableSales: pricing.vatableSales,
+    zeroRatedSales: pricing.zeroRatedSales,
+    vatAmount: pricing.vatAmount,
+    serviceCharge: {
+      amount: pricing.serviceCharge,
+      percentage: pricing.serviceChargeRate
+    },
+    discount: pricing.statutory.discountAmount > 0 ? {
+      amount: pricing.statutory.discountAmount,
+      percentage: discountPercentage,
+      type: isPwdDiscount ? 'PWD' : isSeniorDiscount ? 'Senior Citizen' : 'Manual Discount',
+      vatExemptSales: pricing.statutory.vatExemptSales,
+      vatRemoved: pricing.statutory.vatRemoved,
+      qualifyingAmount: pricing.statutory.qualifyingGross,
+      partySize: parseInt(partySize) || 1,
+      cardholders: discountCardholders
+    } : null,
+    vatExemptSales: pricing.vatExemptSales,
+    voucher: appliedVoucher && pricing.voucherDiscount > 0 ? {
+      id: appliedVoucher.id,
+      code: appliedVoucher.code,
+      description: appliedVoucher.description || '',
+      discountAmount: pricing.voucherDiscount
+    } : null,
+    total: pricing.total,
+    pricing
+  });
+
+  const getVoucherUsageCount = async (voucherId: string, email: string) => {
+    const usageQuery = query(
+      collection(db, 'voucherUsage'),
+      where('voucherId', '==', voucherId),
+      where('customerEmail', '==', email)
+    );
+    return (await getDocs(usageQuery)).size;
+  };
+
+  const handleApplyVoucher = async () => {
+    const code = voucherCode.trim().toUpperCase();
+    if (!code) {
+      Alert.alert('Error', 'Please enter a voucher code');
+      return;
+    }
+
+    const voucher = vouchers.find(v => v.code.trim().toUpperCase() === code);
+    if (!voucher || !voucher.enabled) {
+      Alert.alert('Invalid Voucher', 'This voucher code is not valid');
+      return;
+    }
+
+    const cartTotal = cart.reduce((sum, item) => sum + item.total, 0);
+    if (cartTotal < (voucher.minimumOrderAmount || 0)) {
+      Alert.alert('Invalid Voucher', `This voucher requires a minimum order of ₱${voucher.minimumOrderAmount.toFixed(2)}`);
+      return;
+    }
+
+    // Usage limits are tracked per customer, so a linked email is required
+    if (voucher.maxUsagePerUser > 0) {
+      const email = customerEmail.trim().toLowerCase();
+      if (!email) {
+        Alert.alert('Customer Required', 'Select the customer to redeem this voucher');
+        return;
+      }
+
+      try {
+        setIsValidatingVoucher(true);
+        const usageCount = await getVoucherUsageCount(voucher.id, email);
+        if (usageCount >= voucher.maxUsagePerUser) {
+          Alert.alert('Voucher Limit Reached', `This customer has already used ${voucher.code} ${usageCount} time(s)`);
+          return;
+        }
+      } catch (error) {
+        console.error('Error validating voucher:', error);
+        Alert.alert('Error', 'Failed to validate voucher. Please try again.');
+        return;
+      } finally {
+        setIsValidatingVoucher(false);
+      }
+    }
+
+    setAppliedVoucher(voucher);
+    setVoucherCode('');
+  };
+
+  const handleRemoveVoucher = () => {
+    setAppliedVoucher(null);
+    setVoucherCode('');
+  };
+
+  const recordVoucherUsage = async (orderId: string, discountAmount: number) => {
+    if (!appliedVoucher) return;
+    try {
+      await addDoc(collection(db, 'voucherUsage'), {
+        voucherId: appliedVoucher.id,
+        code: appliedVoucher.code,
+        customerEmail: customerEmail.trim().toLowerCase() || null,
+        orderId,
+        discountAmount,
+        usedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error recording voucher usage:', error);
+    }
   };
 
-  const calculateServiceCharge = (subtotal: number) => {
-    if (!paymentSettings?.autoApplyServiceCharge) return 0;
-    return (subtotal * (paymentSettings?.serviceChargePercentage || 0)) / 100;
+  const loadCustomerStats = async (customer: Customer) => {
+    try {
+      setIsLoadingCustomerStats(true);
+      setCustomerStats(null);
+      const ordersQuery = query(collection(db, 'orders'), where('customerEmail', '==', customer.email));
+      const ordersSnapshot = await getDocs(ordersQuery);
+      setCustomerStats(buildCustomerStats(ordersSnapshot.docs.map(doc => ({
+        ...doc.data(),
+        total: doc.data().total || 0,
+        createdAt: typeof doc.data().createdAt?.toDate === 'function' ? doc.data().createdAt.toDate() : null
+      }))));
+    } catch (error) {
+      console.error('Error loading customer history:', error);
+    } finally {
+      setIsLoadingCustomerStats(false);
+    }
   };
-  
-  // Add discount calculation function
-  const calculateDiscount = (subtotal: number) => {
-    if (isPwdDiscount || isSeniorDiscount) {
-      return (subtotal * discountPercentage) / 100;
+
+  // Per-customer voucher limits are checked again whenever the customer on the sale changes
+  const recheckVoucherLimit = async (voucher: VoucherSettings | null, email: string) => {
+    if (!voucher || voucher.maxUsagePerUser <= 0) return;
+    const removeVoucher = () => setAppliedVoucher(current => current?.id === voucher.id ? null : current);
+    if (!email) {
+      removeVoucher();
+      return;
+    }
+
+    try {
+      setIsValidatingVoucher(true);
+      const usageCount = await getVoucherUsageCount(voucher.id, email);
+      if (usageCount >= voucher.maxUsagePerUser) {
+        removeVoucher();
+        Alert.alert('Voucher Removed', `This customer has already used ${voucher.code} ${usageCount} time(s)`);
+      }
+    } catch (error) {
+      console.error('Error validating voucher:', error);
+      removeVoucher();
+      Alert.alert('Voucher Removed', `Could not check ${voucher.code} for this customer. Please apply it again.`);
+    } finally {
+      setIsValidatingVoucher(false);
+    }
+  };
+
+  const handleSelectCustomer = (customer: Customer, voucher = appliedVoucher) => {
+    setSelectedCustomerId(customer.id);
+    setCustomerSearch('');
+    loadCustomerStats(customer);
+    recheckVoucherLimit(voucher, customer.email.trim().toLowerCase());
+  };
+
+  const handleClearCustomer = () => {
+    // Per-customer voucher limits were checked against this customer
+    if (appliedVoucher && appliedVoucher.maxUsagePerUser > 0) {
+      setAppliedVoucher(null);
+    }
+    setSelectedCustomerId(null);
+    setCustomerStats(null);
+  };
+
+  const openNewCustomerModal = () => {
+    // Prefill from the search so the cashier doesn't retype it
+    const term = customerSearch.trim();
+    setNewCustomerForm({
+      name: term.includes('@') || normalizePhone(term).length >= 7 ? '' : term,
+      email: term.includes('@') ? term.toLowerCase() : '',
+      phone: !term.includes('@') && normalizePhone(term).length >= 7 ? term : ''
+    });
+    setShowNewCustomerModal(true);
+  };
+
+  const handleCreateCustomer = async () => {
+    const validationError = validateCustomerForm(newCustomerForm, customers);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSavingCustomer(true);
+      const customerData = {
+        name: newCustomerForm.name.trim(),
+        email: newCustomerForm.email.trim().toLowerCase(),
+        phone: normalizePhone(newCustomerForm.phone) || null,
+        points: 0,
+        createdAt: serverTimestamp(),
+        createdBy: authUser?.uid || null
+      };
+      const customerDoc = await addDoc(collection(db, 'users'), customerData);
+      setSelectedCustomerId(customerDoc.id);
+      setCustomerStats(buildCustomerStats([]));
+      setCustomerSearch('');
+      setShowNewCustomerModal(false);
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      Alert.alert('Error', 'Failed to create customer. Please try again.');
+    } finally {
+      setIsSavingCustomer(false);
+    }
+  };
+
+  const openDiscountModal = (type: StatutoryDiscountType) => {
+    const otherActive = type === 'PWD' ? isSeniorDiscount : isPwdDiscount;
+    if (otherActive) {
+      Alert.alert('Discount Error', 'Only one discount can be applied at a time.');
+      return;
+    }
+    setCardholderIdNumber('');
+    setCardholderName('');
+    setDiscountModalType(type);
+  };
+
+  const clearStatutoryDiscount = () => {
+    setIsPwdDiscount(false);
+    setIsSeniorDiscount(false);
+    setDiscountCardholders([]);
+    setPartySize('1');
+  };
+
+  const handleAddCardholder = () => {
+    if (!cardholderIdNumber.trim() || !cardholderName.trim()) {
+      Alert.alert('Error', 'Please enter the ID number and name of the cardholder');
+      return;
+    }
+    if (discountCardholders.some(cardholder => cardholder.idNumber === cardholderIdNumber.trim())) {
+      Alert.alert('Error', 'This ID number has already been added');
+      return;
+    }
+    setDiscountCardholders([
+      ...discountCardholders,
+      { idNumber: cardholderIdNumber.trim(), name: cardholderName.trim() }
+    ]);
+    setCardholderIdNumber('');
+    setCardholderName('');
+  };
+
+  const handleApplyStatutoryDiscount = () => {
+    if (discountCardholders.length === 0) {
+      Alert.alert('Error', 'Add at least one cardholder to apply the discount');
+      return;
     }
-    return 0;
+    const headcount = parseInt(partySize) || 0;
+    if (headcount < discountCardholders.length) {
+      Alert.alert('Error', 'Party size cannot be less than the number of cardholders');
+      return;
+    }
+    setIsPwdDiscount(discountModalType === 'PWD');
+    setIsSeniorDiscount(discountModalType === 'Senior Citizen');
+    setDiscountModalType(null);
   };
 
-  const calculateTotal = () => {
-    const subtotal = cart.reduce((total, item) => total + item.total, 0);
-    // Tax is already embedded in the subtotal, so we don't add it again
-    const serviceCharge = calculateServiceCharge(subtotal);
-    const discount = calculateDiscount(subtotal);
-    return subtotal + serviceCharge - discount;
+  const handleCancelStatutoryDiscount = () => {
+    // Discard the entries if the discount was never applied
+    if (!isPwdDiscount && !isSeniorDiscount) {
+      setDiscountCardholders([]);
+      setPartySize('1');
+    }
+    setDiscountModalType(null);
   };
 
   const toggleSidebar = () => {
@@ -488,8 +1029,9 @@ export default function Index() {
   const handleProductSelect = (product: Product) => {
     setSelectedProduct(product);
     setQuantity(1);
-    if (product.hasSizes) {
+    if (product.hasSizes || (product.modifierGroups || []).length > 0) {
       setSelectedSize('');
+      setModifierSelections({});
       setIsModalVisible(true);
     } else {
       handleAddToCart(product);
@@ -500,115 +1042,200 @@ export default function Index() {
     setSelectedSize(sizeName);
   };
 
-  const handleAddToCart = (product: Product) => {
-    if (!product) return;
+  const handleModifierToggle = (group: ModifierGroup, optionName: string) => {
+    const current = modifierSelections[group.id] || [];
+    let updated: string[];
 
-    const price = product.hasSizes && selectedSize 
-      ? product.sizes?.[selectedSize]?.price 
+    if (current.includes(optionName)) {
+      updated = current.filter(name => name !== optionName);
+    } else if (getMaxSelections(group) === 1) {
+      // Single-choice groups behave like radio buttons
+      updated = [optionName];
+    } else if (current.length >= getMaxSelections(group)) {
+      return;
+    } else {
+      updated = [...current, optionName];
+    }
+
+    setModifierSelections({ ...modifierSelections, [group.id]: updated });
+  };
+
+  const calculateConfiguredPrice = (product: Product) => {
+    const basePrice = product.hasSizes
+      ? Number(product.sizes?.[selectedSize]?.price || 0)
+      : Number(product.basePrice || 0);
+    return basePrice + getModifiersTotal(buildSelectedModifiers(product.modifierGroups, modifierSelections));
+  };
+
+  const closeProductModal = () => {
+    setIsModalVisible(false);
+    setSelectedProduct(null);
+    setSelectedSize('');
+    setModifierSelections({});
+  };
+
+  // Adds a configured line, merging into an identical one; lines with their own kitchen note are kept separate
+  const addLineToCart = (product: Product, size: string, lineQuantity: number, modifiers: SelectedModifier[]) => {
+    const basePrice = product.hasSizes && size
+      ? product.sizes?.[size]?.price
       : product.basePrice;
 
-    if (!price) return;
+    if (!basePrice) return;
+
+    const price = Number(basePrice) + getModifiersTotal(modifiers);
 
-    const itemName = product.hasSizes && selectedSize 
-      ? `${product.name} (${selectedSize})` 
+    const itemName = product.hasSizes && size
+      ? `${product.name} (${size})`
       : product.name;
 
-    const existingItemIndex = cart.findIndex(item => 
-      item.name === itemName && item.size === (selectedSize || undefined)
-    );
+    setCart(prevCart => {
+      const existingItemIndex = prevCart.findIndex(item =>
+        !item.note &&
+        item.name === itemName &&
+        item.size === (size || undefined) &&
+        getModifiersKey(item.modifiers) === getModifiersKey(modifiers)
+      );
 
-    if (existingItemIndex !== -1) {
-      const updatedCart = [...cart];
-      updatedCart[existingItemIndex].quantity += quantity;
-      updatedCart[existingItemIndex].total = 
-        updatedCart[existingItemIndex].price * updatedCart[existingItemIndex].quantity;
-      setCart(updatedCart);
-    } else {
-      const newItem: CartItem = {
+      if (existingItemIndex !== -1) {
+        return prevCart.map((item, i) =>
+          i === existingItemIndex
+            ? { ...item, quantity: item.quantity + lineQuantity, total: item.price * (item.quantity + lineQuantity) }
+            : item
+        );
+      }
+
+      return [...prevCart, {
         id: product.id,
         name: itemName,
         price: Number(price),
-        quantity: quantity,
-        total: Number(price) * quantity,
+        quantity: lineQuantity,
+        total: Number(price) * lineQuantity,
         imageUrl: product.imageUrl,
-        size: selectedSize || undefined
-      };
-      setCart([...cart, newItem]);
+        size: size || undefined,
+        modifiers: modifiers.length > 0 ? modifiers : undefined,
+        taxClass: product.taxClass || 'vatable'
+      }];
+    });
+  };
+
+  const handleAddToCart = (product: Product) => {
+    if (!product) return;
+
+    const basePrice = product.hasSizes && selectedSize 
+      ? product.sizes?.[selectedSize]?.price 
+      : product.basePrice;
+
+    if (!basePrice) return;
+
+    const modifierError = validateModifierSelections(product.modifierGroups, modifierSelections);
+    if (modifierError) {
+      Alert.alert('Error', modifierError);
+      return;
     }
 
-    setSelectedProduct(null);
-    setSelectedSize('');
+    addLineToCart(product, selectedSize, quantity, buildSelectedModifiers(product.modifierGroups, modifierSelections));
+
     setQuantity(1);
-    setIsModalVisible(false);
+    closeProductModal();
+  };
+
+  // Rebuilt only when the catalogue changes, not on every scan
+  const barcodeIndex = useMemo(() => buildBarcodeIndex(products), [products]);
+
+  // Scan problems show under the scan field so the cashier sees them on every platform
+  const handleScanSubmit = () => {
+    const code = normalizeBarcode(scanCode);
+    setScanCode('');
+    setScanError(null);
+    scanInputRef.current?.focus();
+    if (!code) return;
+
+    const match = barcodeIndex.get(code);
+    if (!match) {
+      setScanError(`No product matches code ${code}`);
+      return;
+    }
+
+    const { product, size } = match;
+    if (product.status === 'unavailable') {
+      setScanError(`${product.name} is currently unavailable`);
+      return;
+    }
+
+    // Product-level codes on sized items, or required modifiers, still need the configurator
+    const needsConfiguration = (product.hasSizes && !size) ||
+      (product.modifierGroups || []).some(group => getMinSelections(group) > 0);
+    if (needsConfiguration) {
+      setSelectedProduct(product);
+      setQuantity(1);
+      setSelectedSize(size || '');
+      setModifierSelections({});
+      setIsModalVisible(true);
+      return;
+    }
+
+    addLineToCart(product, size || '', 1, []);
   };
 
-  const updateQuantity = (productId: string, newQuantity: number, size?: string) => {
+  // Cart lines are addressed by index since the same product can appear
+  // several times with different sizes or modifiers
+  const updateQuantity = (index: number, newQuantity: number) => {
     if (newQuantity < 1) {
-      setCart(cart.filter(item => item.id !== productId || item.size !== size));
+      removeFromCart(index);
       return;
     }
     
-    setCart(cart.map(item =>
-      item.id === productId && item.size === size
+    setCart(cart.map((item, i) =>
+      i === index
         ? { ...item, quantity: newQuantity, total: item.price * newQuantity }
         : item
     ));
   };
 
-  const removeFromCart = (productId: string, size?: string) => {
-    setCart(cart.filter(item => item.id !== productId || item.size !== size));
+  const removeFromCart = (index: number) => {
+    setCart(cart.filter((_, i) => i !== index));
   };
 
-  const handleCheckout = () => {
-    if (cart.length === 0) {
-      Alert.alert('Error', 'Cart is empty');
-      return;
-    }
+  const openNoteEditor = (target: number | 'order') => {
+    setNoteDraft(target === 'order' ? orderNote : cart[target]?.note || '');
+    setNoteTarget(target);
+  };
 
-    if (!paymentSettings.enableCash && !paymentSettings.enableGCash && !paymentSettings.enableMaya && !paymentSettings.enableGrabPay) {
-      Alert.alert('Error', 'No payment methods are enabled in settings');
-      return;
+  const handleSaveNote = () => {
+    const note = noteDraft.trim();
+    if (noteTarget === 'order') {
+      setOrderNote(note);
+    } else if (noteTarget !== null) {
+      setCart(cart.map((item, i) =>
+        i === noteTarget ? { ...item, note: note || undefined } : item
+      ));
     }
+    setNoteTarget(null);
+    setNoteDraft('');
+  };
 
-    setShowPaymentModal(true);
+  const resetCart = () => {
+    setCart([]);
+    clearStatutoryDiscount();
+    setAppliedVoucher(null);
+    setVoucherCode('');
+    setSelectedCustomerId(null);
+    setCustomerStats(null);
+    setOrderNote('');
+    setCheckoutNumber(null);
   };
 
-  const handlePaymentMethodSelect = (method: 'cash' | 'gcash' | 'maya' | 'grabpay') => {
-    if (method === 'cash' && !paymentSettings.enableCash) {
-      Alert.alert('Error', 'Cash payments are disabled');
-      return;
-    }
-    if (method === 'gcash' && !paymentSettings.enableGCash) {
-      Alert.alert('Error', 'GCash payments are disabled');
-      return;
-    }
-    if (method === 'maya' && !paymentSettings.enableMaya) {
-      Alert.alert('Error', 'Maya payments are disabled');
+  const handleHoldOrder = async () => {
+    if (cart.length === 0) {
+      Alert.alert('Error', 'Cart is empty');
       return;
     }
-    if (method === 'grabpay' && !paymentSettings.enableGrabPay) {
-      Alert.alert('Error', 'GrabPay payments are disabled');
+    if (!holdName.trim()) {
+      Alert.alert('Error', 'Please enter a table or customer name for this ticket');
       return;
     }
-    setPaymentMethod(method);
-    setShowDiningModal(true);
-    setShowPaymentModal(false);
-  };
 
-  const processOrder = async () => {
     try {
-      setIsProcessing(true);
-      
-      const total = cart.reduce((sum, item) => sum + item.total, 0);
-      // Calculate subtotal as exactly 88% of the total
-      const subtotal = total * 0.88;
-      // VAT is exactly 12% of the total
-      const tax = total * 0.12;
-      const serviceCharge = calculateServiceCharge(subtotal);
-      const discount = calculateDiscount(subtotal);
-      const finalTotal = total + serviceCharge - discount;
-
-      // Get user name from Firestore
       let staffName = 'Unknown Staff';
       if (authUser?.uid) {
         const userDoc = await getDoc(doc(db, 'users', authUser.uid));
@@ -616,54 +1243,361 @@ export default function Index() {
           staffName = userDoc.data().name || 'Unknown Staff';
         }
       }
-      
-      // Add Owner label if user is owner
-      const isOwner = role === 'owner';
-      const staffDisplayName = isOwner ? `${staffName}` : staffName;
 
-      // Create order object with tax and service charge details
-      const orderData = {
+      await addDoc(collection(db, 'heldOrders'), {
+        name: holdName.trim(),
         items: cart.map(item => ({
           id: item.id,
           name: item.name,
           price: item.price,
           quantity: item.quantity,
           total: item.total,
-          size: item.size
+          imageUrl: item.imageUrl || null,
+          size: item.size || null,
+          modifiers: item.modifiers || [],
+          note: item.note || null,
+          taxClass: item.taxClass || 'vatable'
         })),
-        total: finalTotal, // Use finalTotal here instead of total for consistency
-        subtotal,
-        tax: {
-          amount: tax,
-          percentage: taxSettings?.percentage || 12,
-          label: taxSettings?.label || 'VAT',
-          embedded: true
-        },
-        serviceCharge: {
-          amount: serviceCharge,
-          percentage: paymentSettings?.serviceChargePercentage || 0
-        },
-        discount: discount > 0 ? {
-          amount: discount,
-          percentage: discountPercentage,
-          type: isPwdDiscount ? 'PWD' : isSeniorDiscount ? 'Senior Citizen' : 'Manual Discount'
-        } : null,
-        status: 'pending',
-        createdAt: new Date().toISOString(),
-        staffId: authUser?.uid || '',
-        staffEmail: authUser?.email || '',
-        staffName: staffDisplayName,
-        paymentMethod,
+        isPwdDiscount,
+        isSeniorDiscount,
+        discountCardholders,
+        partySize: parseInt(partySize) || 1,
+        voucher: appliedVoucher,
+        customerId: selectedCustomerId,
+        customerEmail: customerEmail || null,
+        orderNote: orderNote || null,
+        staffId: authUser?.uid || null,
+        staffName,
+        createdAt: serverTimestamp()
+      });
+
+      resetCart();
+      setHoldName('');
+      setShowHoldModal(false);
+    } catch (error) {
+      console.error('Error holding order:', error);
+      Alert.alert('Error', 'Failed to hold order. Please try again.');
+    }
+  };
+
+  const recallHeldOrder = async (listedOrder: HeldOrder) => {
+    setConfirmingHeldOrder(null);
+    try {
+      // Read and remove the ticket in one transaction so two terminals cannot both recall it
+      const heldOrder = await runTransaction(db, async (transaction) => {
+        const heldOrderRef = doc(db, 'heldOrders', listedOrder.id);
+        const snapshot = await transaction.get(heldOrderRef);
+        if (!snapshot.exists()) {
+          throw new Error('This ticket was already recalled or deleted on another terminal');
+        }
+        transaction.delete(heldOrderRef);
+        return { id: snapshot.id, ...snapshot.data() } as HeldOrder;
+      });
+
+      setCart(heldOrder.items.map(item => ({
+        ...item,
+        imageUrl: item.imageUrl || undefined,
+        size: item.size || undefined,
+        modifiers: item.modifiers && item.modifiers.length > 0 ? item.modifiers : undefined,
+        note: item.note || undefined,
+        taxClass: item.taxClass || 'vatable'
+      })));
+      setIsPwdDiscount(!!heldOrder.isPwdDiscount);
+      setIsSeniorDiscount(!!heldOrder.isSeniorDiscount);
+      setDiscountCardholders(heldOrder.discountCardholders || []);
+      setPartySize(String(heldOrder.partySize || 1));
+      setAppliedVoucher(heldOrder.voucher || null);
+      const heldCustomer = customers.find(customer =>
+        customer.id === heldOrder.customerId || (!!heldOrder.customerEmail && customer.email === heldOrder.customerEmail)
+      );
+      if (heldCustomer) {
+        handleSelectCustomer(heldCustomer, heldOrder.voucher || null);
+      } else {
+        setSelectedCustomerId(null);
+        setCustomerStats(null);
+        recheckVoucherLimit(heldOrder.voucher || null, '');
+      }
+      setOrderNote(heldOrder.orderNote || '');
+      setShowHeldOrdersModal(false);
+    } catch (error) {
+      console.error('Error recalling held order:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to recall held order. Please try again.');
+    }
+  };
+
+  // Recalling over a non-empty cart clears it, so the cashier confirms in the held orders list
+  const handleRecallHeldOrder = (heldOrder: HeldOrder) => {
+    if (cart.length === 0) {
+      recallHeldOrder(heldOrder);
+      return;
+    }
+    setConfirmingHeldOrder({ id: heldOrder.id, action: 'recall' });
+  };
+
+  const deleteHeldOrder = async (heldOrder: HeldOrder) => {
+    setConfirmingHeldOrder(null);
+    try {
+      await deleteDoc(doc(db, 'heldOrders', heldOrder.id));
+    } catch (error) {
+      console.error('Error deleting held order:', error);
+      Alert.alert('Error', 'Failed to delete held order');
+    }
+  };
+
+  const handleCheckout = () => {
+    if (cart.length === 0) {
+      Alert.alert('Error', 'Cart is empty');
+      return;
+    }
+
+    if (!openShift) {
+      setShowNoShiftModal(true);
+      return;
+    }
+
+    const cartTotal = cart.reduce((sum, item) => sum + item.total, 0);
+    if (appliedVoucher && cartTotal < (appliedVoucher.minimumOrderAmount || 0)) {
+      Alert.alert(
+        'Voucher Removed',
+        `${appliedVoucher.code} requires a minimum order of ₱${appliedVoucher.minimumOrderAmount.toFixed(2)}`
+      );
+      setAppliedVoucher(null);
+      return;
+    }
+
+    if (!paymentSettings.enableCash && !paymentSettings.enableGCash && !paymentSettings.enableMaya && !paymentSettings.enableGrabPay) {
+      Alert.alert('Error', 'No payment methods are enabled in settings');
+      return;
+    }
+
+    setPayments([]);
+    setPaymentMethod(null);
+    setTenderAmount('');
+    setTenderReference('');
+    setTip(null);
+    setCustomTipInput('');
+    setShowCustomTip(false);
+    setShowPaymentModal(true);
+  };
+
+  const handleTipPercentage = (percentage: number | null) => {
+    setShowCustomTip(false);
+    setCustomTipInput('');
+    setTip(percentage ? { amount: calculateTip(calculatePricing().total, percentage), percentage } : null);
+  };
+
+  const handleCustomTipChange = (value: string) => {
+    setCustomTipInput(value);
+    const amount = roundCurrency(parseFloat(value) || 0);
+    setTip(amount > 0 ? { amount, percentage: null } : null);
+  };
+
+  const handlePaymentMethodSelect = (method: PaymentMethod) => {
+    if (method === 'cash' && !paymentSettings.enableCash) {
+      Alert.alert('Error', 'Cash payments are disabled');
+      return;
+    }
+    if (method === 'gcash' && !paymentSettings.enableGCash) {
+      Alert.alert('Error', 'GCash payments are disabled');
+      return;
+    }
+    if (method === 'maya' && !paymentSettings.enableMaya) {
+      Alert.alert('Error', 'Maya payments are disabled');
+      return;
+    }
+    if (method === 'grabpay' && !paymentSettings.enableGrabPay) {
+      Alert.alert('Error', 'GrabPay payments are disabled');
+      return;
+    }
+    if (method === 'points' && !rewardsSettings.enabled) {
+      Alert.alert('Error', 'The rewards program is disabled');
+      return;
+    }
+    if (method === 'points' && !selectedCustomer) {
+      Alert.alert('Customer Required', 'Select the customer in the cart to redeem points');
+      return;
+    }
+    setPaymentMethod(method);
+    // Cash starts empty so the cashier keys in what was handed over
+    if (method === 'cash') {
+      setTenderAmount('');
+    } else if (method === 'points') {
+      setTenderAmount(getMaxPointsTender().toFixed(2));
+    } else {
+      setTenderAmount(getRemainingBalance(calculateAmountDue(), payments).toFixed(2));
+    }
+    setTenderReference('');
+    // Only the daily number is reserved here; the OR number waits for the sale itself
+    if ((method === 'gcash' || method === 'maya') && isQrPhConfigured(qrPhSettings) && !checkoutNumber && !isOffline) {
+      allocateDailyNumber()
+        .then(setCheckoutNumber)
+        .catch(error => console.error('Error reserving order number:', error));
+    }
+  };
+
+  // Points still available after any points tenders already added to this checkout
+  const getAvailablePoints = () =>
+    Math.max((selectedCustomer?.points || 0) - getPointsRedeemed(payments), 0);
+
+  const getMaxPointsTender = () =>
+    Math.min(
+      getAvailablePoints() * rewardsSettings.pointValue,
+      getRemainingBalance(calculateAmountDue(), payments)
+    );
+
+  const handleDenominationPress = (denomination: number) => {
+    const current = parseFloat(tenderAmount) || 0;
+    setTenderAmount((current + denomination).toFixed(2));
+  };
+
+  const handleExactAmount = () => {
+    setTenderAmount(getRemainingBalance(calculateAmountDue(), payments).toFixed(2));
+  };
+
+  const handleAddTender = () => {
+    if (!paymentMethod) {
+      Alert.alert('Error', 'Please select a payment method');
+      return;
+    }
+
+    const amount = parseFloat(tenderAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Error', 'Please enter a valid payment amount');
+      return;
+    }
+
+    const remaining = getRemainingBalance(calculateAmountDue(), payments);
+    // Only cash can be overpaid; the excess is returned as change
+    if (paymentMethod !== 'cash' && amount - remaining > CURRENCY_TOLERANCE) {
+      Alert.alert('Error', `Amount exceeds the remaining balance of ₱${remaining.toFixed(2)}`);
+      return;
+    }
+
+    const appliedAmount = Math.min(amount, remaining);
+
+    let pointsRedeemed: number | null = null;
+    if (paymentMethod === 'points') {
+      if (!selectedCustomer) {
+        Alert.alert('Customer Required', 'Select the customer in the cart to redeem points');
+        return;
+      }
+      if (rewardsSettings.pointValue <= 0) {
+        Alert.alert('Error', 'Point value is not configured in settings');
+        return;
+      }
+      // Round up so fractional pesos still consume a whole point
+      pointsRedeemed = Math.ceil(appliedAmount / rewardsSettings.pointValue - 0.000001);
+      if (pointsRedeemed > getAvailablePoints()) {
+        Alert.alert('Error', `Customer only has ${getAvailablePoints()} points available`);
+        return;
+      }
+    } else if (paymentMethod !== 'cash' && !tenderReference.trim()) {
+      Alert.alert('Error', `Please enter the ${PAYMENT_METHOD_LABELS[paymentMethod as PaymentMethod]} reference number`);
+      return;
+    }
+
+    setPayments([
+      ...payments,
+      {
+        method: paymentMethod as PaymentMethod,
+        amount: appliedAmount,
+        referenceNumber: paymentMethod !== 'cash' && paymentMethod !== 'points' ? tenderReference.trim() : null,
+        qrReference: getPaymentQr()?.reference || null,
+        amountTendered: paymentMethod === 'cash' ? amount : null,
+        change: paymentMethod === 'cash' ? amount - appliedAmount : null,
+        pointsRedeemed
+      }
+    ]);
+    setPaymentMethod(null);
+    setTenderAmount('');
+    setTenderReference('');
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setPayments(payments.filter((_, i) => i !== index));
+  };
+
+  const handleConfirmPayments = () => {
+    if (!isFullyTendered(calculateAmountDue(), payments)) {
+      Alert.alert('Error', 'Payments must cover the order total before continuing');
+      return;
+    }
+    setShowDiningModal(true);
+    setShowPaymentModal(false);
+  };
+
+  const handleCancelPayment = () => {
+    setShowPaymentModal(false);
+    setPayments([]);
+    setPaymentMethod(null);
+    setTenderAmount('');
+    setTenderReference('');
+    setTip(null);
+    setCustomTipInput('');
+    setShowCustomTip(false);
+    setCheckoutNumber(null);
+  };
+
+  const processOrder = async () => {
+    try {
+      setIsProcessing(true);
+      
+      const pricing = calculatePricing();
+
+      // Get user name from Firestore
+      let staffName = 'Unknown Staff';
+      if (authUser?.uid) {
+        const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+        if (userDoc.exists()) {
+          staffName = userDoc.data().name || 'Unknown Staff';
+        }
+      }
+      
+      // Add Owner label if user is owner
+      const isOwner = role === 'owner';
+      const staffDisplayName = isOwner ? `${staffName}` : staffName;
+
+      // Create order object with tax and service charge details
+      const orderData = {
+        items: cart.map(item => ({
+          id: item.id,
+          name: item.name,
+          price: item.price,
+          quantity: item.quantity,
+          total: item.total,
+          size: item.size,
+          modifiers: item.modifiers || [],
+          note: item.note || null,
+          taxClass: item.taxClass || 'vatable'
+        })),
+        notes: orderNote || null,
+        ...getOrderPricingFields(pricing),
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+        staffId: authUser?.uid || '',
+        staffEmail: authUser?.email || '',
+        staffName: staffDisplayName,
+        paymentMethod: payments.length === 1 ? payments[0].method : 'split',
+        payments,
+        amountTendered: getCashTendered(payments),
+        change: getChangeDue(payments),
         diningMode,
         source: 'pos'
       };
 
       // Create order in Firestore
       const orderRef = await addDoc(collection(db, 'orders'), orderData);
+      if (pricing.voucherDiscount > 0) {
+        await recordVoucherUsage(orderRef.id, pricing.voucherDiscount);
+      }
 
       // Clear cart and reset states
       setCart([]);
+      setOrderNote('');
+      clearStatutoryDiscount();
+      setAppliedVoucher(null);
       setPaymentMethod('');
+      setPayments([]);
       setDiningMode('');
       setIsProcessing(false);
 
@@ -681,22 +1615,21 @@ export default function Index() {
     }
   };
 
-  const handleDiningModeSelect = async (mode: string) => {
+  const handleDiningModeSelect = async (mode: string, table: DiningTable | null = null) => {
     try {
       if (!authUser) {
         Alert.alert('Error', 'Please log in to process orders');
         return;
       }
 
-      // Calculate the total order amount
-      const cartTotal = cart.reduce((sum, item) => sum + item.total, 0);
-      // Calculate subtotal as exactly 88% of the total
-      const cartSubtotal = cartTotal * 0.88;
-      // VAT is exactly 12% of the total
-      const cartTax = cartTotal * 0.12;
-      const cartServiceCharge = calculateServiceCharge(cartSubtotal);
-      const cartDiscount = calculateDiscount(cartSubtotal);
-      const orderTotal = cartTotal + cartServiceCharge - cartDiscount;
+      const pricing = calculatePricing();
+
+      if (!isFullyTendered(pricing.total, payments)) {
+        Alert.alert('Error', 'Payments do not cover the order total');
+        setShowDiningModal(false);
+        setShowPaymentModal(true);
+        return;
+      }
 
       // Prepare the order items with correct total calculation
       const orderItems = cart.map(item => ({
@@ -705,106 +1638,129 @@ export default function Index() {
         price: item.price,
         quantity: item.quantity,
         size: item.size || null,
+        modifiers: item.modifiers || [],
+        note: item.note || null,
+        taxClass: item.taxClass || 'vatable',
         total: item.price * item.quantity
       }));
 
       // Get user role to check if it's the owner
       const isOwner = role === 'owner';
       
-      // Get user name from Firestore
-      let staffName = 'Unknown Staff';
-      if (authUser.uid) {
-        const userDoc = await getDoc(doc(db, 'users', authUser.uid));
-        if (userDoc.exists()) {
-          staffName = userDoc.data().name || 'Unknown Staff';
+      // Get user name from Firestore; offline sales fall back to the login email
+      let staffName = authUser.email || 'Unknown Staff';
+      if (authUser.uid && !isOffline) {
+        try {
+          const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+          if (userDoc.exists()) {
+            staffName = userDoc.data().name || 'Unknown Staff';
+          }
+        } catch (error) {
+          console.error('Error fetching staff name:', error);
         }
       }
       
       const staffDisplayName = isOwner ? `${staffName}` : staffName;
 
+      // Earn points for the selected customer and deduct any points used as a tender.
+      // Customers are only ever created from the New Customer form, never here.
+      const totalQuantity = orderItems.reduce((sum, item) => sum + item.quantity, 0);
+      const pointsToAdd = rewardsSettings.enabled ? totalQuantity * rewardsSettings.pointsPerItem : 0;
+
       const orderData = {
         items: orderItems,
-        subtotal: cartSubtotal,
-        tax: {
-          amount: cartTax,
-          percentage: taxSettings?.percentage || 12,
-          label: taxSettings?.label || 'VAT',
-          embedded: true
-        },
-        serviceCharge: {
-          amount: cartServiceCharge,
-          percentage: paymentSettings?.serviceChargePercentage || 0
-        },
-        discount: cartDiscount > 0 ? {
-          amount: cartDiscount,
-          percentage: discountPercentage,
-          type: isPwdDiscount ? 'PWD' : isSeniorDiscount ? 'Senior Citizen' : 'Manual Discount'
-        } : null,
-        total: orderTotal,
+        ...getOrderPricingFields(pricing),
         status: 'completed',
-        createdAt: serverTimestamp(),
-        completedAt: serverTimestamp(),
         customerName: 'Walk-in Customer',
         customerEmail: customerEmail || null,
-        paymentMethod,
+        notes: orderNote || null,
+        paymentMethod: payments.length === 1 ? payments[0].method : 'split',
+        payments: payments.map(payment => ({
+          method: payment.method,
+          amount: payment.amount,
+          referenceNumber: payment.referenceNumber || null,
+          qrReference: payment.qrReference || null,
+          amountTendered: payment.amountTendered ?? null,
+          change: payment.change ?? null,
+          pointsRedeemed: payment.pointsRedeemed ?? null
+        })),
+        pointsRedeemed: getPointsRedeemed(payments),
+        // Kept so refunds can take back the points this sale earned
+        pointsEarned: selectedCustomerId ? pointsToAdd : 0,
+        customerId: selectedCustomerId,
+        amountTendered: getCashTendered(payments),
+        change: getChangeDue(payments),
+        // Kept apart from total so tips never count as sales or carry VAT
+        tip: tip && tip.amount > 0 ? tip : null,
         diningMode: mode,
+        tableId: table?.id || null,
+        tableNumber: table?.number ?? null,
         source: 'pos',
+        shiftId: openShift?.id || null,
         staffId: authUser.uid,
         staffEmail: authUser.email,
         staffName: staffDisplayName,
-        processingStartTime: serverTimestamp(),
-        readyTime: serverTimestamp(),
       };
 
-      // Add the order to Firestore
-      const ordersRef = collection(db, 'orders');
-      const orderDoc = await addDoc(ordersRef, orderData);
+      // Number the sale up front when online; offline sales are numbered when they sync
+      let orderNumbers: OrderNumbers | null = null;
+      if (!isOffline) {
+        try {
+          orderNumbers = await allocateOrderNumbers(checkoutNumber);
+        } catch (error) {
+          console.error('Error allocating order number:', error);
+        }
+      }
+
+      // Sales are saved locally first and replayed to Firestore, so a dropped
+      // connection never loses an order. Timestamps are set from the queued time.
+      // A daily number reserved for the QR Ph code is kept even if the OR number has to
+      // wait until the sale syncs
+      const orderId = createOrderId();
+      await queueOrder(orderId, { ...orderData, ...checkoutNumber, ...orderNumbers }, {
+        voucherUsage: appliedVoucher && pricing.voucherDiscount > 0 ? {
+          voucherId: appliedVoucher.id,
+          code: appliedVoucher.code,
+          customerEmail: customerEmail.trim().toLowerCase() || null,
+          discountAmount: pricing.voucherDiscount,
+          maxUsagePerUser: appliedVoucher.maxUsagePerUser
+        } : null,
+        customerPoints: selectedCustomerId ? {
+          customerId: selectedCustomerId,
+          pointsDelta: pointsToAdd - getPointsRedeemed(payments)
+        } : null
+      });
+
+      // Seat the order; not awaited so an offline register isn't held up by the write
+      if (table) {
+        updateDoc(doc(db, 'tables', table.id), {
+          orderIds: arrayUnion(orderId),
+          ...(isTableOccupied(table) ? {} : { occupiedSince: serverTimestamp() })
+        }).catch(error => console.error('Error seating order at table:', error));
+      }
 
       // Reset discount flags after order is complete
       setIsPwdDiscount(false);
       setIsSeniorDiscount(false);
 
-      // If customer email is provided, add points to their account
-      if (customerEmail) {
-        const usersRef = collection(db, 'users');
-        const userQuery = query(usersRef, where('email', '==', customerEmail));
-        const userSnapshot = await getDocs(userQuery);
-
-        // Calculate points based on total quantity of items
-        const totalQuantity = orderItems.reduce((sum, item) => sum + item.quantity, 0);
-        const pointsToAdd = totalQuantity; // 1 point per item
-
-        if (!userSnapshot.empty) {
-          // User exists, update points
-          const userDoc = userSnapshot.docs[0];
-          const currentPoints = userDoc.data().points || 0;
-          await updateDoc(userDoc.ref, {
-            points: currentPoints + pointsToAdd
-          });
-        } else {
-          // Create new user with points
-          await addDoc(usersRef, {
-            email: customerEmail,
-            points: pointsToAdd,
-            name: 'Walk-in Customer'
-          });
-        }
-
-        // Set success data and show modal instead of Alert
-        setSuccessOrderId(orderDoc.id);
-        setShowSuccessModal(true);
-      } else {
-        // Set success data and show modal instead of Alert
-        setSuccessOrderId(orderDoc.id);
-        setShowSuccessModal(true);
-      }
+      // Set success data and show modal instead of Alert
+      setSuccessOrderId(orderId);
+      setSuccessOrderNumbers(orderNumbers);
+      setShowSuccessModal(true);
+      setCheckoutNumber(null);
 
       // Clear the cart and states after successful order
       setCart([]);
       setPaymentMethod(null);
+      setPayments([]);
       setDiningMode(null);
       setShowDiningModal(false);
-      setCustomerEmail('');
+      setShowTablePicker(false);
+      setSelectedCustomerId(null);
+      setCustomerStats(null);
+      setOrderNote('');
+      clearStatutoryDiscount();
+      setAppliedVoucher(null);
     } catch (error) {
       console.error('Error processing order:', error);
       Alert.alert(
@@ -1018,12 +1974,6 @@ export default function Index() {
     );
   }
 
-  const cartSubtotal = cart.reduce((sum, item) => sum + item.total, 0);
-  const cartTax = calculateTax(cartSubtotal);
-  const cartServiceCharge = calculateServiceCharge(cartSubtotal);
-  const cartDiscount = calculateDiscount(cartSubtotal);
-  const cartTotal = cartSubtotal + cartTax + cartServiceCharge - cartDiscount;
-
   const renderPaymentOptions = () => {
     if (!isSettingsLoaded) {
       return (
@@ -1118,85 +2068,487 @@ export default function Index() {
     );
   };
 
-  const renderNotificationModal = () => (
+  const renderHeldOrdersModal = () => (
     <Modal
-      visible={showNotificationModal}
+      visible={showHeldOrdersModal}
       animationType="slide"
       transparent={true}
-      onRequestClose={() => setShowNotificationModal(false)}
+      onRequestClose={() => {
+        setShowHeldOrdersModal(false);
+        setConfirmingHeldOrder(null);
+      }}
     >
-      <View style={{
-        flex: 1,
-        backgroundColor: 'rgba(0, 0, 0, 0.5)',
-        justifyContent: 'center',
-        alignItems: 'center',
-        paddingHorizontal: 16,
-      }}>
-        <View style={{
-          backgroundColor: '#FFFFFF',
-          borderRadius: 16,
-          width: '90%',
-          maxWidth: 500,
-          maxHeight: '80%',
-          overflow: 'hidden',
-          shadowColor: '#000',
-          shadowOffset: { width: 0, height: 2 },
-          shadowOpacity: 0.25,
-          shadowRadius: 4,
-          elevation: 5,
-        }}>
-          {/* Header */}
-          <View style={{
-            flexDirection: 'row',
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            padding: 16,
-            borderBottomWidth: 1,
-            borderBottomColor: '#E5E7EB',
-          }}>
-            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-              <FontAwesome name="bell" size={20} color="#F36514" style={{ marginRight: 8 }} />
-              <Text style={{ fontSize: 18, fontWeight: '600', color: '#1F2937' }}>
-                Notifications
-              </Text>
-              {notifications.length > 0 && (
-                <View style={{
-                  backgroundColor: '#EF4444',
-                  borderRadius: 12,
-                  paddingHorizontal: 6,
-                  paddingVertical: 2,
-                  marginLeft: 8,
-                }}>
-                  <Text style={{ color: '#FFFFFF', fontSize: 12, fontWeight: '600' }}>
-                    {notifications.length}
-                  </Text>
+      <View style={styles.modalOverlay}>
+        <View style={styles.notificationModalWrapper}>
+          <View style={styles.notificationModalHeader}>
+            <View style={styles.notificationTitleContainer}>
+              <FontAwesome name="folder-open" size={20} color="#F36514" style={styles.notificationTitleIcon} />
+              <Text style={styles.notificationModalTitle}>Held Orders</Text>
+              {heldOrders.length > 0 && (
+                <View style={styles.notificationCountBadge}>
+                  <Text style={styles.notificationCountText}>{heldOrders.length}</Text>
                 </View>
               )}
             </View>
             <TouchableOpacity
-              onPress={() => setShowNotificationModal(false)}
-              style={{ padding: 8 }}
+              onPress={() => {
+                setShowHeldOrdersModal(false);
+                setConfirmingHeldOrder(null);
+              }}
+              style={styles.notificationCloseButton}
             >
               <FontAwesome name="times" size={24} color="#6B7280" />
             </TouchableOpacity>
           </View>
-          
-          {/* Content - ScrollView for both web and native */}
-          <ScrollView style={{ maxHeight: 400 }}>
-            <View style={{ padding: 16 }}>
-              {notifications.length === 0 ? (
-                <View style={{ alignItems: 'center', justifyContent: 'center', padding: 30 }}>
-                  <FontAwesome name="bell-slash" size={48} color="#D1D5DB" />
-                  <Text style={{
-                    textAlign: 'center',
-                    color: '#1F2937',
-                    fontWeight: '600',
-                    marginTop: 16,
-                    fontSize: 16,
-                  }}>
-                    No new orders
-                  </Text>
-                  <Text style={{
+
+          <ScrollView style={styles.notificationModalContent}>
+            {heldOrders.length === 0 ? (
+              <View style={styles.emptyCart}>
+                <FontAwesome name="folder-open-o" size={48} color="#D1D5DB" />
+                <Text style={styles.emptyCartText}>No held orders</Text>
+              </View>
+            ) : (
+              heldOrders.map(heldOrder => {
+                const heldTotal = heldOrder.items.reduce((sum, item) => sum + item.total, 0);
+                const heldItemCount = heldOrder.items.reduce((sum, item) => sum + item.quantity, 0);
+                if (confirmingHeldOrder?.id === heldOrder.id) {
+                  const isRecall = confirmingHeldOrder.action === 'recall';
+                  return (
+                    <View key={heldOrder.id} style={styles.heldOrderCard}>
+                      <Text style={[styles.heldOrderMeta, { flex: 1 }]}>
+                        {isRecall
+                          ? `Replace the current cart with "${heldOrder.name}"? Hold the cart first if you want to keep it.`
+                          : `Discard the held ticket "${heldOrder.name}"?`}
+                      </Text>
+                      <View style={[styles.queueActions, { marginTop: 0 }]}>
+                        <TouchableOpacity style={styles.queueActionButton} onPress={() => setConfirmingHeldOrder(null)}>
+                          <Text style={styles.queueActionText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.queueActionButton, { borderColor: '#EF4444' }]}
+                          onPress={() => (isRecall ? recallHeldOrder(heldOrder) : deleteHeldOrder(heldOrder))}
+                        >
+                          <Text style={[styles.queueActionText, { color: '#EF4444' }]}>{isRecall ? 'Replace' : 'Delete'}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  );
+                }
+                return (
+                  <View key={heldOrder.id} style={styles.heldOrderCard}>
+                    <TouchableOpacity
+                      style={{ flex: 1 }}
+                      onPress={() => handleRecallHeldOrder(heldOrder)}
+                    >
+                      <Text style={styles.heldOrderName}>{heldOrder.name}</Text>
+                      <Text style={styles.heldOrderMeta}>
+                        {heldItemCount} {heldItemCount === 1 ? 'item' : 'items'} · ₱{heldTotal.toFixed(2)}
+                        {(heldOrder.isPwdDiscount || heldOrder.isSeniorDiscount) &&
+                          ` · ${heldOrder.isPwdDiscount ? 'PWD' : 'Senior Citizen'}`}
+                      </Text>
+                      <Text style={styles.heldOrderMeta}>
+                        Held by {heldOrder.staffName}
+                        {heldOrder.createdAt?.toDate && ` at ${heldOrder.createdAt.toDate().toLocaleTimeString()}`}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => setConfirmingHeldOrder({ id: heldOrder.id, action: 'delete' })}
+                    >
+                      <Text style={styles.removeButtonText}>×</Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const getSyncStatusLabel = (status: QueuedOrderStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'Waiting to sync';
+      case 'syncing':
+        return 'Syncing...';
+      case 'synced':
+        return 'Synced';
+      case 'failed':
+        return 'Sync failed';
+      case 'stuck':
+        return 'Needs attention';
+    }
+  };
+
+  const handleDiscardQueuedOrder = async (id: string) => {
+    try {
+      if (!(await discardOrder(id))) {
+        Alert.alert('Error', 'This sale is already syncing and can no longer be discarded');
+      }
+    } catch (error) {
+      console.error('Error discarding queued order:', error);
+      Alert.alert('Error', 'Failed to discard the sale');
+    } finally {
+      setDiscardingQueuedOrderId(null);
+    }
+  };
+
+  const renderSyncQueueModal = () => (
+    <Modal
+      visible={showSyncQueueModal}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={() => setShowSyncQueueModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.notificationModalWrapper}>
+          <View style={styles.notificationModalHeader}>
+            <View style={styles.notificationTitleContainer}>
+              <FontAwesome name="cloud-upload" size={20} color="#F36514" style={styles.notificationTitleIcon} />
+              <Text style={styles.notificationModalTitle}>Offline Orders</Text>
+              {pendingCount > 0 && (
+                <View style={styles.notificationCountBadge}>
+                  <Text style={styles.notificationCountText}>{pendingCount}</Text>
+                </View>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={() => setShowSyncQueueModal(false)}
+              style={styles.notificationCloseButton}
+            >
+              <FontAwesome name="times" size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.notificationModalContent}>
+            {queuedOrders.length === 0 ? (
+              <View style={styles.emptyCart}>
+                <FontAwesome name="cloud" size={48} color="#D1D5DB" />
+                <Text style={styles.emptyCartText}>No offline orders</Text>
+              </View>
+            ) : (
+              queuedOrders.map(queuedOrder => (
+                <View key={queuedOrder.id} style={styles.heldOrderCard}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.heldOrderName}>#{queuedOrder.id.slice(-6).toUpperCase()} · ₱{queuedOrder.total.toFixed(2)}</Text>
+                    <Text style={styles.heldOrderMeta}>
+                      Sold at {queuedOrder.createdAt.toLocaleTimeString()}
+                      {queuedOrder.syncedAt && ` · synced at ${queuedOrder.syncedAt.toLocaleTimeString()}`}
+                    </Text>
+                    {(queuedOrder.status === 'failed' || queuedOrder.status === 'stuck') && queuedOrder.lastError && (
+                      <Text style={[styles.heldOrderMeta, { color: '#EF4444' }]}>
+                        {queuedOrder.attempts} attempt(s): {queuedOrder.lastError}
+                      </Text>
+                    )}
+                    {queuedOrder.status === 'stuck' && (
+                      discardingQueuedOrderId === queuedOrder.id ? (
+                        <View style={styles.queueActions}>
+                          <Text style={[styles.heldOrderMeta, { flex: 1 }]}>Discard this sale? It will not be recorded.</Text>
+                          <TouchableOpacity style={styles.queueActionButton} onPress={() => setDiscardingQueuedOrderId(null)}>
+                            <Text style={styles.queueActionText}>Keep</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[styles.queueActionButton, { borderColor: '#EF4444' }]}
+                            onPress={() => handleDiscardQueuedOrder(queuedOrder.id)}
+                          >
+                            <Text style={[styles.queueActionText, { color: '#EF4444' }]}>Discard</Text>
+                          </TouchableOpacity>
+                        </View>
+                      ) : (
+                        <View style={styles.queueActions}>
+                          <TouchableOpacity
+                            style={[styles.queueActionButton, isOffline && styles.disabledButton]}
+                            onPress={() => retryOrder(queuedOrder.id)}
+                            disabled={isOffline}
+                          >
+                            <Text style={styles.queueActionText}>Retry</Text>
+                          </TouchableOpacity>
+                          {role === 'owner' && (
+                            <TouchableOpacity
+                              style={[styles.queueActionButton, { borderColor: '#EF4444' }]}
+                              onPress={() => setDiscardingQueuedOrderId(queuedOrder.id)}
+                            >
+                              <Text style={[styles.queueActionText, { color: '#EF4444' }]}>Discard</Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      )
+                    )}
+                  </View>
+                  <Text style={[
+                    styles.heldOrderMeta,
+                    { fontWeight: '600' },
+                    queuedOrder.status === 'synced' && { color: '#10B981' },
+                    (queuedOrder.status === 'failed' || queuedOrder.status === 'stuck') && { color: '#EF4444' }
+                  ]}>
+                    {getSyncStatusLabel(queuedOrder.status)}
+                  </Text>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View style={{ padding: 16 }}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.confirmButton, (isOffline || isSyncing) && styles.disabledButton]}
+              onPress={syncNow}
+              disabled={isOffline || isSyncing}
+            >
+              {isSyncing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.modalButtonText}>{isOffline ? 'Waiting for connection' : 'Sync Now'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const handleAcceptOrder = async (order: Order) => {
+    const prepTime = prepTimes[order.id] || DEFAULT_PREP_TIME;
+    try {
+      setIntakeOrderId(order.id);
+      await acceptOrder(order.id, prepTime);
+      Alert.alert('Order Accepted', `Order ${getOrderLabel(order)} will be ready in about ${prepTime} minutes`);
+    } catch (error) {
+      console.error('Error accepting order:', error);
+      Alert.alert('Error', 'Failed to accept order');
+    } finally {
+      setIntakeOrderId(null);
+    }
+  };
+
+  const handleRejectOrder = async (order: Order) => {
+    if (!rejectionReason.trim()) {
+      Alert.alert('Error', 'Please provide a reason for rejecting the order');
+      return;
+    }
+    if (!authUser) {
+      Alert.alert('Error', 'You must be logged in to perform this action');
+      return;
+    }
+
+    try {
+      setIntakeOrderId(order.id);
+
+      // Rejecting voids the sale, so staff need an owner to approve it with their PIN
+      let approvedBy: VoidApprover | null = null;
+      if (role !== 'owner') {
+        approvedBy = await findVoidApprover(rejectionPin);
+        if (!approvedBy) {
+          Alert.alert('Approval Required', 'Please have a manager enter a valid approval PIN');
+          return;
+        }
+      }
+
+      const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+      await rejectOrder(order.id, order, rejectionReason.trim(), {
+        staffId: authUser.uid,
+        staffName: userDoc.exists() ? userDoc.data().name || 'Unknown Staff' : 'Unknown Staff',
+        staffEmail: authUser.email || 'No Email'
+      }, approvedBy);
+      setRejectingOrderId(null);
+      setRejectionReason('');
+      setRejectionPin('');
+      Alert.alert('Order Rejected', `Order ${getOrderLabel(order)} was rejected and marked for refund`);
+    } catch (error) {
+      console.error('Error rejecting order:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reject order');
+    } finally {
+      setIntakeOrderId(null);
+    }
+  };
+
+  const renderOrderIntake = (order: Order) => {
+    const isUpdating = intakeOrderId === order.id;
+
+    if (rejectingOrderId === order.id) {
+      return (
+        <View>
+          <Text style={{ fontSize: 13, color: '#4B5563', marginBottom: 6 }}>Reason for rejecting</Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
+            {REJECTION_REASONS.map(reason => (
+              <TouchableOpacity
+                key={reason}
+                style={[styles.intakeChip, rejectionReason === reason && styles.intakeChipActive]}
+                onPress={() => setRejectionReason(reason)}
+              >
+                <Text style={[styles.intakeChipText, rejectionReason === reason && styles.intakeChipTextActive]}>
+                  {reason}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.intakeReasonInput}
+            placeholder="Or type a reason"
+            value={rejectionReason}
+            onChangeText={setRejectionReason}
+          />
+          {role !== 'owner' && (
+            <TextInput
+              style={styles.intakeReasonInput}
+              placeholder="Manager approval PIN"
+              value={rejectionPin}
+              onChangeText={(text) => /^\d{0,6}$/.test(text) && setRejectionPin(text)}
+              keyboardType="number-pad"
+              secureTextEntry
+            />
+          )}
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            <TouchableOpacity
+              style={[styles.intakeButton, { backgroundColor: '#6B7280' }]}
+              onPress={() => {
+                setRejectingOrderId(null);
+                setRejectionReason('');
+                setRejectionPin('');
+              }}
+              disabled={isUpdating}
+            >
+              <Text style={styles.intakeButtonText}>Back</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.intakeButton, { backgroundColor: '#EF4444' }, isUpdating && styles.disabledButton]}
+              onPress={() => handleRejectOrder(order)}
+              disabled={isUpdating}
+            >
+              {isUpdating ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.intakeButtonText}>Reject & Refund</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    const prepTime = prepTimes[order.id] || DEFAULT_PREP_TIME;
+    return (
+      <View>
+        <Text style={{ fontSize: 13, color: '#4B5563', marginBottom: 6 }}>Ready in (minutes)</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 10 }}>
+          {PREP_TIME_OPTIONS.map(minutes => (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.intakeChip, prepTime === minutes && styles.intakeChipActive]}
+              onPress={() => setPrepTimes({ ...prepTimes, [order.id]: minutes })}
+            >
+              <Text style={[styles.intakeChipText, prepTime === minutes && styles.intakeChipTextActive]}>{minutes}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <TouchableOpacity
+            style={[styles.intakeButton, { backgroundColor: '#EF4444' }]}
+            onPress={() => {
+              setRejectingOrderId(order.id);
+              setRejectionReason('');
+              setRejectionPin('');
+            }}
+            disabled={isUpdating}
+          >
+            <Text style={styles.intakeButtonText}>Reject</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.intakeButton, { backgroundColor: '#10B981' }, isUpdating && styles.disabledButton]}
+            onPress={() => handleAcceptOrder(order)}
+            disabled={isUpdating}
+          >
+            {isUpdating ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.intakeButtonText}>Accept · {prepTime} min</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderNotificationModal = () => (
+    <Modal
+      visible={showNotificationModal}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={() => setShowNotificationModal(false)}
+    >
+      <View style={{
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+      }}>
+        <View style={{
+          backgroundColor: '#FFFFFF',
+          borderRadius: 16,
+          width: '90%',
+          maxWidth: 500,
+          maxHeight: '80%',
+          overflow: 'hidden',
+          shadowColor: '#000',
+          shadowOffset: { width: 0, height: 2 },
+          shadowOpacity: 0.25,
+          shadowRadius: 4,
+          elevation: 5,
+        }}>
+          {/* Header */}
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            padding: 16,
+            borderBottomWidth: 1,
+            borderBottomColor: '#E5E7EB',
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <FontAwesome name="bell" size={20} color="#F36514" style={{ marginRight: 8 }} />
+              <Text style={{ fontSize: 18, fontWeight: '600', color: '#1F2937' }}>
+                Notifications
+              </Text>
+              {notifications.length > 0 && (
+                <View style={{
+                  backgroundColor: '#EF4444',
+                  borderRadius: 12,
+                  paddingHorizontal: 6,
+                  paddingVertical: 2,
+                  marginLeft: 8,
+                }}>
+                  <Text style={{ color: '#FFFFFF', fontSize: 12, fontWeight: '600' }}>
+                    {notifications.length}
+                  </Text>
+                </View>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={() => setShowNotificationModal(false)}
+              style={{ padding: 8 }}
+            >
+              <FontAwesome name="times" size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+          
+          {/* Content - ScrollView for both web and native */}
+          <ScrollView style={{ maxHeight: 400 }}>
+            <View style={{ padding: 16 }}>
+              {notifications.length === 0 ? (
+                <View style={{ alignItems: 'center', justifyContent: 'center', padding: 30 }}>
+                  <FontAwesome name="bell-slash" size={48} color="#D1D5DB" />
+                  <Text style={{
+                    textAlign: 'center',
+                    color: '#1F2937',
+                    fontWeight: '600',
+                    marginTop: 16,
+                    fontSize: 16,
+                  }}>
+                    No new orders
+                  </Text>
+                  <Text style={{
                     textAlign: 'center',
                     color: '#6B7280',
                     marginTop: 8,
@@ -1231,7 +2583,7 @@ export default function Index() {
                             fontWeight: '600',
                             color: '#1F2937',
                           }}>
-                            Order #{order.id.slice(-6)}
+                            Order {getOrderLabel(order)}
                           </Text>
                           <View style={{
                             backgroundColor: '#FEF3C7',
@@ -1255,7 +2607,12 @@ export default function Index() {
                         </Text>
                       </View>
                       
-                      <View style={{ marginBottom: 14 }}>
+                      <View style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        marginBottom: 14,
+                      }}>
                         <Text style={{
                           fontSize: 14,
                           color: '#4B5563',
@@ -1263,38 +2620,31 @@ export default function Index() {
                         }}>
                           {order.customerName || 'Customer Order'}
                         </Text>
+                        <TouchableOpacity
+                          style={{ flexDirection: 'row', alignItems: 'center' }}
+                          onPress={() => {
+                            setShowNotificationModal(false);
+                            stopNewOrderSound();
+                            router.push('/orders');
+                          }}
+                        >
+                          <Text style={{
+                            color: '#F36514',
+                            fontWeight: '600',
+                            fontSize: 14,
+                          }}>
+                            View Details
+                          </Text>
+                          <FontAwesome 
+                            name="arrow-right" 
+                            size={14} 
+                            color="#F36514" 
+                            style={{ marginLeft: 6 }} 
+                          />
+                        </TouchableOpacity>
                       </View>
-                      
-                      <TouchableOpacity
-                        style={{
-                          flexDirection: 'row',
-                          alignItems: 'center',
-                          justifyContent: 'center',
-                          backgroundColor: '#F36514',
-                          paddingVertical: 10,
-                          paddingHorizontal: 16,
-                          borderRadius: 8,
-                        }}
-                        onPress={() => {
-                          setShowNotificationModal(false);
-                          stopNewOrderSound();
-                          router.push('/orders');
-                        }}
-                      >
-                        <Text style={{
-                          color: '#FFFFFF',
-                          fontWeight: '600',
-                          fontSize: 14,
-                        }}>
-                          View Details
-                        </Text>
-                        <FontAwesome 
-                          name="arrow-right" 
-                          size={16} 
-                          color="#FFFFFF" 
-                          style={{ marginLeft: 8 }} 
-                        />
-                      </TouchableOpacity>
+
+                      {renderOrderIntake(order)}
                     </View>
                   </View>
                 ))
@@ -1307,15 +2657,7 @@ export default function Index() {
   );
 
   const renderCartSummary = () => {
-    const total = cart.reduce((total, item) => total + item.total, 0);
-    // Calculate the subtotal as exactly 88% of the total price
-    const subtotal = total * 0.88;
-    // VAT is exactly 12% of the total
-    const tax = total * 0.12;
-    const serviceCharge = calculateServiceCharge(subtotal);
-    const discount = calculateDiscount(subtotal);
-    // The final total remains the same (what customer pays)
-    const finalTotal = total + serviceCharge - discount;
+    const pricing = calculatePricing();
 
     return (
       <>
@@ -1352,15 +2694,7 @@ export default function Index() {
                   styles.discountSwitch,
                   isPwdDiscount ? styles.discountSwitchActive : {}
                 ]}
-                onPress={() => {
-                  if (!isSeniorDiscount) {
-                    setIsPwdDiscount(!isPwdDiscount);
-                  } else if (isPwdDiscount) {
-                    setIsPwdDiscount(false);
-                  } else {
-                    Alert.alert('Discount Error', 'Only one discount can be applied at a time.');
-                  }
-                }}
+                onPress={() => isPwdDiscount ? clearStatutoryDiscount() : openDiscountModal('PWD')}
               >
                 <View
                   style={[
@@ -1385,15 +2719,7 @@ export default function Index() {
                   styles.discountSwitch,
                   isSeniorDiscount ? styles.discountSwitchActive : {}
                 ]}
-                onPress={() => {
-                  if (!isPwdDiscount) {
-                    setIsSeniorDiscount(!isSeniorDiscount);
-                  } else if (isSeniorDiscount) {
-                    setIsSeniorDiscount(false);
-                  } else {
-                    Alert.alert('Discount Error', 'Only one discount can be applied at a time.');
-                  }
-                }}
+                onPress={() => isSeniorDiscount ? clearStatutoryDiscount() : openDiscountModal('Senior Citizen')}
               >
                 <View
                   style={[
@@ -1406,32 +2732,188 @@ export default function Index() {
           </View>
         </View>
         
+        {/* Customer lookup */}
+        <View style={styles.voucherContainer}>
+          {selectedCustomer ? (
+            <View>
+              <View style={styles.voucherAppliedRow}>
+                <FontAwesome name="user-circle" size={20} color="#F36514" />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.customerName}>{selectedCustomer.name}</Text>
+                  <Text style={styles.cartItemSize}>
+                    {selectedCustomer.email}{selectedCustomer.phone ? ` · ${selectedCustomer.phone}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.removeButton} onPress={handleClearCustomer}>
+                  <Text style={styles.removeButtonText}>×</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.customerStatsRow}>
+                <View style={styles.customerStat}>
+                  <Text style={styles.customerStatValue}>{selectedCustomer.points}</Text>
+                  <Text style={styles.customerStatLabel}>Points</Text>
+                </View>
+                <View style={styles.customerStat}>
+                  <Text style={styles.customerStatValue}>
+                    {customerStats ? `₱${customerStats.lifetimeSpend.toFixed(2)}` : '—'}
+                  </Text>
+                  <Text style={styles.customerStatLabel}>
+                    Lifetime ({customerStats?.visitCount || 0} visits)
+                  </Text>
+                </View>
+                <View style={styles.customerStat}>
+                  <Text style={styles.customerStatValue}>
+                    {customerStats?.lastVisit ? customerStats.lastVisit.toLocaleDateString() : '—'}
+                  </Text>
+                  <Text style={styles.customerStatLabel}>Last Visit</Text>
+                </View>
+              </View>
+              {isLoadingCustomerStats ? (
+                <ActivityIndicator size="small" color="#F36514" />
+              ) : customerStats && customerStats.favoriteItems.length > 0 && (
+                <Text style={styles.cartItemSize}>
+                  Favourites: {customerStats.favoriteItems.map(item => `${item.name} (${item.quantity})`).join(', ')}
+                </Text>
+              )}
+            </View>
+          ) : (
+            <>
+              <View style={styles.voucherEntryRow}>
+                <TextInput
+                  style={[styles.voucherInput, { flex: 1, marginBottom: 0 }]}
+                  placeholder="Search customer by name, email or phone"
+                  value={customerSearch}
+                  onChangeText={setCustomerSearch}
+                  autoCapitalize="none"
+                />
+                <TouchableOpacity style={styles.voucherApplyButton} onPress={openNewCustomerModal}>
+                  <Text style={styles.voucherApplyText}>New</Text>
+                </TouchableOpacity>
+              </View>
+              {customerSearch.trim() !== '' && (
+                <View style={styles.customerResults}>
+                  {searchCustomers(customers, customerSearch).map(customer => (
+                    <TouchableOpacity
+                      key={customer.id}
+                      style={styles.customerResultItem}
+                      onPress={() => handleSelectCustomer(customer)}
+                    >
+                      <Text style={styles.customerName}>{customer.name}</Text>
+                      <Text style={styles.cartItemSize}>
+                        {customer.email}{customer.phone ? ` · ${customer.phone}` : ''} · {customer.points} pts
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  {searchCustomers(customers, customerSearch).length === 0 && (
+                    <Text style={[styles.cartItemSize, { padding: 8 }]}>No matching customers</Text>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
+        {/* Voucher entry */}
+        <View style={styles.voucherContainer}>
+          {appliedVoucher ? (
+            <View style={styles.voucherAppliedRow}>
+              <FontAwesome name="ticket" size={16} color="#10B981" />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.voucherAppliedCode}>{appliedVoucher.code}</Text>
+                {!!appliedVoucher.description && (
+                  <Text style={styles.cartItemSize}>{appliedVoucher.description}</Text>
+                )}
+              </View>
+              <TouchableOpacity style={styles.removeButton} onPress={handleRemoveVoucher}>
+                <Text style={styles.removeButtonText}>×</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.voucherEntryRow}>
+              <TextInput
+                style={[styles.voucherInput, { flex: 1, marginBottom: 0 }]}
+                placeholder="Voucher code"
+                value={voucherCode}
+                onChangeText={setVoucherCode}
+                autoCapitalize="characters"
+              />
+              <TouchableOpacity
+                style={[styles.voucherApplyButton, isValidatingVoucher && styles.disabledButton]}
+                onPress={handleApplyVoucher}
+                disabled={isValidatingVoucher}
+              >
+                {isValidatingVoucher ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.voucherApplyText}>Apply</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
         <View style={styles.cartSummary}>
           <Text style={styles.summaryTitle}>Order Summary</Text>
           
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Subtotal (net of VAT)</Text>
-            <Text style={styles.summaryValue}>₱{subtotal.toFixed(2)}</Text>
+            <Text style={styles.summaryValue}>₱{pricing.netSales.toFixed(2)}</Text>
           </View>
           
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>VAT (12%)</Text>
-            <Text style={styles.summaryValue}>₱{tax.toFixed(2)}</Text>
+            <Text style={styles.summaryLabel}>
+              {taxSettings.label} ({pricing.vatRate * 100}%{pricing.pricesIncludeVat ? ', included' : ''})
+            </Text>
+            <Text style={styles.summaryValue}>₱{pricing.vatAmount.toFixed(2)}</Text>
           </View>
+
+          {pricing.vatExemptSales > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>VAT-Exempt Sales</Text>
+              <Text style={styles.summaryValue}>₱{pricing.vatExemptSales.toFixed(2)}</Text>
+            </View>
+          )}
+
+          {pricing.zeroRatedSales > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Zero-Rated Sales</Text>
+              <Text style={styles.summaryValue}>₱{pricing.zeroRatedSales.toFixed(2)}</Text>
+            </View>
+          )}
+
+          {pricing.serviceCharge > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Service Charge ({pricing.serviceChargeRate}%)</Text>
+              <Text style={styles.summaryValue}>₱{pricing.serviceCharge.toFixed(2)}</Text>
+            </View>
+          )}
           
           {/* Show discount in summary if applied */}
           {(isPwdDiscount || isSeniorDiscount) && (
+            <TouchableOpacity
+              style={styles.summaryRow}
+              onPress={() => setDiscountModalType(isPwdDiscount ? 'PWD' : 'Senior Citizen')}
+            >
+              <Text style={styles.discountAppliedLabel}>
+                {isPwdDiscount ? 'PWD' : 'Senior Citizen'} Discount ({discountPercentage}%) · {discountCardholders.length}/{parseInt(partySize) || 1} pax
+              </Text>
+              <Text style={styles.discountAppliedValue}>-₱{pricing.statutory.discountAmount.toFixed(2)}</Text>
+            </TouchableOpacity>
+          )}
+          
+          {appliedVoucher && (
             <View style={styles.summaryRow}>
               <Text style={styles.discountAppliedLabel}>
-                {isPwdDiscount ? 'PWD' : 'Senior Citizen'} Discount ({discountPercentage}%)
+                Voucher {appliedVoucher.code}
+                {!pricing.voucherApplied && ` (min. ₱${appliedVoucher.minimumOrderAmount.toFixed(2)})`}
               </Text>
-              <Text style={styles.discountAppliedValue}>-₱{discount.toFixed(2)}</Text>
+              <Text style={styles.discountAppliedValue}>-₱{pricing.voucherDiscount.toFixed(2)}</Text>
             </View>
           )}
           
           <View style={styles.summaryRow}>
             <Text style={styles.totalLabel}>Total</Text>
-            <Text style={styles.totalValue}>₱{finalTotal.toFixed(2)}</Text>
+            <Text style={styles.totalValue}>₱{pricing.total.toFixed(2)}</Text>
           </View>
         </View>
       </>
@@ -1523,6 +3005,50 @@ export default function Index() {
               </Link>
             )}
 
+            <Link href="/tables" asChild>
+              <TouchableOpacity style={styles.sidebarItem}>
+                <View style={styles.iconContainer}>
+                  <FontAwesome name="th" size={20} color="#F36514" />
+                </View>
+                <Text style={styles.sidebarItemText}>Tables</Text>
+              </TouchableOpacity>
+            </Link>
+
+            <Link href="/kitchen" asChild>
+              <TouchableOpacity style={styles.sidebarItem}>
+                <View style={styles.iconContainer}>
+                  <FontAwesome name="fire" size={20} color="#F36514" />
+                </View>
+                <Text style={styles.sidebarItemText}>Kitchen</Text>
+              </TouchableOpacity>
+            </Link>
+
+            <Link href="/shifts" asChild>
+              <TouchableOpacity style={styles.sidebarItem}>
+                <View style={styles.iconContainer}>
+                  <FontAwesome name="money" size={20} color="#F36514" />
+                </View>
+                <Text style={styles.sidebarItemText}>Shifts</Text>
+              </TouchableOpacity>
+            </Link>
+
+            {/* On the web the display opens in its own window for a second monitor */}
+            <TouchableOpacity
+              style={styles.sidebarItem}
+              onPress={() => {
+                if (Platform.OS === 'web') {
+                  window.open('/customer-display', 'customer-display');
+                } else {
+                  router.push('/customer-display');
+                }
+              }}
+            >
+              <View style={styles.iconContainer}>
+                <FontAwesome name="television" size={20} color="#F36514" />
+              </View>
+              <Text style={styles.sidebarItemText}>Customer Display</Text>
+            </TouchableOpacity>
+
             <Link href="/inventory1" asChild>
               <TouchableOpacity style={styles.sidebarItem}>
                 <View style={styles.iconContainer}>
@@ -1541,6 +3067,17 @@ export default function Index() {
               </TouchableOpacity>
             </Link>
 
+            {role === 'owner' && (
+              <Link href="/sales-journal" asChild>
+                <TouchableOpacity style={styles.sidebarItem}>
+                  <View style={styles.iconContainer}>
+                    <FontAwesome name="book" size={20} color="#F36514" />
+                  </View>
+                  <Text style={styles.sidebarItemText}>Sales Journal</Text>
+                </TouchableOpacity>
+              </Link>
+            )}
+
             {role === 'owner' && (
               <Link href="/staff" asChild>
                 <TouchableOpacity style={styles.sidebarItem}>
@@ -1593,6 +3130,31 @@ export default function Index() {
                 </TouchableOpacity>
               )}
             </View>
+            <View style={[styles.searchInputWrapper, styles.scanInputWrapper]}>
+              <FontAwesome name="barcode" size={20} color="#6B7280" style={styles.searchIcon} />
+              <TextInput
+                ref={scanInputRef}
+                style={styles.searchInput}
+                placeholder="Scan or type SKU / barcode, then Enter"
+                value={scanCode}
+                onChangeText={text => {
+                  setScanCode(text);
+                  setScanError(null);
+                }}
+                onSubmitEditing={handleScanSubmit}
+                blurOnSubmit={false}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                returnKeyType="done"
+                placeholderTextColor="#6B7280"
+              />
+            </View>
+            {!!scanError && (
+              <View style={styles.scanError}>
+                <FontAwesome name="exclamation-circle" size={14} color="#EF4444" />
+                <Text style={styles.scanErrorText}>{scanError}</Text>
+              </View>
+            )}
           </View>
 
           {/* Categories */}
@@ -1672,8 +3234,30 @@ export default function Index() {
         <View style={styles.rightPanel}>
           <View style={styles.cartContainer}>
             <View style={styles.cartHeader}>
-            
-              
+              <TouchableOpacity
+                style={[styles.holdButton, cart.length === 0 && styles.disabledButton]}
+                onPress={() => setShowHoldModal(true)}
+                disabled={cart.length === 0}
+              >
+                <FontAwesome name="pause-circle" size={16} color="#F36514" />
+                <Text style={styles.holdButtonText}>Hold</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.holdButton}
+                onPress={() => setShowHeldOrdersModal(true)}
+              >
+                <FontAwesome name="folder-open" size={16} color="#F36514" />
+                <Text style={styles.holdButtonText}>Held ({heldOrders.length})</Text>
+              </TouchableOpacity>
+              {pendingCount > 0 && (
+                <TouchableOpacity
+                  style={styles.holdButton}
+                  onPress={() => setShowSyncQueueModal(true)}
+                >
+                  <FontAwesome name={isOffline ? 'cloud-upload' : 'refresh'} size={16} color="#F59E0B" />
+                  <Text style={[styles.holdButtonText, { color: '#F59E0B' }]}>Unsynced ({pendingCount})</Text>
+                </TouchableOpacity>
+              )}
             </View>
             {cart.length === 0 ? (
               <View style={styles.emptyCart}>
@@ -1690,25 +3274,40 @@ export default function Index() {
                         {item.size && (
                           <Text style={styles.cartItemSize}>{item.size}</Text>
                         )}
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <Text style={styles.cartItemSize}>{formatModifiers(item.modifiers)}</Text>
+                        )}
+                        {item.taxClass && item.taxClass !== 'vatable' && (
+                          <Text style={styles.cartItemSize}>{TAX_CLASS_LABELS[item.taxClass]}</Text>
+                        )}
+                        {item.note && (
+                          <Text style={styles.cartItemNote}>Note: {item.note}</Text>
+                        )}
                         <Text style={styles.cartItemPrice}>₱{item.price.toFixed(2)}</Text>
                       </View>
                       <View style={styles.quantityContainer}>
                         <TouchableOpacity
                           style={styles.quantityButton}
-                          onPress={() => updateQuantity(item.id, item.quantity - 1, item.size)}
+                          onPress={() => updateQuantity(index, item.quantity - 1)}
                         >
                           <Text>-</Text>
                         </TouchableOpacity>
                         <Text style={styles.quantityText}>x{item.quantity}</Text>
                         <TouchableOpacity
                           style={styles.quantityButton}
-                          onPress={() => updateQuantity(item.id, item.quantity + 1, item.size)}
+                          onPress={() => updateQuantity(index, item.quantity + 1)}
                         >
                           <Text>+</Text>
                         </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.noteButton}
+                          onPress={() => openNoteEditor(index)}
+                        >
+                          <FontAwesome name="pencil" size={14} color={item.note ? '#F36514' : '#6B7280'} />
+                        </TouchableOpacity>
                         <TouchableOpacity
                           style={styles.removeButton}
-                          onPress={() => removeFromCart(item.id, item.size)}
+                          onPress={() => removeFromCart(index)}
                         >
                           <Text style={styles.removeButtonText}>×</Text>
                         </TouchableOpacity>
@@ -1718,6 +3317,15 @@ export default function Index() {
                   ))}
                 </ScrollView>
                 {renderCartSummary()}
+                <TouchableOpacity
+                  style={styles.orderNoteButton}
+                  onPress={() => openNoteEditor('order')}
+                >
+                  <FontAwesome name="sticky-note-o" size={14} color="#F36514" />
+                  <Text style={styles.orderNoteText} numberOfLines={2}>
+                    {orderNote ? `Order note: ${orderNote}` : 'Add order note'}
+                  </Text>
+                </TouchableOpacity>
                 <View style={styles.cartFooter}>
                   <TouchableOpacity 
                     style={styles.checkoutButton}
@@ -1732,64 +3340,112 @@ export default function Index() {
         </View>
       </View>
 
-      {/* Size Selection Modal */}
+      {/* Product Configurator Modal */}
       <Modal
         animationType="fade"
         transparent={true}
         visible={isModalVisible}
-        onRequestClose={() => {
-          setIsModalVisible(false);
-          setSelectedProduct(null);
-          setSelectedSize('');
-        }}
+        onRequestClose={closeProductModal}
       >
         <View style={styles.modalOverlay}>
-          <View style={[styles.modalContainer, { width: '50%', maxWidth: 400 }]}>
-            <Text style={styles.modalTitle}>Select Size</Text>
-            <View style={styles.sizesContainer}>
-              {selectedProduct?.sizes && Object.entries(selectedProduct.sizes).map(([size, data]) => (
-                <TouchableOpacity
-                  key={size}
-                  style={[
-                    styles.sizeButton,
-                    selectedSize === size && styles.selectedSizeButton
-                  ]}
-                  onPress={() => setSelectedSize(size)}
-                >
-                  <Text style={[
-                    styles.sizeButtonText,
-                    selectedSize === size && styles.selectedSizeButtonText
-                  ]}>
-                    {size}
-                  </Text>
-                  <Text style={[
-                    styles.sizePriceText,
-                    selectedSize === size && styles.selectedSizeButtonText
-                  ]}>
-                    ₱{data.price}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
+          <View style={[styles.modalContainer, { width: '60%', maxWidth: 560, maxHeight: '90%' }]}>
+            <Text style={styles.modalTitle}>{selectedProduct?.name}</Text>
+            <ScrollView style={{ width: '100%' }}>
+              {selectedProduct?.hasSizes && (
+                <>
+                  <Text style={styles.modifierGroupTitle}>Size</Text>
+                  <View style={styles.sizesContainer}>
+                    {selectedProduct.sizes && Object.entries(selectedProduct.sizes).map(([size, data]) => (
+                      <TouchableOpacity
+                        key={size}
+                        style={[
+                          styles.sizeButton,
+                          selectedSize === size && styles.selectedSizeButton
+                        ]}
+                        onPress={() => setSelectedSize(size)}
+                      >
+                        <Text style={[
+                          styles.sizeButtonText,
+                          selectedSize === size && styles.selectedSizeButtonText
+                        ]}>
+                          {size}
+                        </Text>
+                        <Text style={[
+                          styles.sizePriceText,
+                          selectedSize === size && styles.selectedSizeButtonText
+                        ]}>
+                          ₱{data.price}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {(selectedProduct?.modifierGroups || []).map(group => {
+                const selected = modifierSelections[group.id] || [];
+                const min = getMinSelections(group);
+                const max = getMaxSelections(group);
+                return (
+                  <View key={group.id}>
+                    <Text style={styles.modifierGroupTitle}>
+                      {group.name}
+                      <Text style={styles.modifierGroupRule}>
+                        {min > 0 ? '  Required' : '  Optional'}
+                        {max > 1 ? ` · up to ${max}` : ''}
+                      </Text>
+                    </Text>
+                    <View style={styles.sizesContainer}>
+                      {group.options.map(option => (
+                        <TouchableOpacity
+                          key={option.name}
+                          style={[
+                            styles.sizeButton,
+                            selected.includes(option.name) && styles.selectedSizeButton
+                          ]}
+                          onPress={() => handleModifierToggle(group, option.name)}
+                        >
+                          <Text style={[
+                            styles.sizeButtonText,
+                            selected.includes(option.name) && styles.selectedSizeButtonText
+                          ]}>
+                            {option.name}
+                          </Text>
+                          {Number(option.price) > 0 && (
+                            <Text style={[
+                              styles.sizePriceText,
+                              selected.includes(option.name) && styles.selectedSizeButtonText
+                            ]}>
+                              +₱{Number(option.price).toFixed(2)}
+                            </Text>
+                          )}
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+            {selectedProduct && (
+              <Text style={styles.configuredPriceText}>
+                ₱{calculateConfiguredPrice(selectedProduct).toFixed(2)}
+              </Text>
+            )}
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={[
                   styles.modalButton,
                   styles.confirmButton,
-                  !selectedSize && styles.disabledButton
+                  !!selectedProduct?.hasSizes && !selectedSize && styles.disabledButton
                 ]}
-                disabled={!selectedSize}
-                onPress={() => selectedProduct && selectedSize && handleAddToCart(selectedProduct)}
+                disabled={!!selectedProduct?.hasSizes && !selectedSize}
+                onPress={() => selectedProduct && handleAddToCart(selectedProduct)}
               >
                 <Text style={styles.modalButtonText}>Add to Cart</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.modalButton, styles.cancelButton]}
-                onPress={() => {
-                  setIsModalVisible(false);
-                  setSelectedProduct(null);
-                  setSelectedSize('');
-                }}
+                onPress={closeProductModal}
               >
                 <Text style={styles.modalButtonText}>Cancel</Text>
               </TouchableOpacity>
@@ -1803,63 +3459,322 @@ export default function Index() {
         animationType="slide"
         transparent={true}
         visible={showPaymentModal}
-        onRequestClose={() => setShowPaymentModal(false)}
+        onRequestClose={handleCancelPayment}
       >
         <View style={styles.modalOverlay}>
           <View style={[styles.modalContainer, { width: '100%', maxWidth: 700 }]}>
             <Text style={styles.modalTitle}>Select Payment Method</Text>
 
-            <View style={[styles.optionsContainer, { flexWrap: 'nowrap', gap: 8 }]}>
-              {paymentSettings.enableCash && (
-                <TouchableOpacity
-                  style={[styles.optionButton, { backgroundColor: '#4F46E5', width: 150, height: 110, margin: 2 }]}
-                  onPress={() => handlePaymentMethodSelect('cash')}
-                >
-                  <FontAwesome name="money" size={36} color="#FFFFFF" />
-                  <Text style={styles.optionText}>Cash</Text>
-                </TouchableOpacity>
-              )}
-              
-              {paymentSettings.enableGCash && (
-                <TouchableOpacity
-                  style={[styles.optionButton, { backgroundColor: '#00a6ce', width: 150, height: 110, margin: 2 }]}
-                  onPress={() => handlePaymentMethodSelect('gcash')}
-                >
-                  <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
-                  <Text style={styles.optionText}>GCash</Text>
-                </TouchableOpacity>
-              )}
+            {/* Optional tip, settled with the same tenders as the order */}
+            {payments.length === 0 && (
+              <View style={styles.tipSection}>
+                <Text style={styles.tenderEntryLabel}>Add a Tip</Text>
+                <View style={styles.tipOptions}>
+                  <TouchableOpacity
+                    style={[styles.tipButton, !tip && !showCustomTip && styles.tipButtonSelected]}
+                    onPress={() => handleTipPercentage(null)}
+                  >
+                    <Text style={[styles.tipButtonText, !tip && !showCustomTip && styles.tipButtonTextSelected]}>No Tip</Text>
+                  </TouchableOpacity>
+                  {TIP_PERCENTAGES.map(percentage => {
+                    const isSelected = tip?.percentage === percentage;
+                    return (
+                      <TouchableOpacity
+                        key={percentage}
+                        style={[styles.tipButton, isSelected && styles.tipButtonSelected]}
+                        onPress={() => handleTipPercentage(percentage)}
+                      >
+                        <Text style={[styles.tipButtonText, isSelected && styles.tipButtonTextSelected]}>{percentage}%</Text>
+                        <Text style={[styles.tipButtonAmount, isSelected && styles.tipButtonTextSelected]}>
+                          ₱{calculateTip(calculatePricing().total, percentage).toFixed(2)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  <TouchableOpacity
+                    style={[styles.tipButton, showCustomTip && styles.tipButtonSelected]}
+                    onPress={() => {
+                      setTip(null);
+                      setShowCustomTip(true);
+                    }}
+                  >
+                    <Text style={[styles.tipButtonText, showCustomTip && styles.tipButtonTextSelected]}>Custom</Text>
+                  </TouchableOpacity>
+                </View>
+                {showCustomTip && (
+                  <TextInput
+                    style={styles.tenderInput}
+                    placeholder="Tip amount"
+                    keyboardType="decimal-pad"
+                    value={customTipInput}
+                    onChangeText={handleCustomTipChange}
+                  />
+                )}
+              </View>
+            )}
 
-              {paymentSettings.enableMaya && (
-                <TouchableOpacity
-                  style={[styles.optionButton, { backgroundColor: '#5cc6c8', width: 150, height: 110, margin: 2 }]}
-                  onPress={() => handlePaymentMethodSelect('maya')}
-                >
-                  <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
-                  <Text style={styles.optionText}>Maya</Text>
-                </TouchableOpacity>
+            {/* Amount due and tendered so far */}
+            <View style={styles.tenderSummary}>
+              {tip && (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.tenderSummaryLabel}>Order Total</Text>
+                    <Text style={styles.tenderSummaryValue}>₱{calculatePricing().total.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.tenderSummaryLabel}>Tip{tip.percentage ? ` (${tip.percentage}%)` : ''}</Text>
+                    <Text style={styles.tenderSummaryValue}>₱{tip.amount.toFixed(2)}</Text>
+                  </View>
+                </>
               )}
-
-              {paymentSettings.enableGrabPay && (
-                <TouchableOpacity
-                  style={[styles.optionButton, { backgroundColor: '#00b14f', width: 150, height: 110, margin: 2 }]}
-                  onPress={() => handlePaymentMethodSelect('grabpay')}
-                >
-                  <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
-                  <Text style={styles.optionText}>GrabPay</Text>
-                </TouchableOpacity>
+              <View style={styles.summaryRow}>
+                <Text style={styles.tenderSummaryLabel}>Amount Due</Text>
+                <Text style={styles.tenderSummaryValue}>₱{calculateAmountDue().toFixed(2)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.tenderSummaryLabel}>Paid</Text>
+                <Text style={styles.tenderSummaryValue}>₱{getTenderedTotal(payments).toFixed(2)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={[styles.tenderSummaryLabel, { fontWeight: '600' }]}>Remaining</Text>
+                <Text style={[styles.tenderSummaryValue, styles.tenderRemainingValue]}>
+                  ₱{getRemainingBalance(calculateAmountDue(), payments).toFixed(2)}
+                </Text>
+              </View>
+              {getChangeDue(payments) > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.tenderSummaryLabel, { fontWeight: '600' }]}>Change</Text>
+                  <Text style={[styles.tenderSummaryValue, styles.tenderRemainingValue]}>
+                    ₱{getChangeDue(payments).toFixed(2)}
+                  </Text>
+                </View>
               )}
             </View>
 
-            <TouchableOpacity
-              style={[styles.modalButton, styles.cancelButton]}
-              onPress={() => {
-                setShowPaymentModal(false);
-                setCustomerEmail('');
-              }}
-            >
-              <Text style={styles.modalButtonText}>Cancel</Text>
-            </TouchableOpacity>
+            {payments.length > 0 && (
+              <View style={styles.tenderList}>
+                {payments.map((payment, index) => (
+                  <View key={`${payment.method}-${index}`} style={styles.tenderItem}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.tenderItemMethod}>{PAYMENT_METHOD_LABELS[payment.method]}</Text>
+                      {payment.method === 'points' && payment.pointsRedeemed != null && (
+                        <Text style={styles.tenderItemReference}>{payment.pointsRedeemed} pts redeemed</Text>
+                      )}
+                      {payment.referenceNumber && (
+                        <Text style={styles.tenderItemReference}>Ref: {payment.referenceNumber}</Text>
+                      )}
+                      {payment.method === 'cash' && payment.amountTendered != null && (
+                        <Text style={styles.tenderItemReference}>
+                          Tendered ₱{payment.amountTendered.toFixed(2)} · Change ₱{(payment.change || 0).toFixed(2)}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.tenderItemAmount}>₱{payment.amount.toFixed(2)}</Text>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRemoveTender(index)}
+                    >
+                      <Text style={styles.removeButtonText}>×</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {!isFullyTendered(calculateAmountDue(), payments) && (
+              <>
+                <View style={[styles.optionsContainer, { flexWrap: 'nowrap', gap: 8 }]}>
+                  {paymentSettings.enableCash && (
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        { backgroundColor: '#4F46E5', width: 150, height: 110, margin: 2 },
+                        paymentMethod === 'cash' && styles.selectedOptionButton
+                      ]}
+                      onPress={() => handlePaymentMethodSelect('cash')}
+                    >
+                      <FontAwesome name="money" size={36} color="#FFFFFF" />
+                      <Text style={styles.optionText}>Cash</Text>
+                    </TouchableOpacity>
+                  )}
+                  
+                  {paymentSettings.enableGCash && (
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        { backgroundColor: '#00a6ce', width: 150, height: 110, margin: 2 },
+                        paymentMethod === 'gcash' && styles.selectedOptionButton
+                      ]}
+                      onPress={() => handlePaymentMethodSelect('gcash')}
+                    >
+                      <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
+                      <Text style={styles.optionText}>GCash</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {paymentSettings.enableMaya && (
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        { backgroundColor: '#5cc6c8', width: 150, height: 110, margin: 2 },
+                        paymentMethod === 'maya' && styles.selectedOptionButton
+                      ]}
+                      onPress={() => handlePaymentMethodSelect('maya')}
+                    >
+                      <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
+                      <Text style={styles.optionText}>Maya</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {paymentSettings.enableGrabPay && (
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        { backgroundColor: '#00b14f', width: 150, height: 110, margin: 2 },
+                        paymentMethod === 'grabpay' && styles.selectedOptionButton
+                      ]}
+                      onPress={() => handlePaymentMethodSelect('grabpay')}
+                    >
+                      <FontAwesome name="credit-card" size={36} color="#FFFFFF" />
+                      <Text style={styles.optionText}>GrabPay</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {rewardsSettings.enabled && (
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        { backgroundColor: '#F59E0B', width: 150, height: 110, margin: 2 },
+                        paymentMethod === 'points' && styles.selectedOptionButton
+                      ]}
+                      onPress={() => handlePaymentMethodSelect('points')}
+                    >
+                      <FontAwesome name="star" size={36} color="#FFFFFF" />
+                      <Text style={styles.optionText}>Points</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {paymentMethod && (
+                  <View style={styles.tenderEntry}>
+                    {paymentMethod === 'points' && selectedCustomer && (
+                      <View style={[styles.summaryRow, { marginBottom: 12 }]}>
+                        <Text style={styles.tenderSummaryLabel}>
+                          {selectedCustomer.name} · {getAvailablePoints()} pts (₱{rewardsSettings.pointValue.toFixed(2)}/pt)
+                        </Text>
+                        <TouchableOpacity onPress={() => setTenderAmount(getMaxPointsTender().toFixed(2))}>
+                          <Text style={[styles.tenderSummaryValue, styles.tenderRemainingValue]}>
+                            Max ₱{getMaxPointsTender().toFixed(2)}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    <Text style={styles.tenderEntryLabel}>
+                      {PAYMENT_METHOD_LABELS[paymentMethod as PaymentMethod]} Amount
+                    </Text>
+                    <TextInput
+                      style={styles.tenderInput}
+                      placeholder="0.00"
+                      keyboardType="decimal-pad"
+                      value={tenderAmount}
+                      onChangeText={setTenderAmount}
+                    />
+                    {paymentMethod === 'cash' && (
+                      <>
+                        <View style={styles.denominationGrid}>
+                          {CASH_DENOMINATIONS.map(denomination => (
+                            <TouchableOpacity
+                              key={denomination}
+                              style={styles.denominationButton}
+                              onPress={() => handleDenominationPress(denomination)}
+                            >
+                              <Text style={styles.denominationText}>₱{denomination}</Text>
+                            </TouchableOpacity>
+                          ))}
+                          <TouchableOpacity
+                            style={[styles.denominationButton, styles.exactAmountButton]}
+                            onPress={handleExactAmount}
+                          >
+                            <Text style={[styles.denominationText, { color: '#FFFFFF' }]}>Exact</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.denominationButton}
+                            onPress={() => setTenderAmount('')}
+                          >
+                            <Text style={styles.denominationText}>Clear</Text>
+                          </TouchableOpacity>
+                        </View>
+                        <View style={[styles.summaryRow, { marginBottom: 12 }]}>
+                          <Text style={styles.tenderSummaryLabel}>Change</Text>
+                          <Text style={[styles.tenderSummaryValue, styles.tenderRemainingValue]}>
+                            ₱{Math.max(
+                              (parseFloat(tenderAmount) || 0) - getRemainingBalance(calculateAmountDue(), payments),
+                              0
+                            ).toFixed(2)}
+                          </Text>
+                        </View>
+                      </>
+                    )}
+                    {(paymentMethod === 'gcash' || paymentMethod === 'maya') && isQrPhConfigured(qrPhSettings) && (
+                      <View style={styles.qrPhContainer}>
+                        {getPaymentQr() ? (
+                          <>
+                            <QRCode value={getPaymentQr()!.payload} size={180} />
+                            <Text style={styles.qrPhCaption}>
+                              Scan with any QR Ph app · Ref {getPaymentQr()!.reference}
+                            </Text>
+                          </>
+                        ) : (
+                          <Text style={styles.qrPhCaption}>
+                            {isOffline && !checkoutNumber
+                              ? 'QR Ph codes need a connection to number the order'
+                              : checkoutNumber ? 'Enter an amount to generate the QR Ph code' : 'Reserving an order number…'}
+                          </Text>
+                        )}
+                      </View>
+                    )}
+                    {paymentMethod !== 'cash' && paymentMethod !== 'points' && (
+                      <>
+                        <Text style={styles.tenderEntryLabel}>Reference Number</Text>
+                        <TextInput
+                          style={styles.tenderInput}
+                          placeholder="Enter transaction reference number"
+                          value={tenderReference}
+                          onChangeText={setTenderReference}
+                          autoCapitalize="characters"
+                        />
+                      </>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.modalButton, styles.confirmButton]}
+                      onPress={handleAddTender}
+                    >
+                      <Text style={styles.modalButtonText}>Add Payment</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </>
+            )}
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  styles.confirmButton,
+                  !isFullyTendered(calculateAmountDue(), payments) && styles.disabledButton
+                ]}
+                disabled={!isFullyTendered(calculateAmountDue(), payments)}
+                onPress={handleConfirmPayments}
+              >
+                <Text style={styles.modalButtonText}>Continue</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={handleCancelPayment}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
       </Modal>
@@ -1869,16 +3784,66 @@ export default function Index() {
         animationType="slide"
         transparent={true}
         visible={showDiningModal}
-        onRequestClose={() => setShowDiningModal(false)}
+        onRequestClose={() => {
+          setShowDiningModal(false);
+          setShowTablePicker(false);
+        }}
       >
         <View style={styles.modalOverlay}>
+          {showTablePicker ? (
+          <View style={[styles.modalContainer, { width: '50%', maxWidth: 560 }]}>
+            <Text style={styles.modalTitle}>Select Table</Text>
+
+            <ScrollView style={styles.tablePickerList}>
+              <View style={styles.tablePickerGrid}>
+                {diningTables.map(table => {
+                  const occupied = isTableOccupied(table);
+                  return (
+                    <TouchableOpacity
+                      key={table.id}
+                      style={[styles.tablePickerButton, occupied && styles.tablePickerButtonOccupied]}
+                      onPress={() => handleDiningModeSelect('dine-in', table)}
+                    >
+                      <Text style={[styles.tablePickerNumber, occupied && styles.tablePickerTextOccupied]}>
+                        Table {table.number}
+                      </Text>
+                      <Text style={[styles.tablePickerMeta, occupied && styles.tablePickerTextOccupied]}>
+                        {occupied ? `Occupied · ${formatOccupiedDuration(table.occupiedSince, new Date())}` : `${table.seats} seats`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.modalButton, styles.noTableButton]}
+              onPress={() => handleDiningModeSelect('dine-in')}
+            >
+              <Text style={styles.modalButtonText}>No Table</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton]}
+              onPress={() => setShowTablePicker(false)}
+            >
+              <Text style={styles.modalButtonText}>Back</Text>
+            </TouchableOpacity>
+          </View>
+          ) : (
           <View style={[styles.modalContainer, { width: '40%', maxWidth: 400 }]}>
             <Text style={styles.modalTitle}>Select Dining Mode</Text>
             
             <View style={[styles.optionsContainer, { flexWrap: 'nowrap', gap: 8 }]}>
               <TouchableOpacity
                 style={[styles.optionButton, styles.dineInButton, { width: 170, height: 120, margin: 2 }]}
-                onPress={() => handleDiningModeSelect('dine-in')}
+                onPress={() => {
+                  // Seat the order when the floor plan has been set up
+                  if (diningTables.length > 0) {
+                    setShowTablePicker(true);
+                  } else {
+                    handleDiningModeSelect('dine-in');
+                  }
+                }}
               >
                 <FontAwesome name="cutlery" size={38} color="#FFFFFF" />
                 <Text style={styles.optionText}>Dine In</Text>
@@ -1895,14 +3860,12 @@ export default function Index() {
 
             <TouchableOpacity
               style={[styles.modalButton, styles.cancelButton]}
-              onPress={() => {
-                setShowDiningModal(false);
-                setCustomerEmail('');
-              }}
+              onPress={() => setShowDiningModal(false)}
             >
               <Text style={styles.modalButtonText}>Cancel</Text>
             </TouchableOpacity>
           </View>
+          )}
         </View>
       </Modal>
 
@@ -2097,6 +4060,265 @@ export default function Index() {
 
       {/* Notification Modal */}
       {renderNotificationModal()}
+
+      {/* Hold Order Modal */}
+      <Modal
+        visible={showHoldModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowHoldModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContainer, { width: '40%', maxWidth: 420 }]}>
+            <Text style={styles.modalTitle}>Hold Order</Text>
+            <TextInput
+              style={styles.tenderInput}
+              placeholder="Table number or customer name"
+              value={holdName}
+              onChangeText={setHoldName}
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.confirmButton]}
+                onPress={handleHoldOrder}
+              >
+                <Text style={styles.modalButtonText}>Hold</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => {
+                  setShowHoldModal(false);
+                  setHoldName('');
+                }}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* No Open Shift Modal */}
+      <Modal
+        visible={showNoShiftModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowNoShiftModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContainer, { width: '40%', maxWidth: 420 }]}>
+            <Text style={styles.modalTitle}>No Open Shift</Text>
+            <Text style={styles.modalMessage}>Open a shift with the opening float before taking payments.</Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.confirmButton]}
+                onPress={() => {
+                  setShowNoShiftModal(false);
+                  router.push('/shifts');
+                }}
+              >
+                <Text style={styles.modalButtonText}>Open Shift</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setShowNoShiftModal(false)}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* New Customer Modal */}
+      <Modal
+        visible={showNewCustomerModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowNewCustomerModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContainer, { width: '40%', maxWidth: 420 }]}>
+            <Text style={styles.modalTitle}>New Customer</Text>
+            <Text style={styles.tenderEntryLabel}>Full Name</Text>
+            <TextInput
+              style={styles.tenderInput}
+              placeholder="Juan Dela Cruz"
+              value={newCustomerForm.name}
+              onChangeText={(text) => setNewCustomerForm(prev => ({ ...prev, name: text }))}
+            />
+            <Text style={styles.tenderEntryLabel}>Email</Text>
+            <TextInput
+              style={styles.tenderInput}
+              placeholder="customer@email.com"
+              value={newCustomerForm.email}
+              onChangeText={(text) => setNewCustomerForm(prev => ({ ...prev, email: text }))}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            <Text style={styles.tenderEntryLabel}>Mobile Number (optional)</Text>
+            <TextInput
+              style={styles.tenderInput}
+              placeholder="09171234567"
+              value={newCustomerForm.phone}
+              onChangeText={(text) => setNewCustomerForm(prev => ({ ...prev, phone: text }))}
+              keyboardType="phone-pad"
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.confirmButton, isSavingCustomer && styles.disabledButton]}
+                onPress={handleCreateCustomer}
+                disabled={isSavingCustomer}
+              >
+                {isSavingCustomer ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.modalButtonText}>Create</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setShowNewCustomerModal(false)}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Kitchen Note Modal */}
+      <Modal
+        visible={noteTarget !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setNoteTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContainer, { width: '40%', maxWidth: 420 }]}>
+            <Text style={styles.modalTitle}>
+              {noteTarget === 'order'
+                ? 'Order Note'
+                : `Note for ${noteTarget !== null ? cart[noteTarget]?.name : ''}`}
+            </Text>
+            <TextInput
+              style={[styles.tenderInput, { height: 96, paddingTop: 12, textAlignVertical: 'top' }]}
+              placeholder={noteTarget === 'order' ? 'e.g. Serve drinks first' : 'e.g. Less ice, no whipped cream'}
+              value={noteDraft}
+              onChangeText={setNoteDraft}
+              multiline
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.confirmButton]}
+                onPress={handleSaveNote}
+              >
+                <Text style={styles.modalButtonText}>Save</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setNoteTarget(null)}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* PWD / Senior Citizen Discount Modal */}
+      <Modal
+        visible={discountModalType !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={handleCancelStatutoryDiscount}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContainer, { width: '50%', maxWidth: 480 }]}>
+            <Text style={styles.modalTitle}>{discountModalType} Discount</Text>
+
+            <Text style={styles.tenderEntryLabel}>Number of persons sharing the bill</Text>
+            <TextInput
+              style={styles.tenderInput}
+              keyboardType="number-pad"
+              value={partySize}
+              onChangeText={(text) => {
+                if (text === '' || /^\d+$/.test(text)) setPartySize(text);
+              }}
+            />
+
+            {discountCardholders.length > 0 && (
+              <View style={styles.tenderList}>
+                {discountCardholders.map((cardholder, index) => (
+                  <View key={cardholder.idNumber} style={styles.tenderItem}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.tenderItemMethod}>{cardholder.name}</Text>
+                      <Text style={styles.tenderItemReference}>ID No. {cardholder.idNumber}</Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => setDiscountCardholders(discountCardholders.filter((_, i) => i !== index))}
+                    >
+                      <Text style={styles.removeButtonText}>×</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.tenderEntry}>
+              <Text style={styles.tenderEntryLabel}>{discountModalType} ID Number</Text>
+              <TextInput
+                style={styles.tenderInput}
+                placeholder="Enter ID number"
+                value={cardholderIdNumber}
+                onChangeText={setCardholderIdNumber}
+                autoCapitalize="characters"
+              />
+              <Text style={styles.tenderEntryLabel}>Cardholder Name</Text>
+              <TextInput
+                style={styles.tenderInput}
+                placeholder="Name as shown on the ID"
+                value={cardholderName}
+                onChangeText={setCardholderName}
+                autoCapitalize="words"
+              />
+              <TouchableOpacity
+                style={[styles.modalButton, styles.confirmButton]}
+                onPress={handleAddCardholder}
+              >
+                <Text style={styles.modalButtonText}>Add Cardholder</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  styles.confirmButton,
+                  discountCardholders.length === 0 && styles.disabledButton
+                ]}
+                disabled={discountCardholders.length === 0}
+                onPress={handleApplyStatutoryDiscount}
+              >
+                <Text style={styles.modalButtonText}>Apply Discount</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={handleCancelStatutoryDiscount}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Held Orders Drawer */}
+      {renderHeldOrdersModal()}
+      {renderSyncQueueModal()}
       
       {/* Success Modal */}
       <Modal
@@ -2111,6 +4333,17 @@ export default function Index() {
               <FontAwesome name="check-circle" size={60} color="#10B981" />
             </View>
             <Text style={[styles.modalTitle, { marginBottom: 12 }]}>Order Successfully Created!</Text>
+            {successOrderNumbers && (
+              <View style={styles.successNumbers}>
+                <Text style={styles.successOrderNumber}>Order #{successOrderNumbers.orderNumber}</Text>
+                <Text style={styles.successReceiptNumber}>{formatReceiptNumber(successOrderNumbers.receiptNumber)}</Text>
+              </View>
+            )}
+            {!successOrderNumbers && (
+              <Text style={[styles.heldOrderMeta, { textAlign: 'center', marginBottom: 16 }]}>
+                Saved as {successOrderId}. Its order number is assigned automatically once it syncs.
+              </Text>
+            )}
             <TouchableOpacity
               style={[styles.modalButton, styles.confirmButton]}
               onPress={() => setShowSuccessModal(false)}
@@ -2313,38 +4546,202 @@ const styles = StyleSheet.create({
   cartContainer: {
     flex: 1,
   },
-  cartHeader: {
-    padding: 1,
-    borderBottomWidth: 0,
-    borderBottomColor: '#E5E7EB',
+  cartHeader: {
+    padding: 1,
+    borderBottomWidth: 0,
+    borderBottomColor: '#E5E7EB',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  holdButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#F36514',
+    backgroundColor: '#FFFFFF',
+  },
+  holdButtonText: {
+    color: '#F36514',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  heldOrderCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  heldOrderName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  heldOrderMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  queueActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  queueActionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#F36514',
+  },
+  queueActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#F36514',
+  },
+  cartTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  cartItemsContainer: {
+    flex: 1,
+  },
+  cartItem: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  cartItemInfo: {
+    marginBottom: 8,
+  },
+  cartItemName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  cartItemSize: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  voucherContainer: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  voucherEntryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  voucherInput: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    backgroundColor: '#FFFFFF',
+    fontSize: 14,
+  },
+  voucherApplyButton: {
+    backgroundColor: '#F36514',
+    height: 40,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  voucherApplyText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  voucherAppliedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  voucherAppliedCode: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10B981',
+  },
+  customerName: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
   },
-  cartTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#1F2937',
+  customerStatsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 8,
   },
-  cartItemsContainer: {
+  customerStat: {
     flex: 1,
-  },
-  cartItem: {
     backgroundColor: '#FFFFFF',
     borderRadius: 8,
-    padding: 12,
-    marginBottom: 8,
+    paddingVertical: 6,
+    alignItems: 'center',
   },
-  cartItemInfo: {
-    marginBottom: 8,
+  customerStatValue: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#F36514',
   },
-  cartItemName: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#1F2937',
+  customerStatLabel: {
+    fontSize: 11,
+    color: '#6B7280',
   },
-  cartItemSize: {
+  customerResults: {
+    marginTop: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  customerResultItem: {
+    padding: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  cartItemNote: {
     fontSize: 12,
-    color: '#6B7280',
+    fontWeight: '600',
+    fontStyle: 'italic',
+    color: '#F36514',
     marginTop: 2,
   },
+  noteButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  orderNoteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  orderNoteText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#4B5563',
+  },
   cartItemPrice: {
     fontSize: 14,
     fontWeight: '500',
@@ -2659,6 +5056,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: '#1F2937',
   },
+  modalMessage: {
+    fontSize: 16,
+    color: '#4B5563',
+    textAlign: 'center',
+  },
   modalButton: {
     width: '100%',
     padding: 16,
@@ -2721,6 +5123,60 @@ const styles = StyleSheet.create({
   cancelButton: {
     backgroundColor: '#666',
   },
+  successNumbers: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  successOrderNumber: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  successReceiptNumber: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  tablePickerList: {
+    maxHeight: 320,
+    width: '100%',
+    marginBottom: 12,
+  },
+  tablePickerGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tablePickerButton: {
+    width: 120,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#10B981',
+    backgroundColor: '#ECFDF5',
+    alignItems: 'center',
+  },
+  tablePickerButtonOccupied: {
+    borderColor: '#C2410C',
+    backgroundColor: '#F36514',
+  },
+  tablePickerNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#065F46',
+  },
+  tablePickerMeta: {
+    fontSize: 12,
+    color: '#047857',
+    marginTop: 2,
+  },
+  tablePickerTextOccupied: {
+    color: '#FFFFFF',
+  },
+  noTableButton: {
+    backgroundColor: '#3B82F6',
+    marginBottom: 8,
+  },
   confirmButton: {
     backgroundColor: '#F36514',
   },
@@ -2752,6 +5208,24 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#059669',
   },
+  modifierGroupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  modifierGroupRule: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: '#6B7280',
+  },
+  configuredPriceText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#F36514',
+    marginTop: 12,
+  },
   selectedSizeButtonText: {
     color: '#F36514',
   },
@@ -2825,6 +5299,19 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     height: 40,
   },
+  scanInputWrapper: {
+    marginTop: 5,
+  },
+  scanError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  scanErrorText: {
+    fontSize: 13,
+    color: '#EF4444',
+  },
   searchIcon: {
     marginRight: 8,
   },
@@ -2858,6 +5345,197 @@ const styles = StyleSheet.create({
     backgroundColor: '#EBF5FF',
     borderColor: '#3B82F6',
   },
+  selectedOptionButton: {
+    borderWidth: 4,
+    borderColor: '#F36514',
+  },
+  tipSection: {
+    width: '100%',
+    marginBottom: 16,
+  },
+  tipOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  tipButton: {
+    minWidth: 90,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+  },
+  tipButtonSelected: {
+    backgroundColor: '#F36514',
+    borderColor: '#F36514',
+  },
+  tipButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  tipButtonAmount: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  tipButtonTextSelected: {
+    color: '#FFFFFF',
+  },
+  tenderSummary: {
+    width: '100%',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  tenderSummaryLabel: {
+    fontSize: 16,
+    color: '#4B5563',
+  },
+  tenderSummaryValue: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  tenderRemainingValue: {
+    fontWeight: '700',
+    color: '#F36514',
+  },
+  tenderList: {
+    width: '100%',
+    marginBottom: 16,
+  },
+  tenderItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 12,
+  },
+  tenderItemMethod: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  tenderItemReference: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  tenderItemAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  tenderEntry: {
+    width: '100%',
+    marginBottom: 8,
+  },
+  tenderEntryLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4B5563',
+    marginBottom: 6,
+  },
+  intakeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  intakeChipActive: {
+    borderColor: '#F36514',
+    backgroundColor: '#FFF7ED',
+  },
+  intakeChipText: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  intakeChipTextActive: {
+    color: '#F36514',
+    fontWeight: '600',
+  },
+  intakeReasonInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  intakeButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  intakeButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  qrPhContainer: {
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  qrPhCaption: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  denominationGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  denominationButton: {
+    minWidth: 72,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  denominationText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  exactAmountButton: {
+    backgroundColor: '#F36514',
+    borderColor: '#F36514',
+  },
+  tenderInput: {
+    width: '100%',
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+    backgroundColor: '#F9FAFB',
+    fontSize: 16,
+  },
   selectedPaymentText: {
     color: '#3B82F6',
   },
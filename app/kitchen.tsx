@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { SelectedModifier, formatModifiers } from '../utils/modifiers';
+import { OrderStatus, updateOrderStatus } from '../utils/orderStatus';
+import { getOrderLabel } from '../utils/orderNumbers';
+
+interface TicketItem {
+  name: string;
+  quantity: number;
+  size?: string | null;
+  modifiers?: SelectedModifier[];
+  note?: string | null;
+}
+
+interface KitchenTicket {
+  id: string;
+  status: OrderStatus;
+  items: TicketItem[];
+  notes?: string | null;
+  customerName?: string;
+  diningMode?: string;
+  tableNumber?: number | null;
+  orderNumber?: number | null;
+  source?: 'pos' | 'customer';
+  paymentStatus?: string;
+  acceptedAt?: unknown;   // Set when a register accepts a customer-app order with a prep time
+  createdAt: Date;
+}
+
+// Minutes after which a ticket turns amber, then red
+const WARNING_MINUTES = 5;
+const LATE_MINUTES = 10;
+
+const getElapsedMinutes = (createdAt: Date, now: Date) =>
+  Math.max(0, Math.floor((now.getTime() - createdAt.getTime()) / 60000));
+
+const getElapsedColor = (minutes: number) => {
+  if (minutes >= LATE_MINUTES) return '#EF4444';
+  if (minutes >= WARNING_MINUTES) return '#F59E0B';
+  return '#10B981';
+};
+
+export default function KitchenScreen() {
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(new Date());
+  const [bumpingIds, setBumpingIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'orders'), where('status', 'in', ['pending', 'processing']));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const ticketList = snapshot.docs
+          .map(orderDoc => {
+            const data = orderDoc.data();
+            return {
+              id: orderDoc.id,
+              ...data,
+              items: data.items || [],
+              createdAt: data.createdAt
+                ? (typeof data.createdAt.toDate === 'function' ? data.createdAt.toDate() : new Date(data.createdAt))
+                : new Date()
+            } as KitchenTicket;
+          })
+          // Customer-app orders only reach the kitchen once they are paid and a register has
+          // accepted them, so the customer already has their estimated ready time
+          .filter(ticket => ticket.source !== 'customer' || (ticket.paymentStatus !== 'unpaid' && !!ticket.acceptedAt))
+          // Oldest first so the next ticket to make is always top-left
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+        setTickets(ticketList);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching kitchen tickets:', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  // Keeps elapsed times and colours current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
+    setBumpingIds(prev => [...prev, orderId]);
+    try {
+      await updateOrderStatus(orderId, newStatus);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      Alert.alert('Error', 'Failed to update order status');
+    } finally {
+      setBumpingIds(prev => prev.filter(id => id !== orderId));
+    }
+  };
+
+  const renderTicket = (ticket: KitchenTicket) => {
+    const minutes = getElapsedMinutes(ticket.createdAt, now);
+    const elapsedColor = getElapsedColor(minutes);
+    const isBumping = bumpingIds.includes(ticket.id);
+
+    return (
+      <View key={ticket.id} style={[styles.ticket, { borderTopColor: elapsedColor }]}>
+        <View style={styles.ticketHeader}>
+          <View>
+            <Text style={styles.ticketOrderId}>{getOrderLabel(ticket)}</Text>
+            <Text style={styles.ticketMeta}>
+              {ticket.tableNumber ? `Table ${ticket.tableNumber}` : ticket.diningMode || ''}
+              {ticket.source === 'customer' ? ' · Mobile App' : ''}
+            </Text>
+            {!!ticket.customerName && <Text style={styles.ticketMeta}>{ticket.customerName}</Text>}
+          </View>
+          <View style={[styles.elapsedBadge, { backgroundColor: elapsedColor }]}>
+            <Text style={styles.elapsedText}>{minutes}m</Text>
+          </View>
+        </View>
+
+        <Text style={[styles.statusLabel, ticket.status === 'processing' && styles.statusLabelProcessing]}>
+          {ticket.status === 'processing' ? 'In Progress' : 'New'}
+        </Text>
+
+        <ScrollView style={styles.itemList}>
+          {ticket.items.map((item, index) => (
+            <View key={index} style={styles.itemRow}>
+              <Text style={styles.itemQuantity}>{item.quantity}×</Text>
+              <View style={styles.itemDetails}>
+                <Text style={styles.itemName}>
+                  {item.name}{item.size ? ` (${item.size})` : ''}
+                </Text>
+                {!!item.modifiers && item.modifiers.length > 0 && (
+                  <Text style={styles.itemModifiers}>{formatModifiers(item.modifiers)}</Text>
+                )}
+                {!!item.note && <Text style={styles.itemNote}>Note: {item.note}</Text>}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+
+        {!!ticket.notes && (
+          <View style={styles.orderNote}>
+            <FontAwesome name="sticky-note" size={14} color="#C2410C" />
+            <Text style={styles.orderNoteText}>{ticket.notes}</Text>
+          </View>
+        )}
+
+        <View style={styles.ticketActions}>
+          {ticket.status === 'pending' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.startButton]}
+              onPress={() => handleStatusChange(ticket.id, 'processing')}
+              disabled={isBumping}
+            >
+              <Text style={styles.actionButtonText}>Start</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.bumpButton]}
+            onPress={() => handleStatusChange(ticket.id, 'ready for pickup')}
+            disabled={isBumping}
+          >
+            {isBumping ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.actionButtonText}>Bump · Ready</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#F36514" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <FontAwesome name="arrow-left" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Kitchen</Text>
+        </View>
+        <View style={styles.headerCounts}>
+          <Text style={styles.headerCount}>
+            New: {tickets.filter(ticket => ticket.status === 'pending').length}
+          </Text>
+          <Text style={styles.headerCount}>
+            In Progress: {tickets.filter(ticket => ticket.status === 'processing').length}
+          </Text>
+        </View>
+      </View>
+
+      {tickets.length === 0 ? (
+        <View style={styles.emptyState}>
+          <FontAwesome name="check-circle" size={48} color="#4B5563" />
+          <Text style={styles.emptyStateText}>All caught up</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.ticketGrid}>
+          {tickets.map(renderTicket)}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111827',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#111827',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#1F2937',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  headerCounts: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  headerCount: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#D1D5DB',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  emptyStateText: {
+    fontSize: 22,
+    color: '#9CA3AF',
+  },
+  ticketGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    padding: 12,
+    gap: 12,
+  },
+  ticket: {
+    width: 300,
+    minHeight: 320,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderTopWidth: 10,
+    padding: 16,
+  },
+  ticketHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  ticketOrderId: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  ticketMeta: {
+    fontSize: 15,
+    color: '#4B5563',
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  elapsedBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  elapsedText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  statusLabel: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: '#DBEAFE',
+    color: '#1D4ED8',
+    fontSize: 13,
+    fontWeight: '600',
+    overflow: 'hidden',
+  },
+  statusLabelProcessing: {
+    backgroundColor: '#FEF3C7',
+    color: '#B45309',
+  },
+  itemList: {
+    flex: 1,
+    marginTop: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  itemQuantity: {
+    width: 40,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  itemDetails: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  itemModifiers: {
+    fontSize: 15,
+    color: '#4B5563',
+    marginTop: 2,
+  },
+  itemNote: {
+    fontSize: 15,
+    color: '#C2410C',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  orderNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF7ED',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  orderNoteText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#C2410C',
+  },
+  ticketActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  startButton: {
+    backgroundColor: '#3B82F6',
+  },
+  bumpButton: {
+    flex: 2,
+    backgroundColor: '#10B981',
+  },
+  actionButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+});
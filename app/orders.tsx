@@ -4,13 +4,26 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { FontAwesome } from '@expo/vector-icons';
 import { Link, router } from 'expo-router';
 import { onAuthStateChanged } from 'firebase/auth';
-import { collection, query, orderBy, onSnapshot, doc, updateDoc, serverTimestamp, getDoc, deleteDoc } from 'firebase/firestore';
+import { collection, query, orderBy, onSnapshot, doc, updateDoc, serverTimestamp, getDoc, getDocs, deleteDoc } from 'firebase/firestore';
 import { auth, db, storage } from '../firebaseConfig';
 import { useUser } from './contexts/UserContext';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 // Import ViewShot last, as sometimes order matters for Expo module resolution
 import ViewShot from 'react-native-view-shot';
+import { SelectedModifier, formatModifiers } from '../utils/modifiers';
+import { DiscountCardholder } from '../utils/discounts';
+import { PaymentMethod, PaymentTender, PAYMENT_METHOD_LABELS, getOrderPayments, formatTenderLabel, formatPaymentSummary, getPaymentMethodLabel } from '../utils/payments';
+import { OrderStatus, updateOrderStatus } from '../utils/orderStatus';
+import { CustomerRefundStatus, markCustomerRefunded } from '../utils/orderIntake';
+import { getOrderLabel, formatReceiptNumber, matchesOrderNumber } from '../utils/orderNumbers';
+import { OrderRefund, RefundLine, getRefundedAmount, getRemainingRefundable, getOrderNetTotal, getRefundableQuantity, getLineRefundAmount, validateRefund, recordRefund, getVoidedAmount } from '../utils/refunds';
+import { OrderVoid, VoidType, VoidApprover, findVoidApprover, recordVoid } from '../utils/voids';
+import { PaperWidth, createEscPosBuilder } from '../utils/escpos';
+import { PrinterSettings, DEFAULT_PRINTER_SETTINGS, toPrinterSettings, isPrinterConfigured, sendToPrinter } from '../utils/printer';
+import { Shift, subscribeToOpenShift } from '../utils/shifts';
+import { CURRENCY_TOLERANCE, roundCurrency } from '../utils/pricing';
+import { OrderTip, getOrderTip } from '../utils/tips';
 
 // Import pdfmake for PDF generation
 // We only import in web environment to avoid errors on native platforms
@@ -29,6 +42,8 @@ interface CartItem {
   price: number;
   quantity: number;
   size?: string | null;
+  modifiers?: SelectedModifier[];
+  note?: string | null;
   total: number;
 }
 
@@ -36,15 +51,24 @@ interface Order {
   id: string;
   items: CartItem[];
   totalAmount: number;
-  status: 'pending' | 'processing' | 'completed' | 'cancelled' | 'refunded' | 'ready for pickup';
+  status: OrderStatus;
   timestamp: any;
   customerName: string;
   customerId: string;
   staffId: string;
   staffEmail: string;
   staffName?: string;
-  paymentMethod: 'cash' | 'gcash';
+  paymentMethod: PaymentMethod | 'split';
+  payments?: PaymentTender[];
+  amountTendered?: number;
+  change?: number;
+  notes?: string | null;
   diningMode: 'dine-in' | 'takeout';
+  tableId?: string | null;
+  tableNumber?: number | null;
+  orderNumber?: number | null;
+  receiptNumber?: number | null;
+  businessDate?: string;
   source: 'pos' | 'customer';
   paymentStatus?: 'paid' | 'unpaid' | 'expired';
   paymentId?: string;
@@ -54,8 +78,20 @@ interface Order {
   completedAt?: any;
   processingStartTime?: any;
   readyTime?: any;
+  // Set when a customer-app order is accepted or rejected (utils/orderIntake.ts)
+  prepTimeMinutes?: number | null;
+  estimatedReadyAt?: any;
+  rejectionReason?: string | null;
+  refundStatus?: CustomerRefundStatus;
+  customerRefundedAt?: any;
   refundedAt?: any;
   refundReason?: string;
+  refunds?: OrderRefund[];
+  refundedAmount?: number;
+  voids?: OrderVoid[];
+  voidedAmount?: number;
+  voidReason?: string;
+  pointsEarned?: number;
   total: number;
   subtotal?: number;
   tax?: {
@@ -71,15 +107,146 @@ interface Order {
     amount: number;
     percentage: number;
     type: string;
+    // Statutory PWD/Senior details
+    vatExemptSales?: number;
+    vatRemoved?: number;
+    qualifyingAmount?: number;
+    partySize?: number;
+    cardholders?: DiscountCardholder[];
   };
+  vatableSales?: number;
+  vatExemptSales?: number;
+  zeroRatedSales?: number;
   voucher?: {
     code: string;
     description?: string;
     discountAmount: number;
     percentage: number;
   };
+  tip?: OrderTip | null;
 }
 
+// VATable / VAT-exempt / zero-rated split for BIR receipts. Orders saved before tax
+// classes only carry the PWD/Senior VAT-exempt amount on the discount.
+const getSalesBreakdownRows = (order: Order) => {
+  if (order.vatableSales !== undefined) {
+    return [
+      { label: 'VATable Sales', amount: order.vatableSales },
+      { label: 'VAT-Exempt Sales', amount: order.vatExemptSales || 0 },
+      { label: 'Zero-Rated Sales', amount: order.zeroRatedSales || 0 }
+    ];
+  }
+  return order.discount?.vatRemoved
+    ? [{ label: 'VAT-Exempt Sales', amount: order.discount.vatExemptSales || 0 }]
+    : [];
+};
+
+// Orders saved with the sales breakdown already carry a subtotal net of the removed VAT,
+// so only older orders list the PWD/Senior VAT exemption as its own deduction
+const listsVatExemptionSeparately = (order: Order) => order.vatableSales === undefined;
+
+// "dine-in · Table 4" for seated orders
+const formatDiningMode = (order: Order) =>
+  order.tableNumber ? `${order.diningMode} · Table ${order.tableNumber}` : order.diningMode;
+
+// Thermal printer version of the receipt; mirrors the on-screen receipt section by section
+const buildEscPosReceipt = (order: Order, paperWidth: PaperWidth) => {
+  const receipt = createEscPosBuilder(paperWidth);
+  const money = (amount: number) => `₱${amount.toFixed(2)}`;
+
+  receipt
+    .text("Brothers' Nook", { align: 'center', bold: true, large: true })
+    .text('Receipt', { align: 'center' })
+    .text(`Order ${getOrderLabel(order)}`, { align: 'center', bold: true });
+  if (order.receiptNumber) {
+    receipt.text(`OR No. ${formatReceiptNumber(order.receiptNumber)}`, { align: 'center' });
+  }
+  receipt
+    .text(order.createdAt?.toLocaleString() || '', { align: 'center' })
+    .divider()
+    .text(`Name: ${order.customerName}`)
+    .text(`Payment: ${formatPaymentSummary(order)}`)
+    .text(`Dining: ${formatDiningMode(order)}`);
+  (order.discount?.cardholders || []).forEach(cardholder => {
+    receipt.text(`${order.discount!.type} ID: ${cardholder.idNumber} (${cardholder.name})`);
+  });
+  if (order.notes) {
+    receipt.text(`ORDER NOTE: ${order.notes}`, { bold: true });
+  }
+
+  receipt.divider();
+  order.items.forEach(item => {
+    receipt.row(`${item.quantity}x ${item.name}`, money(item.total));
+    if (item.size) receipt.text(`   Size: ${item.size}`);
+    if (item.modifiers && item.modifiers.length > 0) receipt.text(`   ${formatModifiers(item.modifiers)}`);
+    if (item.note) receipt.text(`   Note: ${item.note}`);
+  });
+  receipt.divider();
+
+  if (order.subtotal) {
+    receipt.row('Subtotal (net of VAT)', money(order.subtotal));
+  }
+  getSalesBreakdownRows(order).forEach(row => receipt.row(row.label, money(row.amount)));
+  if (order.discount && order.discount.vatRemoved && listsVatExemptionSeparately(order)) {
+    receipt.row('Less: VAT Exemption', `-${money(order.discount.vatRemoved)}`);
+  }
+  if (order.discount && order.discount.amount > 0) {
+    receipt.row(`${order.discount.type} (${order.discount.percentage}%)`, `-${money(order.discount.amount)}`);
+  }
+  if (order.voucher && order.voucher.discountAmount > 0) {
+    receipt.row(`Voucher ${order.voucher.code}`, `-${money(order.voucher.discountAmount)}`);
+  }
+  if (order.tax && order.tax.amount > 0) {
+    receipt.row(`${order.tax.label || 'VAT'} (${order.tax.percentage}%)`, money(order.tax.amount));
+  }
+  if (order.serviceCharge && order.serviceCharge.amount > 0) {
+    receipt.row(`Service Charge (${order.serviceCharge.percentage}%)`, money(order.serviceCharge.amount));
+  }
+  receipt.row('TOTAL', money(order.total), { bold: true });
+  if (getOrderTip(order) > 0) {
+    receipt.row('Tip', money(getOrderTip(order)));
+  }
+
+  getOrderPayments(order).forEach(payment => receipt.row(formatTenderLabel(payment), money(payment.amount)));
+  if (order.amountTendered) {
+    receipt
+      .row('Cash Tendered', money(order.amountTendered))
+      .row('Change', money(order.change || 0));
+  }
+
+  if ((order.voids || []).length > 0 || (order.refunds || []).length > 0) {
+    (order.voids || []).forEach(orderVoid => {
+      receipt.row(orderVoid.type === 'order' ? 'Voided Order' : 'Voided Items', `-${money(orderVoid.amount)}`);
+    });
+    (order.refunds || []).forEach(refund => {
+      receipt.row(`Refund (${getPaymentMethodLabel(refund.method)})`, `-${money(refund.amount)}`);
+    });
+    receipt.row('NET TOTAL', money(getOrderNetTotal(order)), { bold: true });
+  }
+
+  receipt
+    .divider()
+    .text('Thank you for your order!', { align: 'center', bold: true })
+    .text(`Served by: ${order.staffName || order.staffEmail}`, { align: 'center' });
+  if (order.status === 'refunded') {
+    receipt
+      .text('REFUNDED', { align: 'center', bold: true, large: true })
+      .text(`Reason: ${order.refundReason || 'No reason provided'}`, { align: 'center' });
+  } else if (order.status === 'cancelled' && order.voidReason) {
+    receipt
+      .text('VOIDED', { align: 'center', bold: true, large: true })
+      .text(`Reason: ${order.voidReason}`, { align: 'center' });
+  }
+
+  // Scanning the code into the Orders search finds this order again
+  return receipt
+    .qrCode(order.receiptNumber ? formatReceiptNumber(order.receiptNumber) : order.id)
+    .text(`Printed: ${new Date().toLocaleString()}`, { align: 'center' })
+    .feed(3)
+    .cut()
+    .toBytes();
+};
+
 interface CustomerPoints {
   id: string;
   email: string;
@@ -89,7 +256,7 @@ interface CustomerPoints {
 }
 
 export default function Orders() {
-  const { user: authUser, loading: userLoading } = useUser();
+  const { user: authUser, role, loading: userLoading } = useUser();
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false); // New state for loading more indicator
   const [orders, setOrders] = useState<Order[]>([]);
@@ -99,6 +266,7 @@ export default function Orders() {
   const ordersPerPage = 9; // 9 orders per page (3x3 grid)
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
   const [selectedSource, setSelectedSource] = useState<string>('all');
+  const [selectedTable, setSelectedTable] = useState<string>('all');
   const [showPointsModal, setShowPointsModal] = useState(false);
   const [customerPoints, setCustomerPoints] = useState<CustomerPoints[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -108,6 +276,23 @@ export default function Orders() {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [refundReason, setRefundReason] = useState('');
+  const [refundMode, setRefundMode] = useState<'items' | 'amount'>('items');
+  const [refundQuantities, setRefundQuantities] = useState<{ [itemIndex: number]: number }>({});
+  const [restockLines, setRestockLines] = useState<number[]>([]);
+  const [refundAmountInput, setRefundAmountInput] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod | null>(null);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [pointValue, setPointValue] = useState(1);
+  const [printerSettings, setPrinterSettings] = useState<PrinterSettings>(DEFAULT_PRINTER_SETTINGS);
+  const [openShift, setOpenShift] = useState<Shift | null>(null);
+  const [inventoryItems, setInventoryItems] = useState<{ id: string; name: string }[]>([]);
+  const [voidOrder, setVoidOrder] = useState<Order | null>(null);
+  const [voidType, setVoidType] = useState<VoidType>('items');
+  const [voidQuantities, setVoidQuantities] = useState<{ [itemIndex: number]: number }>({});
+  const [voidRestockLines, setVoidRestockLines] = useState<number[]>([]);
+  const [voidReason, setVoidReason] = useState('');
+  const [approvalPin, setApprovalPin] = useState('');
+  const [isVoiding, setIsVoiding] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState(new Date());
@@ -169,7 +354,9 @@ export default function Orders() {
             completedAt: data.completedAt ? (typeof data.completedAt.toDate === 'function' ? data.completedAt.toDate() : null) : null,
             processingStartTime: data.processingStartTime ? (typeof data.processingStartTime.toDate === 'function' ? data.processingStartTime.toDate() : null) : null,
             readyTime: data.readyTime ? (typeof data.readyTime.toDate === 'function' ? data.readyTime.toDate() : null) : null,
-            refundedAt: data.refundedAt ? (typeof data.refundedAt.toDate === 'function' ? data.refundedAt.toDate() : null) : null
+            estimatedReadyAt: data.estimatedReadyAt ? (typeof data.estimatedReadyAt.toDate === 'function' ? data.estimatedReadyAt.toDate() : null) : null,
+            refundedAt: data.refundedAt ? (typeof data.refundedAt.toDate === 'function' ? data.refundedAt.toDate() : null) : null,
+            customerRefundedAt: data.customerRefundedAt ? (typeof data.customerRefundedAt.toDate === 'function' ? data.customerRefundedAt.toDate() : null) : null
           };
         }) as Order[];
         
@@ -228,6 +415,12 @@ export default function Orders() {
         if (doc.exists() && doc.data().rewards?.pointsThreshold) {
           setPointsThreshold(doc.data().rewards.pointsThreshold);
         }
+        if (doc.exists() && doc.data().rewards?.pointValue) {
+          setPointValue(doc.data().rewards.pointValue);
+        }
+        if (doc.exists()) {
+          setPrinterSettings(toPrinterSettings(doc.data().printer));
+        }
       });
 
       return () => {
@@ -264,53 +457,7 @@ export default function Orders() {
 
   const handleStatusChange = async (orderId: string, newStatus: Order['status']) => {
     try {
-      const orderRef = doc(db, 'orders', orderId);
-      const currentUser = auth.currentUser;
-      
-      // Get user role and name from Firestore
-      const userDoc = await getDoc(doc(db, 'users', currentUser?.uid || ''));
-      const userData = userDoc.exists() ? userDoc.data() : null;
-      const userRole = userData?.role || null;
-      const staffName = userData?.name || 'Unknown Staff';
-      const isOwner = userRole === 'owner';
-      
-      const staffInfo = {
-        staffId: currentUser?.uid || 'unknown',
-        staffName: isOwner ? `${staffName}` : staffName,
-        staffEmail: currentUser?.email || 'No Email'
-      };
-      
-      // If changing to "Processing", record the processing start time
-      if (newStatus === 'processing') {
-        await updateDoc(orderRef, {
-          status: newStatus,
-          processingStartTime: serverTimestamp(),
-          ...staffInfo
-        });
-      } 
-      // If changing to "Ready for Pickup", record the ready time
-      else if (newStatus === 'ready for pickup') {
-        await updateDoc(orderRef, {
-          status: newStatus,
-          readyTime: serverTimestamp(),
-          ...staffInfo
-        });
-      }
-      // If changing to "Completed", record the completed time
-      else if (newStatus === 'completed') {
-        await updateDoc(orderRef, {
-          status: newStatus,
-          completedAt: serverTimestamp(),
-          ...staffInfo
-        });
-      }
-      // For other status changes
-      else {
-        await updateDoc(orderRef, {
-          status: newStatus,
-          ...staffInfo
-        });
-      }
+      const staffInfo = await updateOrderStatus(orderId, newStatus);
 
       // Update local state for both orders and displayedOrders arrays
       // without triggering a full pagination reset
@@ -337,6 +484,106 @@ export default function Orders() {
     }
   };
 
+  // Rejected customer-app orders are refunded outside the register, through the provider
+  // the customer paid with; this records that it was done
+  const handleMarkCustomerRefunded = async (order: Order) => {
+    if (!authUser) {
+      Alert.alert('Error', 'You must be logged in to perform this action');
+      return;
+    }
+
+    try {
+      const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+      await markCustomerRefunded(order.id, {
+        staffId: authUser.uid,
+        staffName: userDoc.exists() ? userDoc.data().name || 'Unknown Staff' : 'Unknown Staff',
+        staffEmail: authUser.email || 'No Email'
+      });
+
+      const applyRefunded = (o: Order): Order => o.id === order.id
+        ? { ...o, refundStatus: 'refunded', customerRefundedAt: new Date() }
+        : o;
+      setOrders(orders.map(applyRefunded));
+      setDisplayedOrders(displayedOrders.map(applyRefunded));
+    } catch (error) {
+      console.error('Error marking order refunded:', error);
+      Alert.alert('Error', 'Failed to mark the order as refunded');
+    }
+  };
+
+  useEffect(() => {
+    // Refunds and voids are paid out of the open shift's cash drawer
+    const unsubscribe = subscribeToOpenShift(setOpenShift);
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    // Inventory names, so refunded items that are stocked can be returned to inventory
+    const loadInventoryItems = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'inventory'));
+        setInventoryItems(snapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name || '' })));
+      } catch (error) {
+        console.error('Error loading inventory items:', error);
+      }
+    };
+
+    loadInventoryItems();
+  }, []);
+
+  const findInventoryItem = (name: string) =>
+    inventoryItems.find(item => item.name.trim().toLowerCase() === name.trim().toLowerCase()) || null;
+
+  const resetRefundForm = () => {
+    setRefundReason('');
+    setRefundMode('items');
+    setRefundQuantities({});
+    setRestockLines([]);
+    setRefundAmountInput('');
+    setRefundMethod(null);
+  };
+
+  const getRefundLines = (order: Order): RefundLine[] => {
+    if (refundMode !== 'items') return [];
+    return order.items
+      .map((item, itemIndex) => {
+        const quantity = refundQuantities[itemIndex] || 0;
+        return {
+          itemIndex,
+          name: item.name,
+          quantity,
+          amount: getLineRefundAmount(order, itemIndex, quantity),
+          restocked: restockLines.includes(itemIndex) && !!findInventoryItem(item.name)
+        };
+      })
+      .filter(line => line.quantity > 0);
+  };
+
+  const getRefundTotal = (order: Order) => {
+    if (refundMode === 'amount') {
+      return roundCurrency(parseFloat(refundAmountInput) || 0);
+    }
+    const linesTotal = getRefundLines(order).reduce((sum, line) => sum + line.amount, 0);
+    // Rounding each line can leave the last centavo over the remaining balance
+    return Math.min(roundCurrency(linesTotal), getRemainingRefundable(order));
+  };
+
+  // Defaults to the tender the customer paid with
+  const getRefundMethod = (order: Order): PaymentMethod =>
+    refundMethod || getOrderPayments(order)[0]?.method || 'cash';
+
+  const handleRefundQuantityChange = (order: Order, itemIndex: number, delta: number) => {
+    const current = refundQuantities[itemIndex] || 0;
+    const next = Math.max(0, Math.min(getRefundableQuantity(order, itemIndex), current + delta));
+    setRefundQuantities({ ...refundQuantities, [itemIndex]: next });
+  };
+
+  const toggleRestockLine = (itemIndex: number) => {
+    setRestockLines(restockLines.includes(itemIndex)
+      ? restockLines.filter(index => index !== itemIndex)
+      : [...restockLines, itemIndex]);
+  };
+
   const handleRefund = async () => {
     if (!selectedOrder) return;
     
@@ -355,50 +602,232 @@ export default function Orders() {
       return;
     }
 
+    const lines = getRefundLines(selectedOrder);
+    const amount = getRefundTotal(selectedOrder);
+    const method = getRefundMethod(selectedOrder);
+
+    if (refundMode === 'items' && lines.length === 0) {
+      Alert.alert('Error', 'Please select the items to refund');
+      return;
+    }
+
+    const validationError = validateRefund(selectedOrder, amount, lines);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    if (method === 'points' && !selectedOrder.customerId) {
+      Alert.alert('Error', 'Only orders with a rewards customer can be refunded as points');
+      return;
+    }
+
     try {
+      setIsRefunding(true);
+
       // Get the staff name from users collection
       const userDoc = await getDoc(doc(db, 'users', authUser.uid));
       const staffName = userDoc.exists() ? userDoc.data().name : 'Unknown Staff';
-      const userRole = userDoc.exists() ? userDoc.data().role : null;
-      const isOwner = userRole === 'owner';
-      
-      const orderRef = doc(db, 'orders', selectedOrder.id);
-      const staffInfo = {
-        staffId: authUser.uid || 'unknown',
-        staffName: isOwner ? `${staffName}` : staffName,
-        staffEmail: authUser.email || 'No Email'
-      };
-      
-      await updateDoc(orderRef, {
-        status: 'refunded',
-        refundedAt: serverTimestamp(),
-        refundReason: refundReason.trim(),
-        ...staffInfo
-      });
+
+      const refund = await recordRefund(
+        selectedOrder.id,
+        {
+          amount,
+          method,
+          lines,
+          reason: refundReason.trim(),
+          staffId: authUser.uid || 'unknown',
+          staffName,
+          staffEmail: authUser.email || 'No Email',
+          shiftId: openShift?.id || null
+        },
+        {
+          customerId: selectedOrder.customerId || null,
+          pointValue,
+          restock: lines
+            .filter(line => line.restocked)
+            .map(line => ({ inventoryId: findInventoryItem(line.name)!.id, quantity: line.quantity }))
+        }
+      );
 
       // Update local state
-      setOrders(orders.map(o => 
-        o.id === selectedOrder.id 
-          ? { 
-              ...o, 
-              status: 'refunded', 
-              refundedAt: new Date(),
-              refundReason: refundReason.trim(),
-              ...staffInfo 
+      const refundedAmount = roundCurrency(getRefundedAmount(selectedOrder) + refund.amount);
+      const fullyRefunded = refund.amount >= getRemainingRefundable(selectedOrder) - CURRENCY_TOLERANCE;
+      setOrders(orders.map(o =>
+        o.id === selectedOrder.id
+          ? {
+              ...o,
+              refunds: [...(o.refunds || []), refund],
+              refundedAmount,
+              ...(fullyRefunded ? { status: 'refunded', refundedAt: new Date(), refundReason: refund.reason } : {})
             }
           : o
       ));
 
       // Reset state and close modal
-      setRefundReason('');
+      resetRefundForm();
       setSelectedOrder(null);
       setShowOrderModal(false);
 
       // Show success message
-      Alert.alert('Success', 'Order has been refunded successfully');
+      const pointsNote = refund.pointsCredited > 0
+        ? ` ${refund.pointsCredited} points returned to the customer.`
+        : refund.pointsReversed > 0 ? ` ${refund.pointsReversed} earned points reversed.` : '';
+      Alert.alert(
+        'Success',
+        `Refunded ₱${refund.amount.toFixed(2)} via ${getPaymentMethodLabel(refund.method)}.${pointsNote}`
+      );
     } catch (error) {
       console.error('Error refunding order:', error);
-      Alert.alert('Error', 'Failed to refund order');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to refund order');
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const openVoidModal = (order: Order, type: VoidType) => {
+    setVoidOrder(order);
+    setVoidType(type);
+    setVoidQuantities({});
+    setVoidRestockLines([]);
+    setVoidReason('');
+    setApprovalPin('');
+  };
+
+  const closeVoidModal = () => {
+    setVoidOrder(null);
+    setVoidReason('');
+    setApprovalPin('');
+  };
+
+  // A whole-order void takes every line that is still on the order
+  const getVoidLines = (order: Order): RefundLine[] =>
+    order.items
+      .map((item, itemIndex) => {
+        const quantity = voidType === 'order'
+          ? getRefundableQuantity(order, itemIndex)
+          : voidQuantities[itemIndex] || 0;
+        return {
+          itemIndex,
+          name: item.name,
+          quantity,
+          amount: getLineRefundAmount(order, itemIndex, quantity),
+          restocked: voidRestockLines.includes(itemIndex) && !!findInventoryItem(item.name)
+        };
+      })
+      .filter(line => line.quantity > 0);
+
+  const getVoidTotal = (order: Order) => {
+    if (voidType === 'order') return getRemainingRefundable(order);
+    const linesTotal = getVoidLines(order).reduce((sum, line) => sum + line.amount, 0);
+    return Math.min(roundCurrency(linesTotal), getRemainingRefundable(order));
+  };
+
+  const handleVoidQuantityChange = (order: Order, itemIndex: number, delta: number) => {
+    const current = voidQuantities[itemIndex] || 0;
+    const next = Math.max(0, Math.min(getRefundableQuantity(order, itemIndex), current + delta));
+    setVoidQuantities({ ...voidQuantities, [itemIndex]: next });
+  };
+
+  const toggleVoidRestockLine = (itemIndex: number) => {
+    setVoidRestockLines(voidRestockLines.includes(itemIndex)
+      ? voidRestockLines.filter(index => index !== itemIndex)
+      : [...voidRestockLines, itemIndex]);
+  };
+
+  const handleVoid = async () => {
+    if (!voidOrder) return;
+
+    if (!voidReason.trim()) {
+      Alert.alert('Error', 'Please provide a reason for the void');
+      return;
+    }
+
+    if (userLoading) {
+      Alert.alert('Error', 'Please wait while user data is loading');
+      return;
+    }
+
+    if (!authUser) {
+      Alert.alert('Error', 'You must be logged in to perform this action');
+      return;
+    }
+
+    const lines = getVoidLines(voidOrder);
+    if (voidType === 'items' && lines.length === 0) {
+      Alert.alert('Error', 'Please select the items to void');
+      return;
+    }
+
+    try {
+      setIsVoiding(true);
+
+      // Staff voids need an owner to approve them with their PIN
+      let approvedBy: VoidApprover | null = null;
+      if (role !== 'owner') {
+        approvedBy = await findVoidApprover(approvalPin);
+        if (!approvedBy) {
+          Alert.alert('Approval Required', 'Please have a manager enter a valid approval PIN');
+          return;
+        }
+      }
+
+      // Get the staff name from users collection
+      const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+      const staffName = userDoc.exists() ? userDoc.data().name : 'Unknown Staff';
+
+      const orderVoid = await recordVoid(
+        voidOrder.id,
+        {
+          type: voidType,
+          lines,
+          reason: voidReason.trim(),
+          staffId: authUser.uid || 'unknown',
+          staffName,
+          staffEmail: authUser.email || 'No Email',
+          approvedBy,
+          shiftId: openShift?.id || null
+        },
+        {
+          customerId: voidOrder.customerId || null,
+          restock: lines
+            .filter(line => line.restocked)
+            .map(line => ({ inventoryId: findInventoryItem(line.name)!.id, quantity: line.quantity }))
+        }
+      );
+
+      // Update local state
+      const clearsOrder = orderVoid.amount >= getRemainingRefundable(voidOrder) - CURRENCY_TOLERANCE;
+      const applyVoid = (o: Order): Order => o.id === voidOrder.id
+        ? {
+            ...o,
+            voids: [...(o.voids || []), orderVoid],
+            voidedAmount: roundCurrency(getVoidedAmount(o) + orderVoid.amount),
+            ...(clearsOrder ? { status: 'cancelled', voidReason: orderVoid.reason } : {})
+          }
+        : o;
+      setOrders(orders.map(applyVoid));
+      setDisplayedOrders(displayedOrders.map(applyVoid));
+      if (selectedOrder?.id === voidOrder.id) {
+        setSelectedOrder(applyVoid(selectedOrder));
+      }
+
+      closeVoidModal();
+
+      const pointsNote = [
+        orderVoid.pointsReversed > 0 ? `${orderVoid.pointsReversed} earned points reversed.` : '',
+        orderVoid.pointsReturned > 0 ? `${orderVoid.pointsReturned} redeemed points returned.` : '',
+        orderVoid.tipReturned ? `Tip of ₱${orderVoid.tipReturned.toFixed(2)} returned.` : ''
+      ].filter(Boolean).join(' ');
+      Alert.alert(
+        'Success',
+        `${clearsOrder ? 'Order voided' : 'Items voided'} (₱${orderVoid.amount.toFixed(2)}).${pointsNote ? ` ${pointsNote}` : ''}`
+      );
+    } catch (error) {
+      console.error('Error voiding order:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to void order');
+    } finally {
+      setIsVoiding(false);
     }
   };
 
@@ -594,7 +1023,9 @@ export default function Orders() {
         { text: 'Price', style: 'tableHeader', alignment: 'right' }
       ],
       ...order.items.map(item => [
-        item.name + (item.size ? ` (${item.size})` : ''),
+        item.name + (item.size ? ` (${item.size})` : '') +
+          (item.modifiers && item.modifiers.length > 0 ? `\n  ${formatModifiers(item.modifiers)}` : '') +
+          (item.note ? `\n  Note: ${item.note}` : ''),
         { text: item.quantity.toString(), alignment: 'center' } as TableCell,
         { text: formatCurrency(item.total), alignment: 'right' } as TableCell
       ])
@@ -616,6 +1047,22 @@ export default function Orders() {
       ]);
     }
     
+    getSalesBreakdownRows(order).forEach(row => {
+      itemsBody.push([
+        { text: `${row.label}:`, colSpan: 2, alignment: 'right', border: [false, false, false, false] } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { text: formatCurrency(row.amount), alignment: 'right', border: [false, false, false, false] } as TableCell
+      ]);
+    });
+
+    if (hasDiscount && order.discount!.vatRemoved && listsVatExemptionSeparately(order)) {
+      itemsBody.push([
+        { text: 'Less: VAT Exemption:', colSpan: 2, alignment: 'right', color: '#10B981', border: [false, false, false, false] } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { text: `-${formatCurrency(order.discount!.vatRemoved)}`, alignment: 'right', color: '#10B981', border: [false, false, false, false] } as TableCell
+      ]);
+    }
+    
     if (hasDiscount) {
       itemsBody.push([
         { 
@@ -706,6 +1153,130 @@ export default function Orders() {
       } as TableCell
     ]);
     
+    // Tips are paid on top of the total
+    if (getOrderTip(order) > 0) {
+      itemsBody.push([
+        { 
+          text: 'Tip:', 
+          colSpan: 2, 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { 
+          text: formatCurrency(getOrderTip(order)), 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell
+      ]);
+    }
+    
+    // Add one row per tender
+    getOrderPayments(order).forEach(payment => {
+      itemsBody.push([
+        { 
+          text: `${formatTenderLabel(payment)}:`, 
+          colSpan: 2, 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { 
+          text: formatCurrency(payment.amount), 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell
+      ]);
+    });
+    
+    // Add cash tendered and change if recorded
+    if (order.amountTendered) {
+      itemsBody.push([
+        { 
+          text: 'Cash Tendered:', 
+          colSpan: 2, 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { 
+          text: formatCurrency(order.amountTendered), 
+          alignment: 'right', 
+          border: [false, false, false, false]
+        } as TableCell
+      ]);
+      itemsBody.push([
+        { 
+          text: 'Change:', 
+          colSpan: 2, 
+          alignment: 'right', 
+          bold: true,
+          border: [false, false, false, false]
+        } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { 
+          text: formatCurrency(order.change || 0), 
+          alignment: 'right', 
+          bold: true,
+          border: [false, false, false, false]
+        } as TableCell
+      ]);
+    }
+    
+    // Add one row per void and refund, then what the order nets after them
+    const orderVoids = order.voids || [];
+    const orderRefunds = order.refunds || [];
+    if (orderVoids.length > 0 || orderRefunds.length > 0) {
+      orderVoids.forEach(orderVoid => {
+        itemsBody.push([
+          { 
+            text: orderVoid.type === 'order' ? 'Voided Order:' : 'Voided Items:', 
+            colSpan: 2, 
+            alignment: 'right', 
+            border: [false, false, false, false]
+          } as TableCell,
+          {} as TableCell, // Empty cell for colSpan
+          { 
+            text: `-${formatCurrency(orderVoid.amount)}`, 
+            alignment: 'right', 
+            border: [false, false, false, false]
+          } as TableCell
+        ]);
+      });
+      orderRefunds.forEach(refund => {
+        itemsBody.push([
+          { 
+            text: `Refund (${getPaymentMethodLabel(refund.method)}):`, 
+            colSpan: 2, 
+            alignment: 'right', 
+            border: [false, false, false, false]
+          } as TableCell,
+          {} as TableCell, // Empty cell for colSpan
+          { 
+            text: `-${formatCurrency(refund.amount)}`, 
+            alignment: 'right', 
+            border: [false, false, false, false]
+          } as TableCell
+        ]);
+      });
+      itemsBody.push([
+        { 
+          text: 'Net Total:', 
+          colSpan: 2, 
+          alignment: 'right', 
+          bold: true,
+          border: [false, true, false, false]
+        } as TableCell,
+        {} as TableCell, // Empty cell for colSpan
+        { 
+          text: formatCurrency(getOrderNetTotal(order)), 
+          alignment: 'right', 
+          bold: true,
+          border: [false, true, false, false]
+        } as TableCell
+      ]);
+    }
+    
     // Format dates
     const orderDate = order.createdAt instanceof Date 
       ? order.createdAt.toLocaleString() 
@@ -723,6 +1294,11 @@ export default function Orders() {
         { text: `Refund Date: ${refundDate}`, style: 'refundText' } as TableCell,
         { text: `Reason: ${order.refundReason || 'No reason provided'}`, style: 'refundText', italics: true } as TableCell
       );
+    } else if (order.status === 'cancelled' && order.voidReason) {
+      refundSection.push(
+        { text: 'VOIDED', style: 'refundHeader' } as TableCell,
+        { text: `Reason: ${order.voidReason}`, style: 'refundText', italics: true } as TableCell
+      );
     }
     
     // Define content item type
@@ -746,7 +1322,8 @@ export default function Orders() {
         // Header
         { text: 'Brothers\' Nook', style: 'header' },
         { text: 'Receipt', style: 'subheader' },
-        { text: `Order #${order.id.slice(-6)}`, style: 'orderId' },
+        { text: `Order ${getOrderLabel(order)}`, style: 'orderId' },
+        ...(order.receiptNumber ? [{ text: `OR No. ${formatReceiptNumber(order.receiptNumber)}`, style: 'date' }] : []),
         { text: orderDate, style: 'date', margin: [0, 0, 0, 20] },
         
         // Customer Information
@@ -757,13 +1334,20 @@ export default function Orders() {
             widths: ['auto', '*'],
             body: [
               ['Name:', order.customerName],
-              ['Payment Method:', order.paymentMethod],
-              ['Dining Mode:', order.diningMode]
+              ['Payment Method:', formatPaymentSummary(order)],
+              ['Dining Mode:', formatDiningMode(order)],
+              ...(order.discount?.cardholders || []).map(cardholder => [
+                `${order.discount!.type} ID:`,
+                `${cardholder.idNumber} (${cardholder.name})`
+              ])
             ]
           },
           margin: [0, 0, 0, 20]
         } as ContentItem,
         
+        // Order Note (if any)
+        order.notes ? { text: `Order Note: ${order.notes}`, style: 'orderNote', margin: [0, 0, 0, 20] } as ContentItem : null,
+        
         // Order Items
         { text: 'Order Items', style: 'sectionHeader' },
         {
@@ -787,6 +1371,11 @@ export default function Orders() {
       ],
       
       styles: {
+        orderNote: {
+          fontSize: 12,
+          bold: true,
+          color: '#C2410C'
+        },
         header: {
           fontSize: 22,
           bold: true,
@@ -1010,7 +1599,7 @@ export default function Orders() {
         ]} 
         key={order.id}
         onPress={() => {
-          if (order.status === 'completed' || order.status === 'refunded') {
+          if (order.status === 'completed' || order.status === 'refunded' || (order.voids && order.voids.length > 0)) {
             setSelectedOrder(order);
             setShowOrderModal(true);
           }
@@ -1039,7 +1628,10 @@ export default function Orders() {
           {/* Header without status badge */}
           <View style={styles.orderHeader}>
             <View>
-              <Text style={styles.orderId}>Order #{order.id.slice(-6)}</Text>
+              <Text style={styles.orderId}>Order {getOrderLabel(order)}</Text>
+              {!!order.receiptNumber && (
+                <Text style={styles.orderTime}>{formatReceiptNumber(order.receiptNumber)}</Text>
+              )}
               <Text style={styles.orderTime}>
                 {order.createdAt.toLocaleString()}
               </Text>
@@ -1048,6 +1640,32 @@ export default function Orders() {
                   Completed: {order.completedAt.toLocaleString()}
                 </Text>
               )}
+              {order.estimatedReadyAt && (order.status === 'processing' || order.status === 'pending') && (
+                <Text style={[styles.completedTime, { color: '#3B82F6' }]}>
+                  Ready by: {order.estimatedReadyAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} ({order.prepTimeMinutes} min)
+                </Text>
+              )}
+              {order.refundStatus === 'pending' && (
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                  <Text style={[styles.completedTime, { color: '#9333EA' }]}>
+                    Refund pending to customer
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.markRefundedButton}
+                    onPress={(e) => {
+                      e.stopPropagation(); // Prevent card touch event
+                      handleMarkCustomerRefunded(order);
+                    }}
+                  >
+                    <Text style={styles.markRefundedButtonText}>Mark Refunded</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {order.refundStatus === 'refunded' && order.customerRefundedAt && (
+                <Text style={[styles.completedTime, { color: '#9333EA' }]}>
+                  Refunded to customer: {order.customerRefundedAt.toLocaleString()}
+                </Text>
+              )}
               {order.refundedAt && (
                 <View>
                   <Text style={[styles.completedTime, { color: '#9333EA' }]}>
@@ -1060,6 +1678,20 @@ export default function Orders() {
                   )}
                 </View>
               )}
+              {order.status !== 'refunded' && getRefundedAmount(order) > 0 && (
+                <Text style={[styles.completedTime, { color: '#9333EA' }]}>
+                  Partially refunded: ₱{getRefundedAmount(order).toFixed(2)}
+                </Text>
+              )}
+              {order.status === 'cancelled' && order.voidReason ? (
+                <Text style={[styles.completedTime, { color: '#EF4444', fontStyle: 'italic' }]} numberOfLines={1} ellipsizeMode="tail">
+                  Voided: {order.voidReason}
+                </Text>
+              ) : order.status !== 'cancelled' && getVoidedAmount(order) > 0 && (
+                <Text style={[styles.completedTime, { color: '#EF4444' }]}>
+                  Items voided: ₱{getVoidedAmount(order).toFixed(2)}
+                </Text>
+              )}
             </View>
           </View>
 
@@ -1070,11 +1702,11 @@ export default function Orders() {
             </Text>
             <Text style={styles.orderDetails}>
               <Text style={styles.label}>Payment: </Text>
-              {order.paymentMethod}
+              {formatPaymentSummary(order)}
             </Text>
             <Text style={styles.orderDetails}>
               <Text style={styles.label}>Dining: </Text>
-              {order.diningMode}
+              {formatDiningMode(order)}
             </Text>
             <Text style={styles.orderDetails}>
               <Text style={styles.label}>Staff: </Text>
@@ -1082,6 +1714,13 @@ export default function Orders() {
             </Text>
           </View>
 
+          {order.notes && (
+            <View style={styles.orderNoteBanner}>
+              <FontAwesome name="sticky-note" size={14} color="#C2410C" />
+              <Text style={styles.orderNoteBannerText}>{order.notes}</Text>
+            </View>
+          )}
+
           <View style={styles.itemsContainer}>
             {displayedItems.map((item, index) => (
               <View key={index} style={styles.item}>
@@ -1090,6 +1729,12 @@ export default function Orders() {
                   {item.size && (
                     <Text style={styles.itemSize}>Size: {item.size}</Text>
                   )}
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <Text style={styles.itemSize}>{formatModifiers(item.modifiers)}</Text>
+                  )}
+                  {item.note && (
+                    <Text style={styles.itemNote}>Note: {item.note}</Text>
+                  )}
                 </View>
                 <Text style={styles.itemQuantity}>x{item.quantity}</Text>
                 <Text style={styles.itemPrice}>₱{item.total.toFixed(2)}</Text>
@@ -1196,7 +1841,7 @@ export default function Orders() {
                 {(order.status === 'pending' || order.status === 'processing' || order.status === 'ready for pickup') && (
                   <TouchableOpacity
                     style={[styles.statusButton, { backgroundColor: '#EF4455', marginBottom: 0 }]} // Removed marginBottom
-                    onPress={() => handleStatusChange(order.id, 'cancelled')}
+                    onPress={() => openVoidModal(order, 'order')}
                   >
                     <Text style={styles.statusButtonText}>Cancel</Text>
                   </TouchableOpacity>
@@ -1206,10 +1851,10 @@ export default function Orders() {
           </View>
         )}
 
-        {(order.status === 'completed' || order.status === 'refunded') && (
+        {(order.status === 'completed' || order.status === 'refunded' || (order.voids && order.voids.length > 0)) && (
           <View style={styles.viewDetailsContainer}>
             <Text style={styles.viewDetailsText}>
-              {order.status === 'refunded' ? 'Tap to view refund details' : 'Tap to view details'}
+              {order.status === 'refunded' ? 'Tap to view refund details' : order.status === 'cancelled' ? 'Tap to view void details' : 'Tap to view details'}
             </Text>
           </View>
         )}
@@ -1225,7 +1870,7 @@ export default function Orders() {
       onRequestClose={() => {
         setShowOrderModal(false);
         setSelectedOrder(null);
-        setRefundReason('');
+        resetRefundForm();
       }}
     >
       <View style={styles.modalOverlay}>
@@ -1239,7 +1884,7 @@ export default function Orders() {
               onPress={() => {
                 setShowOrderModal(false);
                 setSelectedOrder(null);
-                setRefundReason('');
+                resetRefundForm();
               }}
               style={styles.closeButton}
             >
@@ -1251,7 +1896,7 @@ export default function Orders() {
             <ScrollView style={styles.orderModalScrollView}>
               <View style={styles.orderTopSection}>
                 <View style={styles.orderIdBadge}>
-                  <Text style={styles.orderIdBadgeText}>#{selectedOrder.id.slice(-6)}</Text>
+                  <Text style={styles.orderIdBadgeText}>{getOrderLabel(selectedOrder)}</Text>
                 </View>
                 
                 {/* Move View Receipt button to top section */}
@@ -1301,14 +1946,83 @@ export default function Orders() {
                       <Text style={styles.orderInfoLabel}>Refund Reason:</Text>
                       <Text style={styles.orderInfoValue}>{selectedOrder.refundReason || 'No reason provided'}</Text>
                     </View>
-                    <View style={styles.orderInfoItem}>
-                      <Text style={styles.orderInfoLabel}>Refunded By:</Text>
-                      <Text style={styles.orderInfoValue}>{selectedOrder.staffName ? `${selectedOrder.staffName} (${selectedOrder.staffEmail})` : selectedOrder.staffEmail || 'Unknown Staff'}</Text>
-                    </View>
+                    {!(selectedOrder.refunds && selectedOrder.refunds.length > 0) && (
+                      <View style={styles.orderInfoItem}>
+                        <Text style={styles.orderInfoLabel}>Refunded By:</Text>
+                        <Text style={styles.orderInfoValue}>{selectedOrder.staffName ? `${selectedOrder.staffName} (${selectedOrder.staffEmail})` : selectedOrder.staffEmail || 'Unknown Staff'}</Text>
+                      </View>
+                    )}
                   </View>
                 </View>
               )}
 
+              {!!selectedOrder.refunds && selectedOrder.refunds.length > 0 && (
+                <View style={[styles.orderModalSection, { backgroundColor: '#F9F1FF', borderRadius: 8, padding: 12 }]}>
+                  <Text style={[styles.orderModalSectionTitle, { color: '#9333EA' }]}>Refund History</Text>
+                  <Text style={styles.orderModalDescription}>
+                    Refunded ₱{getRefundedAmount(selectedOrder).toFixed(2)} of ₱{selectedOrder.total.toFixed(2)}
+                  </Text>
+                  {selectedOrder.refunds.map(refund => (
+                    <View key={refund.id} style={styles.refundHistoryItem}>
+                      <View style={styles.refundHistoryHeader}>
+                        <Text style={styles.refundHistoryAmount}>
+                          -₱{refund.amount.toFixed(2)} · {getPaymentMethodLabel(refund.method)}
+                        </Text>
+                        <Text style={styles.refundHistoryMeta}>{new Date(refund.createdAt).toLocaleString()}</Text>
+                      </View>
+                      {refund.lines.map(line => (
+                        <Text key={line.itemIndex} style={styles.refundHistoryMeta}>
+                          {line.quantity}× {line.name} · ₱{line.amount.toFixed(2)}{line.restocked ? ' · returned to stock' : ''}
+                        </Text>
+                      ))}
+                      <Text style={styles.refundHistoryMeta}>Reason: {refund.reason}</Text>
+                      {refund.pointsReversed > 0 && (
+                        <Text style={styles.refundHistoryMeta}>Points reversed: {refund.pointsReversed}</Text>
+                      )}
+                      {refund.pointsCredited > 0 && (
+                        <Text style={styles.refundHistoryMeta}>Points returned: {refund.pointsCredited}</Text>
+                      )}
+                      <Text style={styles.refundHistoryMeta}>By: {refund.staffName} ({refund.staffEmail})</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {!!selectedOrder.voids && selectedOrder.voids.length > 0 && (
+                <View style={[styles.orderModalSection, { backgroundColor: '#FEF2F2', borderRadius: 8, padding: 12 }]}>
+                  <Text style={[styles.orderModalSectionTitle, { color: '#EF4444' }]}>Void History</Text>
+                  {selectedOrder.voids.map(orderVoid => (
+                    <View key={orderVoid.id} style={[styles.refundHistoryItem, { borderTopColor: '#FECACA' }]}>
+                      <View style={styles.refundHistoryHeader}>
+                        <Text style={[styles.refundHistoryAmount, { color: '#EF4444' }]}>
+                          -₱{orderVoid.amount.toFixed(2)} · {orderVoid.type === 'order' ? 'Whole order' : 'Items'}
+                        </Text>
+                        <Text style={styles.refundHistoryMeta}>{new Date(orderVoid.createdAt).toLocaleString()}</Text>
+                      </View>
+                      {orderVoid.lines.map(line => (
+                        <Text key={line.itemIndex} style={styles.refundHistoryMeta}>
+                          {line.quantity}× {line.name} · ₱{line.amount.toFixed(2)}{line.restocked ? ' · returned to stock' : ''}
+                        </Text>
+                      ))}
+                      <Text style={styles.refundHistoryMeta}>Reason: {orderVoid.reason}</Text>
+                      {orderVoid.pointsReversed > 0 && (
+                        <Text style={styles.refundHistoryMeta}>Points reversed: {orderVoid.pointsReversed}</Text>
+                      )}
+                      {orderVoid.pointsReturned > 0 && (
+                        <Text style={styles.refundHistoryMeta}>Points returned: {orderVoid.pointsReturned}</Text>
+                      )}
+                      {!!orderVoid.tipReturned && (
+                        <Text style={styles.refundHistoryMeta}>Tip returned: ₱{orderVoid.tipReturned.toFixed(2)}</Text>
+                      )}
+                      <Text style={styles.refundHistoryMeta}>By: {orderVoid.staffName} ({orderVoid.staffEmail})</Text>
+                      {!!orderVoid.approvedBy && (
+                        <Text style={styles.refundHistoryMeta}>Approved by: {orderVoid.approvedBy.staffName}</Text>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              )}
+
               <View style={styles.orderModalSection}>
                 <Text style={styles.orderModalSectionTitle}>Customer Information</Text>
                 <View style={styles.orderInfoGrid}>
@@ -1318,12 +2032,18 @@ export default function Orders() {
                   </View>
                   <View style={styles.orderInfoItem}>
                     <Text style={styles.orderInfoLabel}>Payment Method:</Text>
-                    <Text style={styles.orderInfoValue}>{selectedOrder.paymentMethod}</Text>
+                    <Text style={styles.orderInfoValue}>{formatPaymentSummary(selectedOrder)}</Text>
                   </View>
                   <View style={styles.orderInfoItem}>
                     <Text style={styles.orderInfoLabel}>Dining Mode:</Text>
-                    <Text style={styles.orderInfoValue}>{selectedOrder.diningMode}</Text>
+                    <Text style={styles.orderInfoValue}>{formatDiningMode(selectedOrder)}</Text>
                   </View>
+                  {(selectedOrder.discount?.cardholders || []).map(cardholder => (
+                    <View key={cardholder.idNumber} style={styles.orderInfoItem}>
+                      <Text style={styles.orderInfoLabel}>{selectedOrder.discount!.type} ID:</Text>
+                      <Text style={styles.orderInfoValue}>{cardholder.idNumber} ({cardholder.name})</Text>
+                    </View>
+                  ))}
                   <View style={styles.orderInfoItem}>
                     <Text style={styles.orderInfoLabel}>Staff:</Text>
                     <Text style={styles.orderInfoValue}>{selectedOrder.staffName ? `${selectedOrder.staffName} (${selectedOrder.staffEmail})` : selectedOrder.staffEmail}</Text>
@@ -1331,6 +2051,13 @@ export default function Orders() {
                 </View>
               </View>
 
+              {selectedOrder.notes && (
+                <View style={styles.orderNoteBanner}>
+                  <FontAwesome name="sticky-note" size={14} color="#C2410C" />
+                  <Text style={styles.orderNoteBannerText}>{selectedOrder.notes}</Text>
+                </View>
+              )}
+
               <View style={styles.orderModalSection}>
                 <Text style={styles.orderModalSectionTitle}>Order Items</Text>
                 <View style={styles.orderItemsContainer}>
@@ -1343,6 +2070,12 @@ export default function Orders() {
                       {item.size && (
                         <Text style={styles.orderModalItemSize}>Size: {item.size}</Text>
                       )}
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <Text style={styles.orderModalItemSize}>{formatModifiers(item.modifiers)}</Text>
+                      )}
+                      {item.note && (
+                        <Text style={styles.itemNote}>Note: {item.note}</Text>
+                      )}
                       <Text style={styles.orderModalItemPrice}>₱{item.total.toFixed(2)}</Text>
                     </View>
                   ))}
@@ -1356,6 +2089,20 @@ export default function Orders() {
                     </View>
                   )}
                   
+                  {getSalesBreakdownRows(selectedOrder).map(row => (
+                    <View key={row.label} style={styles.priceSummaryRow}>
+                      <Text style={styles.priceSummaryLabel}>{row.label}:</Text>
+                      <Text style={styles.priceSummaryValue}>₱{row.amount.toFixed(2)}</Text>
+                    </View>
+                  ))}
+
+                  {selectedOrder.discount && !!selectedOrder.discount.vatRemoved && listsVatExemptionSeparately(selectedOrder) && (
+                    <View style={styles.priceSummaryRow}>
+                      <Text style={styles.priceSummaryLabel}>Less: VAT Exemption:</Text>
+                      <Text style={[styles.priceSummaryValue, { color: '#10B981' }]}>-₱{selectedOrder.discount.vatRemoved.toFixed(2)}</Text>
+                    </View>
+                  )}
+                  
                   {selectedOrder.discount && selectedOrder.discount.amount > 0 && (
                     <View style={styles.priceSummaryRow}>
                       <Text style={styles.priceSummaryLabel}>
@@ -1389,20 +2136,161 @@ export default function Orders() {
                       <Text style={styles.priceSummaryValue}>₱{selectedOrder.serviceCharge.amount.toFixed(2)}</Text>
                     </View>
                   )}
-                  
-                  <View style={styles.priceSummaryTotal}>
-                    <Text style={styles.priceSummaryTotalLabel}>Total:</Text>
-                    <Text style={styles.priceSummaryTotalValue}>₱{selectedOrder.total.toFixed(2)}</Text>
-                  </View>
+                  
+                  <View style={styles.priceSummaryTotal}>
+                    <Text style={styles.priceSummaryTotalLabel}>Total:</Text>
+                    <Text style={styles.priceSummaryTotalValue}>₱{selectedOrder.total.toFixed(2)}</Text>
+                  </View>
+                  
+                  {getOrderTip(selectedOrder) > 0 && (
+                    <View style={styles.priceSummaryRow}>
+                      <Text style={styles.priceSummaryLabel}>Tip:</Text>
+                      <Text style={styles.priceSummaryValue}>₱{getOrderTip(selectedOrder).toFixed(2)}</Text>
+                    </View>
+                  )}
+                  
+                  {getOrderPayments(selectedOrder).map((payment, index) => (
+                    <View key={index} style={styles.priceSummaryRow}>
+                      <Text style={styles.priceSummaryLabel}>
+                        {formatTenderLabel(payment)}:
+                      </Text>
+                      <Text style={styles.priceSummaryValue}>₱{payment.amount.toFixed(2)}</Text>
+                    </View>
+                  ))}
+                  
+                  {!!selectedOrder.amountTendered && (
+                    <>
+                      <View style={styles.priceSummaryRow}>
+                        <Text style={styles.priceSummaryLabel}>Cash Tendered:</Text>
+                        <Text style={styles.priceSummaryValue}>₱{selectedOrder.amountTendered.toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.priceSummaryRow}>
+                        <Text style={styles.priceSummaryLabel}>Change:</Text>
+                        <Text style={styles.priceSummaryValue}>₱{(selectedOrder.change || 0).toFixed(2)}</Text>
+                      </View>
+                    </>
+                  )}
+
+                  {((selectedOrder.voids || []).length > 0 || (selectedOrder.refunds || []).length > 0) && (
+                    <>
+                      {(selectedOrder.voids || []).map(orderVoid => (
+                        <View key={orderVoid.id} style={styles.priceSummaryRow}>
+                          <Text style={[styles.priceSummaryLabel, { color: '#EF4444' }]}>
+                            {orderVoid.type === 'order' ? 'Voided Order' : 'Voided Items'}:
+                          </Text>
+                          <Text style={[styles.priceSummaryValue, { color: '#EF4444' }]}>-₱{orderVoid.amount.toFixed(2)}</Text>
+                        </View>
+                      ))}
+                      {(selectedOrder.refunds || []).map(refund => (
+                        <View key={refund.id} style={styles.priceSummaryRow}>
+                          <Text style={[styles.priceSummaryLabel, { color: '#9333EA' }]}>
+                            Refund ({getPaymentMethodLabel(refund.method)}):
+                          </Text>
+                          <Text style={[styles.priceSummaryValue, { color: '#9333EA' }]}>-₱{refund.amount.toFixed(2)}</Text>
+                        </View>
+                      ))}
+                      <View style={styles.priceSummaryTotal}>
+                        <Text style={styles.priceSummaryTotalLabel}>Net Total:</Text>
+                        <Text style={styles.priceSummaryTotalValue}>₱{getOrderNetTotal(selectedOrder).toFixed(2)}</Text>
+                      </View>
+                    </>
+                  )}
                 </View>
               </View>
               
-              {selectedOrder.status !== 'refunded' && (
+              {selectedOrder.status !== 'refunded' && getRemainingRefundable(selectedOrder) > 0 && (
                 <View style={styles.orderModalSection}>
                   <Text style={styles.orderModalSectionTitle}>Refund Order</Text>
                   <Text style={styles.orderModalDescription}>
-                    Refunding this order will mark it as refunded and it will not count towards sales.
+                    Refunded amounts no longer count towards sales. ₱{getRemainingRefundable(selectedOrder).toFixed(2)} can still be refunded.
                   </Text>
+
+                  <View style={styles.refundModeRow}>
+                    {(['items', 'amount'] as const).map(mode => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[styles.filterModalButton, refundMode === mode && styles.filterModalButtonActive]}
+                        onPress={() => setRefundMode(mode)}
+                      >
+                        <Text style={[styles.filterModalButtonText, refundMode === mode && styles.filterModalButtonTextActive]}>
+                          {mode === 'items' ? 'By Item' : 'Custom Amount'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {refundMode === 'items' ? (
+                    selectedOrder.items.map((item, index) => {
+                      const refundable = getRefundableQuantity(selectedOrder, index);
+                      const quantity = refundQuantities[index] || 0;
+                      const canRestock = !!findInventoryItem(item.name);
+                      return (
+                        <View key={index} style={styles.refundLine}>
+                          <View style={styles.refundLineInfo}>
+                            <Text style={styles.refundLineName}>
+                              {item.name}{item.size ? ` (${item.size})` : ''}
+                            </Text>
+                            <Text style={styles.refundHistoryMeta}>
+                              {refundable > 0 ? `${refundable} of ${item.quantity} refundable` : 'Already refunded'}
+                            </Text>
+                            {canRestock && quantity > 0 && (
+                              <TouchableOpacity style={styles.restockToggle} onPress={() => toggleRestockLine(index)}>
+                                <FontAwesome
+                                  name={restockLines.includes(index) ? 'check-square-o' : 'square-o'}
+                                  size={16}
+                                  color="#4B5563"
+                                />
+                                <Text style={styles.refundHistoryMeta}>Return to stock</Text>
+                              </TouchableOpacity>
+                            )}
+                          </View>
+                          <View style={styles.refundStepper}>
+                            <TouchableOpacity
+                              style={styles.refundStepperButton}
+                              onPress={() => handleRefundQuantityChange(selectedOrder, index, -1)}
+                              disabled={quantity === 0}
+                            >
+                              <FontAwesome name="minus" size={12} color="#4B5563" />
+                            </TouchableOpacity>
+                            <Text style={styles.refundStepperValue}>{quantity}</Text>
+                            <TouchableOpacity
+                              style={styles.refundStepperButton}
+                              onPress={() => handleRefundQuantityChange(selectedOrder, index, 1)}
+                              disabled={quantity >= refundable}
+                            >
+                              <FontAwesome name="plus" size={12} color="#4B5563" />
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      );
+                    })
+                  ) : (
+                    <TextInput
+                      style={styles.refundAmountInput}
+                      placeholder={`Amount (max ₱${getRemainingRefundable(selectedOrder).toFixed(2)})`}
+                      value={refundAmountInput}
+                      onChangeText={setRefundAmountInput}
+                      keyboardType="decimal-pad"
+                    />
+                  )}
+
+                  <Text style={styles.refundSubheading}>Refund to</Text>
+                  <View style={styles.refundModeRow}>
+                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+                      .filter(method => method !== 'points' || !!selectedOrder.customerId)
+                      .map(method => (
+                        <TouchableOpacity
+                          key={method}
+                          style={[styles.filterModalButton, getRefundMethod(selectedOrder) === method && styles.filterModalButtonActive]}
+                          onPress={() => setRefundMethod(method)}
+                        >
+                          <Text style={[styles.filterModalButtonText, getRefundMethod(selectedOrder) === method && styles.filterModalButtonTextActive]}>
+                            {PAYMENT_METHOD_LABELS[method]}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                  </View>
+
                   <TextInput
                     style={styles.refundReasonInput}
                     placeholder="Enter reason for refund"
@@ -1412,14 +2300,44 @@ export default function Orders() {
                     numberOfLines={3}
                   />
                   <TouchableOpacity
-                    style={styles.refundButton}
+                    style={[styles.refundButton, isRefunding && { opacity: 0.6 }]}
                     onPress={handleRefund}
+                    disabled={isRefunding}
                   >
-                    <FontAwesome name="undo" size={16} color="#FFFFFF" style={{marginRight: 8}} />
-                    <Text style={styles.refundButtonText}>Process Refund</Text>
+                    {isRefunding ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" style={{marginRight: 8}} />
+                    ) : (
+                      <FontAwesome name="undo" size={16} color="#FFFFFF" style={{marginRight: 8}} />
+                    )}
+                    <Text style={styles.refundButtonText}>
+                      Refund ₱{getRefundTotal(selectedOrder).toFixed(2)}
+                    </Text>
                   </TouchableOpacity>
                 </View>
               )}
+
+              {selectedOrder.status !== 'refunded' && selectedOrder.status !== 'cancelled' && getRemainingRefundable(selectedOrder) > 0 && (
+                <View style={styles.orderModalSection}>
+                  <Text style={styles.orderModalSectionTitle}>Void</Text>
+                  <Text style={styles.orderModalDescription}>
+                    Voids take items off the order for mistakes such as wrong entries. Staff voids need a manager's approval PIN.
+                  </Text>
+                  <View style={styles.refundModeRow}>
+                    <TouchableOpacity
+                      style={styles.voidActionButton}
+                      onPress={() => openVoidModal(selectedOrder, 'items')}
+                    >
+                      <Text style={styles.voidActionButtonText}>Void Items</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.voidActionButton}
+                      onPress={() => openVoidModal(selectedOrder, 'order')}
+                    >
+                      <Text style={styles.voidActionButtonText}>Void Order</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
             </ScrollView>
           )}
         </View>
@@ -1440,8 +2358,10 @@ export default function Orders() {
   const filteredOrders = orders.filter(order => {
     const matchesStatus = selectedStatus === 'all' || order.status === selectedStatus;
     const matchesSource = selectedSource === 'all' || order.source === selectedSource;
+    const matchesTable = selectedTable === 'all' || String(order.tableNumber ?? '') === selectedTable;
     const matchesSearch = !searchOrderCode || 
                          order.id.toLowerCase().includes(searchOrderCode.toLowerCase()) ||
+                         matchesOrderNumber(order, searchOrderCode) ||
                          order.customerName.toLowerCase().includes(searchOrderCode.toLowerCase());
     
     // Add date filtering
@@ -1456,9 +2376,14 @@ export default function Orders() {
       matchesDate = orderDate >= startDateTime && orderDate <= endDateTime;
     }
     
-    return matchesStatus && matchesSource && matchesSearch && matchesDate;
+    return matchesStatus && matchesSource && matchesTable && matchesSearch && matchesDate;
   });
 
+  // Tables that appear on any loaded order, for the table filter
+  const orderTableNumbers = Array.from(
+    new Set(orders.map(order => order.tableNumber).filter((number): number is number => !!number))
+  ).sort((a, b) => a - b);
+
   // Load more function with loading indicator
   const loadMoreOrders = () => {
     setLoadingMore(true); // Start loading indicator
@@ -1496,7 +2421,7 @@ export default function Orders() {
     // Check if more orders exist beyond the initial set
     setHasMoreOrders(filteredOrders.length > ordersPerPage);
     // Depend on the base orders list and all filter criteria
-  }, [orders, selectedStatus, selectedSource, searchOrderCode, filterByDate, startDate, endDate, ordersPerPage]); // Added dependencies: orders, startDate, endDate
+  }, [orders, selectedStatus, selectedSource, selectedTable, searchOrderCode, filterByDate, startDate, endDate, ordersPerPage]); // Added dependencies: orders, startDate, endDate
 
   const renderPointsModal = () => (
     <Modal
@@ -1794,6 +2719,13 @@ export default function Orders() {
               margin-top: 2px; 
             }
             
+            .receipt-note { 
+              font-size: 13px; 
+              font-weight: 700; 
+              color: #C2410C; 
+              margin-top: 2px; 
+            }
+            
             .receipt-item-qty { 
               font-size: 14px; 
               color: #4B5563; 
@@ -1912,7 +2844,7 @@ export default function Orders() {
           <!DOCTYPE html>
           <html>
             <head>
-              <title>Receipt #${selectedOrder.id.slice(-6)}</title>
+              <title>Receipt ${getOrderLabel(selectedOrder)}</title>
               <meta name="viewport" content="width=device-width, initial-scale=1.0">
               ${printStyles}
             </head>
@@ -1921,14 +2853,19 @@ export default function Orders() {
                 <div class="receipt-header">
                   <div class="receipt-title">Brothers' Nook</div>
                   <div class="receipt-subtitle">Receipt</div>
-                  <div class="receipt-orderid">Order #${selectedOrder.id.slice(-6)}</div>
+                  <div class="receipt-orderid">Order ${getOrderLabel(selectedOrder)}</div>
+                  ${selectedOrder.receiptNumber ? `<div class="receipt-date">OR No. ${formatReceiptNumber(selectedOrder.receiptNumber)}</div>` : ''}
                   <div class="receipt-date">${selectedOrder.createdAt?.toLocaleString()}</div>
                 </div>
 
                 <div class="section-title">CUSTOMER INFORMATION</div>
                 <div class="receipt-text">Name: ${selectedOrder.customerName}</div>
-                <div class="receipt-text">Payment: ${selectedOrder.paymentMethod}</div>
-                <div class="receipt-text">Dining: ${selectedOrder.diningMode}</div>
+                <div class="receipt-text">Payment: ${formatPaymentSummary(selectedOrder)}</div>
+                <div class="receipt-text">Dining: ${formatDiningMode(selectedOrder)}</div>
+                ${(selectedOrder.discount?.cardholders || []).map(cardholder =>
+                  `<div class="receipt-text">${selectedOrder.discount!.type} ID: ${cardholder.idNumber} (${cardholder.name})</div>`
+                ).join('')}
+                ${selectedOrder.notes ? `<div class="receipt-note">ORDER NOTE: ${selectedOrder.notes}</div>` : ''}
                 
                 <div class="dotted-divider"></div>
 
@@ -1942,6 +2879,8 @@ export default function Orders() {
               <div class="receipt-item-name">
                 ${item.name}
                 ${item.size ? `<div class="receipt-item-size">Size: ${item.size}</div>` : ''}
+                ${item.modifiers && item.modifiers.length > 0 ? `<div class="receipt-item-size">${formatModifiers(item.modifiers)}</div>` : ''}
+                ${item.note ? `<div class="receipt-note">Note: ${item.note}</div>` : ''}
               </div>
               <div class="receipt-item-qty">x${item.quantity}</div>
               <div class="receipt-item-price">₱${item.total.toFixed(2)}</div>
@@ -1958,6 +2897,14 @@ export default function Orders() {
           receiptHTML += `<div class="receipt-subtotal">Subtotal (net of VAT): ₱${selectedOrder.subtotal.toFixed(2)}</div>`;
         }
         
+        for (const row of getSalesBreakdownRows(selectedOrder)) {
+          receiptHTML += `<div class="receipt-subtotal">${row.label}: ₱${row.amount.toFixed(2)}</div>`;
+        }
+
+        if (selectedOrder.discount && selectedOrder.discount.vatRemoved && listsVatExemptionSeparately(selectedOrder)) {
+          receiptHTML += `<div class="receipt-discount">Less: VAT Exemption: -₱${selectedOrder.discount.vatRemoved.toFixed(2)}</div>`;
+        }
+        
         if (selectedOrder.discount && selectedOrder.discount.amount > 0) {
           receiptHTML += `<div class="receipt-discount">${selectedOrder.discount.type} (${selectedOrder.discount.percentage}%): -₱${selectedOrder.discount.amount.toFixed(2)}</div>`;
         }
@@ -1974,8 +2921,32 @@ export default function Orders() {
           receiptHTML += `<div class="receipt-tax">Service Charge (${selectedOrder.serviceCharge.percentage}%): ₱${selectedOrder.serviceCharge.amount.toFixed(2)}</div>`;
         }
         
-        receiptHTML += `<div class="receipt-total">Total: ₱${selectedOrder.total.toFixed(2)}</div>
-                
+        receiptHTML += `<div class="receipt-total">Total: ₱${selectedOrder.total.toFixed(2)}</div>`;
+        
+        if (getOrderTip(selectedOrder) > 0) {
+          receiptHTML += `<div class="receipt-tax">Tip: ₱${getOrderTip(selectedOrder).toFixed(2)}</div>`;
+        }
+        
+        for (const payment of getOrderPayments(selectedOrder)) {
+          receiptHTML += `<div class="receipt-tax">${formatTenderLabel(payment)}: ₱${payment.amount.toFixed(2)}</div>`;
+        }
+        
+        if (selectedOrder.amountTendered) {
+          receiptHTML += `<div class="receipt-tax">Cash Tendered: ₱${selectedOrder.amountTendered.toFixed(2)}</div>`;
+          receiptHTML += `<div class="receipt-tax">Change: ₱${(selectedOrder.change || 0).toFixed(2)}</div>`;
+        }
+        
+        if ((selectedOrder.voids || []).length > 0 || (selectedOrder.refunds || []).length > 0) {
+          for (const orderVoid of selectedOrder.voids || []) {
+            receiptHTML += `<div class="receipt-tax">${orderVoid.type === 'order' ? 'Voided Order' : 'Voided Items'}: -₱${orderVoid.amount.toFixed(2)}</div>`;
+          }
+          for (const refund of selectedOrder.refunds || []) {
+            receiptHTML += `<div class="receipt-tax">Refund (${getPaymentMethodLabel(refund.method)}): -₱${refund.amount.toFixed(2)}</div>`;
+          }
+          receiptHTML += `<div class="receipt-total">Net Total: ₱${getOrderNetTotal(selectedOrder).toFixed(2)}</div>`;
+        }
+        
+        receiptHTML += `
                 <div class="dotted-divider"></div>
                 
                 <div class="receipt-footer">
@@ -1991,6 +2962,13 @@ export default function Orders() {
                     <div class="receipt-refund-reason">Reason: ${selectedOrder.refundReason || 'No reason provided'}</div>
                   </div>
           `;
+        } else if (selectedOrder.status === 'cancelled' && selectedOrder.voidReason) {
+          receiptHTML += `
+                  <div class="receipt-refunded">
+                    <div class="receipt-refunded-text">VOIDED</div>
+                    <div class="receipt-refund-reason">Reason: ${selectedOrder.voidReason}</div>
+                  </div>
+          `;
         }
         
         receiptHTML += `
@@ -2015,21 +2993,136 @@ export default function Orders() {
       printWindow.document.close();
       
     } else {
-      // For mobile platforms, we need to inform the user about the needed library
-      Alert.alert(
-        'Print Feature',
-        'To enable printing on mobile devices, please install the react-native-print library.',
-        [
-          { text: 'OK' }
-        ]
-      );
+      // Mobile registers print straight to the network thermal printer
+      if (!isPrinterConfigured(printerSettings)) {
+        Alert.alert('Print Feature', 'Set up a receipt printer in Settings > Printer to print receipts.');
+        return;
+      }
+
+      await sendToPrinter(printerSettings, buildEscPosReceipt(selectedOrder, printerSettings.paperWidth));
+      Alert.alert('Success', 'Receipt sent to the printer');
     }
   } catch (error) {
     console.error('Error printing receipt:', error);
-    Alert.alert('Error', 'Failed to print the receipt');
+    Alert.alert('Error', `Failed to print the receipt${error instanceof Error ? `: ${error.message}` : ''}`);
   }
 };
 
+  const renderVoidModal = () => (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={!!voidOrder}
+      onRequestClose={closeVoidModal}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.voidModalContent}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalHeaderContent}>
+              <FontAwesome name="ban" size={22} color="#EF4444" style={{marginRight: 10}} />
+              <Text style={styles.modalTitle}>
+                {voidType === 'order' ? 'Void Order' : 'Void Items'} {voidOrder ? getOrderLabel(voidOrder) : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={closeVoidModal} style={styles.closeButton}>
+              <FontAwesome name="times" size={24} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          {voidOrder && (
+            <ScrollView>
+              {voidOrder.items.map((item, index) => {
+                const voidable = getRefundableQuantity(voidOrder, index);
+                if (voidable === 0) return null;
+                const quantity = voidType === 'order' ? voidable : voidQuantities[index] || 0;
+                return (
+                  <View key={index} style={styles.refundLine}>
+                    <View style={styles.refundLineInfo}>
+                      <Text style={styles.refundLineName}>
+                        {item.name}{item.size ? ` (${item.size})` : ''}
+                      </Text>
+                      <Text style={styles.refundHistoryMeta}>{voidable} on the order</Text>
+                      {!!findInventoryItem(item.name) && quantity > 0 && (
+                        <TouchableOpacity style={styles.restockToggle} onPress={() => toggleVoidRestockLine(index)}>
+                          <FontAwesome
+                            name={voidRestockLines.includes(index) ? 'check-square-o' : 'square-o'}
+                            size={16}
+                            color="#4B5563"
+                          />
+                          <Text style={styles.refundHistoryMeta}>Return to stock</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {voidType === 'order' ? (
+                      <Text style={styles.refundStepperValue}>{quantity}</Text>
+                    ) : (
+                      <View style={styles.refundStepper}>
+                        <TouchableOpacity
+                          style={styles.refundStepperButton}
+                          onPress={() => handleVoidQuantityChange(voidOrder, index, -1)}
+                          disabled={quantity === 0}
+                        >
+                          <FontAwesome name="minus" size={12} color="#4B5563" />
+                        </TouchableOpacity>
+                        <Text style={styles.refundStepperValue}>{quantity}</Text>
+                        <TouchableOpacity
+                          style={styles.refundStepperButton}
+                          onPress={() => handleVoidQuantityChange(voidOrder, index, 1)}
+                          disabled={quantity >= voidable}
+                        >
+                          <FontAwesome name="plus" size={12} color="#4B5563" />
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+
+              <Text style={styles.refundSubheading}>Reason</Text>
+              <TextInput
+                style={styles.refundReasonInput}
+                placeholder="Enter reason for the void"
+                value={voidReason}
+                onChangeText={setVoidReason}
+                multiline
+                numberOfLines={3}
+              />
+
+              {role !== 'owner' && (
+                <>
+                  <Text style={styles.refundSubheading}>Manager Approval</Text>
+                  <TextInput
+                    style={styles.refundAmountInput}
+                    placeholder="Manager PIN"
+                    value={approvalPin}
+                    onChangeText={(text) => /^\d{0,6}$/.test(text) && setApprovalPin(text)}
+                    keyboardType="number-pad"
+                    secureTextEntry
+                  />
+                </>
+              )}
+
+              <TouchableOpacity
+                style={[styles.refundButton, isVoiding && { opacity: 0.6 }]}
+                onPress={handleVoid}
+                disabled={isVoiding}
+              >
+                {isVoiding ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" style={{marginRight: 8}} />
+                ) : (
+                  <FontAwesome name="ban" size={16} color="#FFFFFF" style={{marginRight: 8}} />
+                )}
+                <Text style={styles.refundButtonText}>
+                  Void ₱{getVoidTotal(voidOrder).toFixed(2)}
+                </Text>
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
   // Update the receipt modal to include the print button
   const renderReceiptModal = () => (
     <Modal
@@ -2106,15 +3199,26 @@ export default function Orders() {
                     <View style={styles.receiptHeader}>
                       <Text style={styles.receiptTitle}>Brothers' Nook</Text>
                       <Text style={styles.receiptSubtitle}>Receipt</Text>
-                      <Text style={styles.receiptOrderId}>Order #{selectedOrder.id.slice(-6)}</Text>
+                      <Text style={styles.receiptOrderId}>Order {getOrderLabel(selectedOrder)}</Text>
+                      {!!selectedOrder.receiptNumber && (
+                        <Text style={styles.receiptDate}>OR No. {formatReceiptNumber(selectedOrder.receiptNumber)}</Text>
+                      )}
                       <Text style={styles.receiptDate}>{selectedOrder.createdAt?.toLocaleString()}</Text>
                     </View>
 
                     <View style={styles.receiptSection}>
                       <Text style={styles.receiptSectionTitle}>Customer Information</Text>
                       <Text style={styles.receiptText}>Name: {selectedOrder.customerName}</Text>
-                      <Text style={styles.receiptText}>Payment: {selectedOrder.paymentMethod}</Text>
-                      <Text style={styles.receiptText}>Dining: {selectedOrder.diningMode}</Text>
+                      <Text style={styles.receiptText}>Payment: {formatPaymentSummary(selectedOrder)}</Text>
+                      <Text style={styles.receiptText}>Dining: {formatDiningMode(selectedOrder)}</Text>
+                      {(selectedOrder.discount?.cardholders || []).map(cardholder => (
+                        <Text key={cardholder.idNumber} style={styles.receiptText}>
+                          {selectedOrder.discount!.type} ID: {cardholder.idNumber} ({cardholder.name})
+                        </Text>
+                      ))}
+                      {selectedOrder.notes && (
+                        <Text style={styles.itemNote}>Order Note: {selectedOrder.notes}</Text>
+                      )}
                     </View>
 
                     <View style={styles.receiptSection}>
@@ -2124,6 +3228,10 @@ export default function Orders() {
                           <View style={styles.receiptItemDetails}>
                             <Text style={styles.receiptItemName}>{item.name}</Text>
                             {item.size && <Text style={styles.receiptItemSize}>Size: {item.size}</Text>}
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <Text style={styles.receiptItemSize}>{formatModifiers(item.modifiers)}</Text>
+                            )}
+                            {item.note && <Text style={styles.itemNote}>Note: {item.note}</Text>}
                           </View>
                           <Text style={styles.receiptItemQty}>x{item.quantity}</Text>
                           <Text style={styles.receiptItemPrice}>₱{item.total.toFixed(2)}</Text>
@@ -2136,6 +3244,18 @@ export default function Orders() {
                         <Text style={styles.receiptSubtotalText}>Subtotal (net of VAT): ₱{selectedOrder.subtotal.toFixed(2)}</Text>
                       )}
                       
+                      {getSalesBreakdownRows(selectedOrder).map(row => (
+                        <Text key={row.label} style={styles.receiptSubtotalText}>
+                          {row.label}: ₱{row.amount.toFixed(2)}
+                        </Text>
+                      ))}
+
+                      {selectedOrder.discount && !!selectedOrder.discount.vatRemoved && listsVatExemptionSeparately(selectedOrder) && (
+                        <Text style={styles.receiptDiscountText}>
+                          Less: VAT Exemption: -₱{selectedOrder.discount.vatRemoved.toFixed(2)}
+                        </Text>
+                      )}
+                      
                       {selectedOrder.discount && selectedOrder.discount.amount > 0 && (
                         <Text style={styles.receiptDiscountText}>
                           {selectedOrder.discount.type} ({selectedOrder.discount.percentage}%): -₱{selectedOrder.discount.amount.toFixed(2)}
@@ -2161,6 +3281,47 @@ export default function Orders() {
                       )}
                       
                       <Text style={styles.receiptTotalText}>Total: ₱{selectedOrder.total.toFixed(2)}</Text>
+                      
+                      {getOrderTip(selectedOrder) > 0 && (
+                        <Text style={styles.receiptSubtotalText}>
+                          Tip: ₱{getOrderTip(selectedOrder).toFixed(2)}
+                        </Text>
+                      )}
+                      
+                      {getOrderPayments(selectedOrder).map((payment, index) => (
+                        <Text key={index} style={styles.receiptSubtotalText}>
+                          {formatTenderLabel(payment)}: ₱{payment.amount.toFixed(2)}
+                        </Text>
+                      ))}
+                      
+                      {!!selectedOrder.amountTendered && (
+                        <>
+                          <Text style={styles.receiptSubtotalText}>
+                            Cash Tendered: ₱{selectedOrder.amountTendered.toFixed(2)}
+                          </Text>
+                          <Text style={styles.receiptSubtotalText}>
+                            Change: ₱{(selectedOrder.change || 0).toFixed(2)}
+                          </Text>
+                        </>
+                      )}
+                      
+                      {((selectedOrder.voids || []).length > 0 || (selectedOrder.refunds || []).length > 0) && (
+                        <>
+                          {(selectedOrder.voids || []).map(orderVoid => (
+                            <Text key={orderVoid.id} style={styles.receiptSubtotalText}>
+                              {orderVoid.type === 'order' ? 'Voided Order' : 'Voided Items'}: -₱{orderVoid.amount.toFixed(2)}
+                            </Text>
+                          ))}
+                          {(selectedOrder.refunds || []).map(refund => (
+                            <Text key={refund.id} style={styles.receiptSubtotalText}>
+                              Refund ({getPaymentMethodLabel(refund.method)}): -₱{refund.amount.toFixed(2)}
+                            </Text>
+                          ))}
+                          <Text style={styles.receiptTotalText}>
+                            Net Total: ₱{getOrderNetTotal(selectedOrder).toFixed(2)}
+                          </Text>
+                        </>
+                      )}
                     </View>
                     
                     <View style={styles.receiptFooter}>
@@ -2172,6 +3333,12 @@ export default function Orders() {
                           <Text style={styles.receiptRefundReason}>Reason: {selectedOrder.refundReason || 'No reason provided'}</Text>
                         </View>
                       )}
+                      {selectedOrder.status === 'cancelled' && !!selectedOrder.voidReason && (
+                        <View style={styles.receiptRefunded}>
+                          <Text style={styles.receiptRefundedText}>VOIDED</Text>
+                          <Text style={styles.receiptRefundReason}>Reason: {selectedOrder.voidReason}</Text>
+                        </View>
+                      )}
                     </View>
                   </View>
                 </ViewShot>
@@ -2390,6 +3557,35 @@ export default function Orders() {
                 </View>
               </View>
 
+              {orderTableNumbers.length > 0 && (
+                <View style={styles.filterSection}>
+                  <View style={styles.filterSectionHeader}>
+                    <Text style={styles.filterSectionTitle}>Table</Text>
+                  </View>
+                  <View style={styles.filterButtonsGrid}>
+                    {['all', ...orderTableNumbers.map(String)].map(table => (
+                      <TouchableOpacity
+                        key={table}
+                        style={[
+                          styles.filterModalButton,
+                          selectedTable === table && styles.filterModalButtonActive,
+                        ]}
+                        onPress={() => setSelectedTable(table)}
+                      >
+                        <Text
+                          style={[
+                            styles.filterModalButtonText,
+                            selectedTable === table && styles.filterModalButtonTextActive,
+                          ]}
+                        >
+                          {table === 'all' ? 'All' : `Table ${table}`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
               <View style={styles.filterSection}>
                 <View style={styles.filterSectionHeader}>
                   <Text style={styles.filterSectionTitle}>Date Range</Text>
@@ -2454,7 +3650,7 @@ export default function Orders() {
                   <FontAwesome name="search" size={16} color="#6B7280" style={styles.searchIcon} />
                   <TextInput
                     style={styles.searchInput}
-                    placeholder="Search by order ID or customer name..."
+                    placeholder="Search by order no., OR no., ID or customer name..."
                     value={searchOrderCode}
                     onChangeText={setSearchOrderCode}
                     returnKeyType="search"
@@ -2522,6 +3718,7 @@ export default function Orders() {
       {renderPointsModal()}
       {renderOrderModal()}
       {renderReceiptModal()}
+      {renderVoidModal()}
       {renderDeleteConfirmationModal()}
       <ScrollView style={styles.ordersList}>
         <View style={styles.ordersGrid}>
@@ -2763,6 +3960,116 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  refundModeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  refundSubheading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4B5563',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  refundLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  refundLineInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  refundLineName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  restockToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  refundStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  refundStepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  refundStepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  refundAmountInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+    marginBottom: 12,
+  },
+  voidActionButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  voidActionButtonText: {
+    color: '#EF4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  voidModalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxWidth: 560,
+    maxHeight: '90%',
+  },
+  refundHistoryItem: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E9D5FF',
+  },
+  refundHistoryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  refundHistoryAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#9333EA',
+  },
+  refundHistoryMeta: {
+    fontSize: 13,
+    color: '#4B5563',
+    marginTop: 2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -2887,6 +4194,18 @@ const styles = StyleSheet.create({
     color: '#059669',
     marginTop: 2,
   },
+  markRefundedButton: {
+    backgroundColor: '#9333EA',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginTop: 2,
+  },
+  markRefundedButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   orderInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2946,6 +4265,29 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2,
   },
+  itemNote: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#C2410C',
+    marginTop: 2,
+  },
+  orderNoteBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: '#FFF7ED',
+    borderLeftWidth: 4,
+    borderLeftColor: '#F36514',
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 12,
+  },
+  orderNoteBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#C2410C',
+  },
   itemQuantity: {
     fontSize: 14,
     color: '#4B5563',
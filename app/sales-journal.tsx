@@ -0,0 +1,416 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, ScrollView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { doc, onSnapshot } from 'firebase/firestore';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { db } from '../firebaseConfig';
+import {
+  SalesJournalEntry,
+  SalesJournalTotals,
+  toSalesJournalTotals,
+  loadJournalEntries,
+  buildDailySalesSummary,
+  summarizeByDay,
+  toESalesCsv
+} from '../utils/salesJournal';
+import { getBusinessDate, formatReceiptNumber } from '../utils/orderNumbers';
+
+const ENTRY_LABELS: Record<SalesJournalEntry['type'], string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  void: 'Void'
+};
+
+const peso = (amount: number | null) => (amount === null ? '—' : `₱${amount.toFixed(2)}`);
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export default function SalesJournalScreen() {
+  const [totals, setTotals] = useState<SalesJournalTotals>(toSalesJournalTotals());
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [entries, setEntries] = useState<SalesJournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const businessDate = getBusinessDate(selectedDate);
+  const isToday = businessDate === getBusinessDate();
+  const summary = buildDailySalesSummary(businessDate, entries);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'counters', 'salesJournal'),
+      (snapshot) => {
+        setTotals(toSalesJournalTotals(snapshot.exists() ? snapshot.data() : null));
+      },
+      (error) => {
+        console.error('Error fetching sales journal totals:', error);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  // Refetch when the day changes or a new entry lands
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadJournalEntries(businessDate)
+      .then(dayEntries => {
+        if (!cancelled) setEntries(dayEntries);
+      })
+      .catch(error => {
+        console.error('Error loading sales journal:', error);
+        Alert.alert('Error', 'Failed to load the sales journal');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [businessDate, totals.sequence]);
+
+  const saveCsv = async (fileName: string, csv: string) => {
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, csv);
+    await Sharing.shareAsync(uri, { mimeType: 'text/csv', dialogTitle: 'Export e-Sales Report' });
+  };
+
+  // Exports every day of the selected month, the period the e-sales report is filed for
+  const exportMonth = async () => {
+    setIsExporting(true);
+    try {
+      const monthStart = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1);
+      const monthEnd = new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 0);
+      const monthEntries = await loadJournalEntries(getBusinessDate(monthStart), getBusinessDate(monthEnd));
+      if (monthEntries.length === 0) {
+        Alert.alert('Nothing to Export', 'No sales were recorded this month');
+        return;
+      }
+
+      const month = getBusinessDate(monthStart).slice(0, 7);
+      await saveCsv(`e-sales-${month}.csv`, toESalesCsv(summarizeByDay(monthEntries)));
+    } catch (error) {
+      console.error('Error exporting e-sales report:', error);
+      Alert.alert('Error', 'Failed to export the e-sales report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderRow = (label: string, value: string, bold = false) => (
+    <View key={label} style={styles.summaryRow}>
+      <Text style={[styles.summaryLabel, bold && styles.summaryBold]}>{label}</Text>
+      <Text style={[styles.summaryValue, bold && styles.summaryBold]}>{value}</Text>
+    </View>
+  );
+
+  const renderTotals = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Accumulated Totals</Text>
+      <Text style={styles.cardHint}>Running totals since the journal started. They can't be reset or edited.</Text>
+      {renderRow('Accumulated Grand Total', peso(totals.grandTotal), true)}
+      {renderRow('Refunds', `${totals.refundCount} · ${peso(totals.refundTotal)}`)}
+      {renderRow('Voids', `${totals.voidCount} · ${peso(totals.voidTotal)}`)}
+      {renderRow('Journal Entries', String(totals.sequence))}
+      {renderRow('Reset Counter', String(totals.resetCounter))}
+    </View>
+  );
+
+  const renderDailySummary = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Daily e-Sales Summary</Text>
+      {summary.saleCount + summary.refundCount + summary.voidCount === 0 ? (
+        <Text style={styles.cardHint}>No transactions were recorded on this day.</Text>
+      ) : (
+        <>
+          {renderRow('Beginning OR', formatReceiptNumber(summary.beginningReceipt) || '—')}
+          {renderRow('Ending OR', formatReceiptNumber(summary.endingReceipt) || '—')}
+          {renderRow('Beginning Grand Total', peso(summary.beginningGrandTotal))}
+          {renderRow('Ending Grand Total', peso(summary.endingGrandTotal))}
+          <View style={styles.divider} />
+          {renderRow('Sales', String(summary.saleCount))}
+          {renderRow('Gross Sales', peso(summary.grossSales))}
+          {renderRow('Discounts', peso(summary.discounts))}
+          {renderRow('Service Charges', peso(summary.serviceCharges))}
+          {renderRow(`Refunds (${summary.refundCount})`, `-${peso(summary.refundAmount)}`)}
+          {renderRow(`Voids (${summary.voidCount})`, `-${peso(summary.voidAmount)}`)}
+          {renderRow('Net Sales', peso(summary.netSales), true)}
+          <View style={styles.divider} />
+          {renderRow('VATable Sales', peso(summary.vatableSales))}
+          {renderRow('VAT', peso(summary.vatAmount))}
+          {renderRow('VAT-Exempt Sales', peso(summary.vatExemptSales))}
+          {renderRow('Zero-Rated Sales', peso(summary.zeroRatedSales))}
+          {renderRow('Reset Counter', String(summary.resetCounter))}
+        </>
+      )}
+    </View>
+  );
+
+  const renderEntries = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Journal Entries</Text>
+      {entries.length === 0 ? (
+        <Text style={styles.cardHint}>No entries.</Text>
+      ) : (
+        entries.map(entry => (
+          <View key={entry.sequence} style={styles.entryRow}>
+            <Text style={styles.entrySequence}>{String(entry.sequence).padStart(6, '0')}</Text>
+            <View style={[styles.entryBadge, entry.type !== 'sale' && styles.entryBadgeDeduction]}>
+              <Text style={[styles.entryBadgeText, entry.type !== 'sale' && styles.entryBadgeTextDeduction]}>
+                {ENTRY_LABELS[entry.type]}
+              </Text>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.entryReceipt}>
+                {formatReceiptNumber(entry.receiptNumber) || `Order #${entry.orderId.slice(-6)}`}
+              </Text>
+              <Text style={styles.entryMeta}>
+                {new Date(entry.createdAt).toLocaleTimeString()}{entry.staffName ? ` · ${entry.staffName}` : ''}
+              </Text>
+            </View>
+            <Text style={[styles.entryAmount, entry.type !== 'sale' && styles.entryAmountDeduction]}>
+              {entry.type === 'sale' ? '' : '-'}{peso(entry.amount)}
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <FontAwesome name="arrow-left" size={20} color="#374151" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Sales Journal</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.exportButton, isExporting && styles.buttonDisabled]}
+          onPress={exportMonth}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <FontAwesome name="download" size={16} color="#FFFFFF" />
+              <Text style={styles.exportButtonText}>Export Month (CSV)</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.dateBar}>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => setSelectedDate(addDays(selectedDate, -1))}>
+          <FontAwesome name="chevron-left" size={16} color="#374151" />
+        </TouchableOpacity>
+        <Text style={styles.dateText}>
+          {selectedDate.toLocaleDateString('en-PH', { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' })}
+        </Text>
+        <TouchableOpacity
+          style={[styles.dateArrow, isToday && styles.buttonDisabled]}
+          onPress={() => setSelectedDate(addDays(selectedDate, 1))}
+          disabled={isToday}
+        >
+          <FontAwesome name="chevron-right" size={16} color="#374151" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#F36514" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {renderTotals()}
+          {renderDailySummary()}
+          {renderEntries()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginLeft: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F36514',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  dateBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  dateArrow: {
+    padding: 8,
+  },
+  dateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    minWidth: 240,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+    maxWidth: 720,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  cardHint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  summaryBold: {
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 8,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  entrySequence: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    fontVariant: ['tabular-nums'],
+  },
+  entryBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#DCFCE7',
+  },
+  entryBadgeDeduction: {
+    backgroundColor: '#FEE2E2',
+  },
+  entryBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#166534',
+  },
+  entryBadgeTextDeduction: {
+    color: '#991B1B',
+  },
+  entryReceipt: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  entryAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  entryAmountDeduction: {
+    color: '#EF4444',
+  },
+});
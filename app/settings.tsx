@@ -2,12 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator, ScrollView, Switch, Image, Platform, Modal, FlatList } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { FontAwesome } from '@expo/vector-icons';
-import { doc, getDoc, setDoc, arrayUnion, arrayRemove, updateDoc, DocumentData, DocumentReference, Timestamp, collection, query, where, onSnapshot } from 'firebase/firestore';
+import { doc, getDoc, setDoc, arrayUnion, arrayRemove, updateDoc, deleteField, DocumentData, DocumentReference, Timestamp, collection, query, where, onSnapshot } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
 import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { uploadImage } from '../utils/cloudinary';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { TaxSettings, DEFAULT_TAX_SETTINGS } from '../utils/pricing';
+import { isValidApprovalPin, saveApprovalPin } from '../utils/voids';
+import { PrinterSettings, DEFAULT_PRINTER_SETTINGS, toPrinterSettings, isPrinterConfigured, printTestPage } from '../utils/printer';
+import { PaperWidth } from '../utils/escpos';
+import { PaymentQrCodes } from '../utils/customerDisplay';
+import { QrPhSettings, DEFAULT_QRPH_SETTINGS, toQrPhSettings } from '../utils/qrph';
+import { useUser } from './contexts/UserContext';
 
 interface Banner {
   id: string;
@@ -60,9 +67,14 @@ interface Settings {
   rewards: {
     pointsPerItem: number;
     pointsThreshold: number;
+    pointValue: number; // Peso value of one point when redeemed at checkout
     enabled: boolean;
   };
+  tax: TaxSettings;
+  printer: PrinterSettings;
+  qrPh: QrPhSettings;
   banners: Banner[];
+  paymentQrCodes: PaymentQrCodes;
   bestSellers: {
     products: string[];
   };
@@ -70,6 +82,7 @@ interface Settings {
 }
 
 export default function Settings() {
+  const { user: authUser, role } = useUser();
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('general');
@@ -85,6 +98,12 @@ export default function Settings() {
   const [voucherFormError, setVoucherFormError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successMessage, setSuccessMessage] = useState('Settings saved successfully!');
+  // Kept as text so decimals like "0.50" can be typed
+  const [pointValueInput, setPointValueInput] = useState('1');
+  const [taxRateInput, setTaxRateInput] = useState(String(DEFAULT_TAX_SETTINGS.rate));
+  const [approvalPinInput, setApprovalPinInput] = useState('');
+  const [printerPortInput, setPrinterPortInput] = useState(String(DEFAULT_PRINTER_SETTINGS.port));
+  const [isPrintingTest, setIsPrintingTest] = useState(false);
   const [voucherFormData, setVoucherFormData] = useState<Omit<VoucherSettings, 'id'>>({
     code: '',
     description: '',
@@ -95,6 +114,7 @@ export default function Settings() {
   });
   const [settings, setSettings] = useState<Settings>({
     banners: [],
+    paymentQrCodes: {},
     general: {
       enableNotifications: true,
       notificationSound: true
@@ -107,8 +127,12 @@ export default function Settings() {
     rewards: {
       pointsPerItem: 1,
       pointsThreshold: 100,
+      pointValue: 1,
       enabled: true
     },
+    tax: DEFAULT_TAX_SETTINGS,
+    printer: DEFAULT_PRINTER_SETTINGS,
+    qrPh: DEFAULT_QRPH_SETTINGS,
     bestSellers: {
       products: []
     },
@@ -163,6 +187,7 @@ export default function Settings() {
         setSettings(prev => ({
           ...prev,
           banners: data.banners || [],
+          paymentQrCodes: data.paymentQrCodes || {},
           general: {
             enableNotifications: data.general?.enableNotifications ?? prev.general.enableNotifications,
             notificationSound: data.general?.notificationSound ?? prev.general.notificationSound
@@ -175,13 +200,30 @@ export default function Settings() {
           rewards: {
             pointsPerItem: data.rewards?.pointsPerItem ?? prev.rewards.pointsPerItem,
             pointsThreshold: data.rewards?.pointsThreshold ?? prev.rewards.pointsThreshold,
+            pointValue: data.rewards?.pointValue ?? prev.rewards.pointValue,
             enabled: data.rewards?.enabled ?? prev.rewards.enabled
           },
+          tax: {
+            rate: data.tax?.rate ?? prev.tax.rate,
+            pricesIncludeVat: data.tax?.pricesIncludeVat ?? prev.tax.pricesIncludeVat,
+            label: data.tax?.label ?? prev.tax.label
+          },
+          printer: toPrinterSettings(data.printer),
+          qrPh: toQrPhSettings(data.qrPh),
           bestSellers: {
             products: data.bestSellers?.products || []
           },
           vouchers: migratedVouchers
         }));
+        if (data.rewards?.pointValue !== undefined) {
+          setPointValueInput(String(data.rewards.pointValue));
+        }
+        if (data.tax?.rate !== undefined) {
+          setTaxRateInput(String(data.tax.rate));
+        }
+        if (data.printer?.port !== undefined) {
+          setPrinterPortInput(String(data.printer.port));
+        }
       }
       setIsLoading(false);
     } catch (error) {
@@ -192,6 +234,11 @@ export default function Settings() {
   };
 
   const handleSave = async () => {
+    if (approvalPinInput && !isValidApprovalPin(approvalPinInput)) {
+      Alert.alert('Error', 'Approval PIN must be 4 to 6 digits');
+      return;
+    }
+
     try {
       setIsSaving(true);
       const settingsRef = doc(db, 'settings', 'config');
@@ -201,6 +248,12 @@ export default function Settings() {
         general: settings.general,
         inventory: settings.inventory,
         rewards: settings.rewards,
+        // Tax, printer and QR Ph merchant details are only changed by owners
+        ...(role === 'owner' ? {
+          tax: settings.tax,
+          printer: { ...settings.printer, host: settings.printer.host.trim() },
+          qrPh: settings.qrPh
+        } : {}),
         bestSellers: {
           products: settings.bestSellers.products
         },
@@ -208,6 +261,13 @@ export default function Settings() {
       };
 
       await setDoc(settingsRef, settingsToSave, { merge: true });
+
+      // The approval PIN belongs to the signed-in owner, not the shared config
+      if (approvalPinInput && authUser && role === 'owner') {
+        await saveApprovalPin(approvalPinInput);
+        setApprovalPinInput('');
+      }
+
       setSuccessMessage('Settings saved successfully!');
       setShowSuccessModal(true);
     } catch (error) {
@@ -272,6 +332,127 @@ export default function Settings() {
     </View>
   );
 
+  const handlePrintTest = async () => {
+    if (!isPrinterConfigured(settings.printer)) {
+      Alert.alert('Error', 'Please enter the printer address first');
+      return;
+    }
+
+    try {
+      setIsPrintingTest(true);
+      await printTestPage(settings.printer);
+      Alert.alert('Success', 'Test page sent to the printer');
+    } catch (error) {
+      console.error('Error printing test page:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reach the printer');
+    } finally {
+      setIsPrintingTest(false);
+    }
+  };
+
+  const renderPrinterSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Receipt Printer</Text>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Printer IP Address</Text>
+        <TextInput
+          style={styles.input}
+          value={settings.printer.host}
+          onChangeText={(text) => setSettings(prev => ({
+            ...prev,
+            printer: { ...prev.printer, host: text }
+          }))}
+          placeholder="e.g. 192.168.1.50"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Port</Text>
+        <TextInput
+          style={styles.input}
+          value={printerPortInput}
+          onChangeText={(text) => {
+            if (!/^\d{0,5}$/.test(text)) return;
+            setPrinterPortInput(text);
+            setSettings(prev => ({
+              ...prev,
+              printer: { ...prev.printer, port: parseInt(text, 10) || DEFAULT_PRINTER_SETTINGS.port }
+            }));
+          }}
+          keyboardType="number-pad"
+          placeholder="9100"
+        />
+      </View>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Paper Width</Text>
+        <View style={styles.optionRow}>
+          {([58, 80] as PaperWidth[]).map(width => (
+            <TouchableOpacity
+              key={width}
+              style={[styles.optionButton, settings.printer.paperWidth === width && styles.optionButtonActive]}
+              onPress={() => setSettings(prev => ({
+                ...prev,
+                printer: { ...prev.printer, paperWidth: width }
+              }))}
+            >
+              <Text style={[styles.optionButtonText, settings.printer.paperWidth === width && styles.optionButtonTextActive]}>
+                {width}mm
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {Platform.OS !== 'web' && (
+        <TouchableOpacity
+          style={[styles.optionButton, { alignSelf: 'flex-start' }]}
+          onPress={handlePrintTest}
+          disabled={isPrintingTest}
+        >
+          {isPrintingTest ? (
+            <ActivityIndicator color="#F36514" />
+          ) : (
+            <Text style={styles.optionButtonText}>Print Test Page</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <Text style={styles.sectionDescription}>
+        Receipts are sent straight to an ESC/POS network printer on raw port 9100. The tablet and printer must be on the same network. The test page uses the values above, so you can try them before saving.
+      </Text>
+    </View>
+  );
+
+  const renderApprovalSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Manager Approval</Text>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Your Approval PIN</Text>
+        <TextInput
+          style={styles.input}
+          value={approvalPinInput}
+          onChangeText={(text) => {
+            if (!/^\d{0,6}$/.test(text)) return;
+            setApprovalPinInput(text);
+          }}
+          keyboardType="number-pad"
+          secureTextEntry
+          placeholder="Enter a new 4-6 digit PIN"
+        />
+      </View>
+
+      <Text style={styles.sectionDescription}>
+        Staff need an owner's approval PIN to void items or orders. Leave blank to keep your current PIN.
+      </Text>
+    </View>
+  );
+
   const renderRewardsSettings = () => (
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Customer Rewards</Text>
@@ -323,8 +504,131 @@ export default function Settings() {
         />
       </View>
 
+      <View style={[styles.settingItem, !settings.rewards.enabled && styles.disabledSetting]}>
+        <Text style={styles.settingLabel}>Peso Value Per Point</Text>
+        <TextInput
+          style={[styles.input, !settings.rewards.enabled && styles.disabledInput]}
+          value={pointValueInput}
+          onChangeText={(text) => {
+            if (text !== '' && !/^\d*\.?\d*$/.test(text)) return;
+            setPointValueInput(text);
+            setSettings(prev => ({
+              ...prev,
+              rewards: { ...prev.rewards, pointValue: parseFloat(text) || 0 }
+            }));
+          }}
+          keyboardType="decimal-pad"
+          placeholder="Enter peso value per point"
+          editable={settings.rewards.enabled}
+        />
+      </View>
+
+      <Text style={styles.sectionDescription}>
+        These settings control how customers earn and redeem reward points. Points are earned for each item purchased and can be redeemed when reaching the threshold, or used at the register as a payment worth the peso value per point.
+      </Text>
+    </View>
+  );
+
+  const renderTaxSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Tax</Text>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Tax Label</Text>
+        <TextInput
+          style={styles.input}
+          value={settings.tax.label}
+          onChangeText={(text) => setSettings(prev => ({
+            ...prev,
+            tax: { ...prev.tax, label: text }
+          }))}
+          placeholder="e.g. VAT"
+        />
+      </View>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Tax Rate (%)</Text>
+        <TextInput
+          style={styles.input}
+          value={taxRateInput}
+          onChangeText={(text) => {
+            if (text !== '' && !/^\d*\.?\d*$/.test(text)) return;
+            setTaxRateInput(text);
+            setSettings(prev => ({
+              ...prev,
+              tax: { ...prev.tax, rate: parseFloat(text) || 0 }
+            }));
+          }}
+          keyboardType="decimal-pad"
+          placeholder="Enter tax rate"
+        />
+      </View>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Prices Include Tax</Text>
+        <Switch
+          value={settings.tax.pricesIncludeVat}
+          onValueChange={(value) => setSettings(prev => ({
+            ...prev,
+            tax: { ...prev.tax, pricesIncludeVat: value }
+          }))}
+        />
+      </View>
+
       <Text style={styles.sectionDescription}>
-        These settings control how customers earn and redeem reward points. Points are earned for each item purchased and can be redeemed when reaching the threshold.
+        When prices include tax, the register backs the tax out of each VATable item's price. Otherwise tax is added on top at checkout. Set each product's tax class (VATable, VAT-exempt or zero-rated) in Add Items.
+      </Text>
+    </View>
+  );
+
+  const qrPhFields: { key: Exclude<keyof QrPhSettings, 'enabled'>; label: string; placeholder: string }[] = [
+    { key: 'merchantName', label: 'Merchant Name', placeholder: 'Name shown in the customer\'s app' },
+    { key: 'merchantCity', label: 'Merchant City', placeholder: 'e.g. Quezon City' },
+    { key: 'postalCode', label: 'Postal Code', placeholder: 'Optional' },
+    { key: 'merchantCategoryCode', label: 'Merchant Category Code', placeholder: '5814' },
+    { key: 'acquirerId', label: 'Acquirer ID (BIC)', placeholder: 'From your acquiring bank or e-wallet' },
+    { key: 'merchantId', label: 'Merchant ID', placeholder: 'From your acquiring bank or e-wallet' }
+  ];
+
+  const renderQrPhSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>QR Ph Payments</Text>
+
+      <View style={styles.settingItem}>
+        <Text style={styles.settingLabel}>Generate QR Ph Codes</Text>
+        <Switch
+          value={settings.qrPh.enabled}
+          onValueChange={(value) => setSettings(prev => ({
+            ...prev,
+            qrPh: { ...prev.qrPh, enabled: value }
+          }))}
+        />
+      </View>
+
+      {qrPhFields.map(field => (
+        <View key={field.key} style={[styles.settingItem, !settings.qrPh.enabled && styles.disabledSetting]}>
+          <Text style={styles.settingLabel}>{field.label}</Text>
+          <TextInput
+            style={[styles.input, !settings.qrPh.enabled && styles.disabledInput]}
+            value={settings.qrPh[field.key]}
+            onChangeText={(text) => setSettings(prev => ({
+              ...prev,
+              qrPh: { ...prev.qrPh, [field.key]: text }
+            }))}
+            placeholder={field.placeholder}
+            autoCapitalize={field.key === 'merchantName' || field.key === 'merchantCity' ? 'words' : 'characters'}
+            autoCorrect={false}
+            keyboardType={field.key === 'merchantCategoryCode' || field.key === 'postalCode' ? 'number-pad' : 'default'}
+            editable={settings.qrPh.enabled}
+          />
+        </View>
+      ))}
+
+      <Text style={styles.sectionDescription}>
+        When GCash or Maya is chosen at checkout, the register shows a QR Ph code for the exact amount on screen and on
+        the customer display. Its reference is the business date and order number (e.g. 20261019-42) and is saved with
+        the payment, so e-wallet settlements can be matched to orders. Get these details from your acquiring bank or
+        e-wallet merchant account.
       </Text>
     </View>
   );
@@ -444,6 +748,110 @@ export default function Settings() {
     }
   };
 
+  const renderDisplaySettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Customer Display</Text>
+
+      {(['gcash', 'maya'] as const).map(method => (
+        <View key={method} style={styles.settingItem}>
+          <Text style={styles.settingLabel}>{method === 'gcash' ? 'GCash' : 'Maya'} QR Code</Text>
+          {settings.paymentQrCodes[method] ? (
+            <View style={[styles.bannerItem, styles.paymentQrItem]}>
+              <Image
+                source={{ uri: settings.paymentQrCodes[method] }}
+                style={styles.bannerPreview}
+                resizeMode="contain"
+              />
+              <TouchableOpacity
+                style={styles.deleteBannerButton}
+                onPress={() => handleDeletePaymentQr(method)}
+              >
+                <FontAwesome name="trash" size={20} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.addBannerButton}
+              onPress={() => handleUploadPaymentQr(method)}
+              disabled={isUploadingImage}
+            >
+              {isUploadingImage ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <>
+                  <FontAwesome name="qrcode" size={20} color="#FFFFFF" />
+                  <Text style={styles.addBannerButtonText}>Upload QR Code</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      <Text style={styles.sectionDescription}>
+        Open /customer-display in a second browser window or on a tablet signed in with the cashier's account
+        to show customers their order. Banners play while the cart is empty, and the QR code for the chosen
+        e-wallet appears during payment.
+      </Text>
+    </View>
+  );
+
+  const handleUploadPaymentQr = async (method: keyof PaymentQrCodes) => {
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      
+      if (!permissionResult.granted) {
+        Alert.alert('Permission Required', 'You need to grant permission to access your photos');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 1,
+      });
+
+      if (!result.canceled && result.assets && result.assets.length > 0) {
+        setIsUploadingImage(true);
+        const uploadResult = await uploadImage(result.assets[0].uri);
+
+        if (uploadResult?.secure_url) {
+          const settingsRef = doc(db, 'settings', 'config');
+          await setDoc(settingsRef, {
+            paymentQrCodes: { [method]: uploadResult.secure_url }
+          }, { merge: true });
+
+          setSettings(prev => ({
+            ...prev,
+            paymentQrCodes: { ...prev.paymentQrCodes, [method]: uploadResult.secure_url }
+          }));
+        } else {
+          Alert.alert('Error', 'Failed to upload image to cloud storage');
+        }
+      }
+    } catch (error) {
+      console.error('Error uploading payment QR code:', error);
+      Alert.alert('Error', 'Failed to upload QR code');
+    } finally {
+      setIsUploadingImage(false);
+    }
+  };
+
+  const handleDeletePaymentQr = async (method: keyof PaymentQrCodes) => {
+    try {
+      await updateDoc(doc(db, 'settings', 'config'), {
+        [`paymentQrCodes.${method}`]: deleteField()
+      });
+
+      setSettings(prev => {
+        const { [method]: _removed, ...paymentQrCodes } = prev.paymentQrCodes;
+        return { ...prev, paymentQrCodes };
+      });
+    } catch (error) {
+      console.error('Error deleting payment QR code:', error);
+      Alert.alert('Error', 'Failed to delete QR code');
+    }
+  };
+
   const renderBestSellersSettings = () => {
     const selectedProducts = products.filter(product => 
       settings.bestSellers.products.includes(product.id)
@@ -923,12 +1331,42 @@ export default function Settings() {
           >
             <Text style={[styles.tabText, activeTab === 'rewards' && styles.activeTabText]}>Rewards</Text>
           </TouchableOpacity>
+          {role === 'owner' && (
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'tax' && styles.activeTab]}
+              onPress={() => setActiveTab('tax')}
+            >
+              <Text style={[styles.tabText, activeTab === 'tax' && styles.activeTabText]}>Tax</Text>
+            </TouchableOpacity>
+          )}
+          {role === 'owner' && (
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'printer' && styles.activeTab]}
+              onPress={() => setActiveTab('printer')}
+            >
+              <Text style={[styles.tabText, activeTab === 'printer' && styles.activeTabText]}>Printer</Text>
+            </TouchableOpacity>
+          )}
+          {role === 'owner' && (
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'qrPh' && styles.activeTab]}
+              onPress={() => setActiveTab('qrPh')}
+            >
+              <Text style={[styles.tabText, activeTab === 'qrPh' && styles.activeTabText]}>QR Ph</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={[styles.tab, activeTab === 'banners' && styles.activeTab]}
             onPress={() => setActiveTab('banners')}
           >
             <Text style={[styles.tabText, activeTab === 'banners' && styles.activeTabText]}>Banners</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tab, activeTab === 'display' && styles.activeTab]}
+            onPress={() => setActiveTab('display')}
+          >
+            <Text style={[styles.tabText, activeTab === 'display' && styles.activeTabText]}>Display</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.tab, activeTab === 'bestSellers' && styles.activeTab]}
             onPress={() => setActiveTab('bestSellers')}
@@ -946,8 +1384,13 @@ export default function Settings() {
 
       <ScrollView style={styles.content}>
         {activeTab === 'general' && renderGeneralSettings()}
+        {activeTab === 'general' && role === 'owner' && renderApprovalSettings()}
         {activeTab === 'rewards' && renderRewardsSettings()}
+        {activeTab === 'tax' && role === 'owner' && renderTaxSettings()}
+        {activeTab === 'printer' && role === 'owner' && renderPrinterSettings()}
+        {activeTab === 'qrPh' && role === 'owner' && renderQrPhSettings()}
         {activeTab === 'banners' && renderBannerSettings()}
+        {activeTab === 'display' && renderDisplaySettings()}
         {activeTab === 'bestSellers' && renderBestSellersSettings()}
         {activeTab === 'vouchers' && renderVoucherSettings()}
 
@@ -1112,6 +1555,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     objectFit: 'cover',
   },
+  paymentQrItem: {
+    width: 200,
+  },
   deleteBannerButton: {
     position: 'absolute',
     top: 8,
@@ -1228,6 +1674,31 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     backgroundColor: '#FFFFFF',
   },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+  },
+  optionButtonActive: {
+    borderColor: '#F36514',
+    backgroundColor: '#FFF7ED',
+  },
+  optionButtonText: {
+    fontSize: 15,
+    color: '#4B5563',
+    fontWeight: '500',
+  },
+  optionButtonTextActive: {
+    color: '#F36514',
+    fontWeight: '600',
+  },
   disabledSetting: {
     opacity: 0.5,
   },
@@ -0,0 +1,906 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, ScrollView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { collection, onSnapshot, query, where, doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { useUser } from './contexts/UserContext';
+import {
+  Shift,
+  ShiftReport,
+  ShiftStaff,
+  toShift,
+  subscribeToOpenShift,
+  openShift as startShift,
+  recordCashMovement,
+  loadShiftOrders,
+  buildShiftReport,
+  closeShift,
+  getShiftReportSections
+} from '../utils/shifts';
+import { getQueuedOrders } from '../utils/orderQueue';
+import { createEscPosBuilder } from '../utils/escpos';
+import { isPrinterConfigured, loadPrinterSettings, sendToPrinter } from '../utils/printer';
+
+interface ReportView {
+  title: string;       // "X-READ" or "Z-READ #12"
+  shift: Shift;
+  report: ShiftReport;
+}
+
+const RECENT_SHIFT_LIMIT = 10;
+
+const formatDateTime = (date: Date | null) =>
+  date ? date.toLocaleString('en-PH', { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return isNaN(amount) ? null : amount;
+};
+
+export default function ShiftsScreen() {
+  const { user: authUser } = useUser();
+  const [openShift, setOpenShift] = useState<Shift | null>(null);
+  const [recentShifts, setRecentShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Opening float
+  const [floatInput, setFloatInput] = useState('');
+
+  // Cash in / out
+  const [movementType, setMovementType] = useState<'in' | 'out'>('in');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+
+  // Close shift (blind count)
+  const [showCloseModal, setShowCloseModal] = useState(false);
+  const [countedInput, setCountedInput] = useState('');
+  // Offline orders still queued when Close Shift was pressed; the cashier confirms before closing
+  const [unsyncedCount, setUnsyncedCount] = useState(0);
+
+  const [reportView, setReportView] = useState<ReportView | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToOpenShift((shift) => {
+      setOpenShift(shift);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'shifts'), where('status', '==', 'closed')),
+      (snapshot) => {
+        const shifts = snapshot.docs
+          .map(shiftDoc => toShift(shiftDoc.id, shiftDoc.data()))
+          .sort((a, b) => (b.closedAt?.getTime() || 0) - (a.closedAt?.getTime() || 0))
+          .slice(0, RECENT_SHIFT_LIMIT);
+        setRecentShifts(shifts);
+      },
+      (error) => {
+        console.error('Error fetching closed shifts:', error);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const getStaff = async (): Promise<ShiftStaff> => {
+    if (!authUser) {
+      throw new Error('You must be logged in');
+    }
+    const userDoc = await getDoc(doc(db, 'users', authUser.uid));
+    return {
+      staffId: authUser.uid,
+      staffName: userDoc.exists() ? userDoc.data().name : 'Unknown Staff',
+      staffEmail: authUser.email || ''
+    };
+  };
+
+  const handleOpenShift = async () => {
+    const openingFloat = parseAmount(floatInput);
+    if (openingFloat === null || openingFloat < 0) {
+      Alert.alert('Error', 'Please enter the cash in the drawer');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await startShift(openingFloat, await getStaff());
+      setFloatInput('');
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to open shift');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCashMovement = async () => {
+    if (!openShift) return;
+
+    const amount = parseAmount(movementAmount);
+    if (amount === null || amount <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+    if (!movementReason.trim()) {
+      Alert.alert('Error', 'Please enter a reason');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const staff = await getStaff();
+      await recordCashMovement(openShift.id, {
+        type: movementType,
+        amount,
+        reason: movementReason.trim(),
+        staffName: staff.staffName,
+        staffEmail: staff.staffEmail,
+        createdAt: new Date().toISOString()
+      });
+      setMovementAmount('');
+      setMovementReason('');
+    } catch (error) {
+      console.error('Error recording cash movement:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record cash movement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleXRead = async () => {
+    if (!openShift) return;
+
+    setIsSaving(true);
+    try {
+      const orders = await loadShiftOrders(openShift);
+      setReportView({ title: 'X-READ', shift: openShift, report: buildShiftReport(openShift, orders) });
+    } catch (error) {
+      console.error('Error generating X-read:', error);
+      Alert.alert('Error', 'Failed to generate X-read');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitCloseShift = async (countedCash: number) => {
+    if (!openShift) return;
+
+    setIsSaving(true);
+    try {
+      const orders = await loadShiftOrders(openShift);
+      const report = buildShiftReport(openShift, orders, countedCash);
+      const closedBy = await getStaff();
+      const zReadNumber = await closeShift(openShift, report, closedBy);
+
+      setShowCloseModal(false);
+      setCountedInput('');
+      setUnsyncedCount(0);
+      setReportView({
+        title: `Z-READ #${zReadNumber}`,
+        shift: { ...openShift, status: 'closed', closedBy, closedAt: new Date(), countedCash, zReadNumber, zReport: report },
+        report
+      });
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to close shift');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    const countedCash = parseAmount(countedInput);
+    if (countedCash === null || countedCash < 0) {
+      Alert.alert('Error', 'Please enter the cash counted in the drawer');
+      return;
+    }
+
+    // Offline orders still in the queue won't be in the report until they sync, so the
+    // first press warns about them and a second press closes anyway
+    if (unsyncedCount === 0) {
+      const unsynced = (await getQueuedOrders()).filter(order => order.status !== 'synced');
+      if (unsynced.length > 0) {
+        setUnsyncedCount(unsynced.length);
+        return;
+      }
+    }
+
+    submitCloseShift(countedCash);
+  };
+
+  const viewZRead = (shift: Shift) => {
+    if (!shift.zReport) {
+      Alert.alert('Z-Read', 'No report was saved for this shift');
+      return;
+    }
+    setReportView({ title: `Z-READ #${shift.zReadNumber}`, shift, report: shift.zReport });
+  };
+
+  const getReportHeader = ({ shift }: ReportView) => [
+    { label: 'Opened', value: `${formatDateTime(shift.openedAt)} · ${shift.openedBy?.staffName || ''}` },
+    ...(shift.closedAt ? [{ label: 'Closed', value: `${formatDateTime(shift.closedAt)} · ${shift.closedBy?.staffName || ''}` }] : []),
+    { label: 'Printed', value: formatDateTime(new Date()) }
+  ];
+
+  const printReport = async () => {
+    if (!reportView) return;
+
+    setIsPrinting(true);
+    try {
+      const sections = getShiftReportSections(reportView.report);
+
+      if (Platform.OS === 'web') {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+          Alert.alert('Error', 'Unable to open print window. Please check your pop-up blocker settings.');
+          return;
+        }
+
+        const rowHTML = (label: string, value: string, bold?: boolean) =>
+          `<div class="row${bold ? ' bold' : ''}"><span>${label}</span><span>${value}</span></div>`;
+
+        printWindow.document.open();
+        printWindow.document.write(`
+          <html>
+            <head>
+              <title>${reportView.title}</title>
+              <style>
+                body { font-family: Arial, sans-serif; width: 80mm; margin: 0 auto; padding: 10px; font-size: 12px; }
+                h1 { text-align: center; font-size: 16px; margin: 4px 0; }
+                h2 { font-size: 13px; margin: 10px 0 4px; border-bottom: 1px dashed #000; }
+                .row { display: flex; justify-content: space-between; margin: 2px 0; }
+                .bold { font-weight: bold; }
+              </style>
+            </head>
+            <body>
+              <h1>Brothers' Nook</h1>
+              <h1>${reportView.title}</h1>
+              ${getReportHeader(reportView).map(row => rowHTML(row.label, row.value)).join('')}
+              ${sections.map(section => `
+                <h2>${section.title}</h2>
+                ${section.rows.map(row => rowHTML(row.label, row.value, row.bold)).join('')}
+              `).join('')}
+              <script>
+                window.onload = function() {
+                  setTimeout(function() { window.print(); }, 500);
+                };
+              </script>
+            </body>
+          </html>
+        `);
+        printWindow.document.close();
+        return;
+      }
+
+      const printerSettings = await loadPrinterSettings();
+      if (!isPrinterConfigured(printerSettings)) {
+        Alert.alert('Print Feature', 'Set up a receipt printer in Settings > Printer to print reports.');
+        return;
+      }
+
+      const receipt = createEscPosBuilder(printerSettings.paperWidth)
+        .text("Brothers' Nook", { align: 'center', bold: true, large: true })
+        .text(reportView.title, { align: 'center', bold: true });
+      getReportHeader(reportView).forEach(row => receipt.text(`${row.label}: ${row.value}`));
+      sections.forEach(section => {
+        receipt.divider().text(section.title.toUpperCase(), { bold: true });
+        section.rows.forEach(row => receipt.row(row.label, row.value, { bold: row.bold }));
+      });
+      receipt.divider().feed(2).cut();
+
+      await sendToPrinter(printerSettings, receipt.toBytes());
+      Alert.alert('Success', 'Report sent to the printer');
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      Alert.alert('Error', `Failed to print report${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const renderOpenShiftForm = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Open a Shift</Text>
+      <Text style={styles.cardHint}>Count the cash in the drawer before the first sale of the day.</Text>
+      <Text style={styles.inputLabel}>Opening Float (₱)</Text>
+      <TextInput
+        style={styles.input}
+        value={floatInput}
+        onChangeText={setFloatInput}
+        keyboardType="decimal-pad"
+        placeholder="0.00"
+      />
+      <TouchableOpacity
+        style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+        onPress={handleOpenShift}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <>
+            <FontAwesome name="unlock" size={16} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>Open Shift</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderCurrentShift = (shift: Shift) => (
+    <>
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>Current Shift</Text>
+          <View style={styles.statusPill}>
+            <Text style={styles.statusPillText}>OPEN</Text>
+          </View>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Opened by</Text>
+          <Text style={styles.infoValue}>{shift.openedBy?.staffName || shift.openedBy?.staffEmail}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Opened at</Text>
+          <Text style={styles.infoValue}>{formatDateTime(shift.openedAt)}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Opening float</Text>
+          <Text style={styles.infoValue}>₱{shift.openingFloat.toFixed(2)}</Text>
+        </View>
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.secondaryButton, isSaving && styles.buttonDisabled]}
+            onPress={handleXRead}
+            disabled={isSaving}
+          >
+            <FontAwesome name="file-text-o" size={16} color="#374151" />
+            <Text style={styles.secondaryButtonText}>X-Read</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.dangerButton, isSaving && styles.buttonDisabled]}
+            onPress={() => setShowCloseModal(true)}
+            disabled={isSaving}
+          >
+            <FontAwesome name="lock" size={16} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>Close Shift</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Cash In / Out</Text>
+        <View style={styles.toggleRow}>
+          {(['in', 'out'] as const).map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.toggleButton, movementType === type && styles.toggleButtonActive]}
+              onPress={() => setMovementType(type)}
+            >
+              <Text style={[styles.toggleButtonText, movementType === type && styles.toggleButtonTextActive]}>
+                {type === 'in' ? 'Cash In' : 'Cash Out'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.inputLabel}>Amount (₱)</Text>
+        <TextInput
+          style={styles.input}
+          value={movementAmount}
+          onChangeText={setMovementAmount}
+          keyboardType="decimal-pad"
+          placeholder="0.00"
+        />
+        <Text style={styles.inputLabel}>Reason</Text>
+        <TextInput
+          style={styles.input}
+          value={movementReason}
+          onChangeText={setMovementReason}
+          placeholder={movementType === 'in' ? 'e.g. Change fund top-up' : 'e.g. Paid supplier for ice'}
+        />
+        <TouchableOpacity
+          style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+          onPress={handleCashMovement}
+          disabled={isSaving}
+        >
+          <Text style={styles.primaryButtonText}>Record {movementType === 'in' ? 'Cash In' : 'Cash Out'}</Text>
+        </TouchableOpacity>
+
+        {shift.cashMovements.length > 0 && (
+          <View style={styles.movementList}>
+            {[...shift.cashMovements].reverse().map((movement, index) => (
+              <View key={`${movement.createdAt}-${index}`} style={styles.movementRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.movementReason}>{movement.reason}</Text>
+                  <Text style={styles.movementMeta}>
+                    {formatDateTime(new Date(movement.createdAt))} · {movement.staffName}
+                  </Text>
+                </View>
+                <Text style={[styles.movementAmount, movement.type === 'out' && styles.movementOut]}>
+                  {movement.type === 'out' ? '-' : '+'}₱{movement.amount.toFixed(2)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    </>
+  );
+
+  const renderRecentShifts = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Recent Z-Reads</Text>
+      {recentShifts.length === 0 ? (
+        <Text style={styles.cardHint}>No closed shifts yet.</Text>
+      ) : (
+        recentShifts.map(shift => (
+          <TouchableOpacity key={shift.id} style={styles.shiftRow} onPress={() => viewZRead(shift)}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.shiftRowTitle}>Z-Read #{shift.zReadNumber}</Text>
+              <Text style={styles.movementMeta}>
+                {formatDateTime(shift.openedAt)} – {formatDateTime(shift.closedAt)}
+              </Text>
+            </View>
+            {shift.zReport?.variance != null && (
+              <Text style={[
+                styles.movementAmount,
+                shift.zReport.variance < 0 && styles.movementOut
+              ]}>
+                {shift.zReport.variance < 0 ? 'Short' : shift.zReport.variance > 0 ? 'Over' : 'Balanced'}
+                {shift.zReport.variance !== 0 ? ` ₱${Math.abs(shift.zReport.variance).toFixed(2)}` : ''}
+              </Text>
+            )}
+            <FontAwesome name="chevron-right" size={14} color="#9CA3AF" style={{ marginLeft: 12 }} />
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+
+  const renderCloseModal = () => (
+    <Modal
+      visible={showCloseModal}
+      transparent
+      animationType="fade"
+      onRequestClose={() => {
+        setShowCloseModal(false);
+        setUnsyncedCount(0);
+      }}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>Close Shift</Text>
+          <Text style={styles.cardHint}>
+            Count all the cash in the drawer and enter the total. The expected amount is shown on the Z-read.
+          </Text>
+          <Text style={styles.inputLabel}>Counted Cash (₱)</Text>
+          <TextInput
+            style={styles.input}
+            value={countedInput}
+            onChangeText={setCountedInput}
+            keyboardType="decimal-pad"
+            placeholder="0.00"
+            autoFocus
+          />
+          {unsyncedCount > 0 && (
+            <View style={styles.warningBox}>
+              <Text style={styles.warningText}>
+                {unsyncedCount} order(s) haven't synced yet and won't be included in the Z-read. Close the shift anyway?
+              </Text>
+            </View>
+          )}
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton]}
+              onPress={() => {
+                setShowCloseModal(false);
+                setCountedInput('');
+                setUnsyncedCount(0);
+              }}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.closeButton, isSaving && styles.buttonDisabled]}
+              onPress={handleCloseShift}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>{unsyncedCount > 0 ? 'Close Anyway' : 'Close Shift'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderReportModal = () => (
+    <Modal
+      visible={!!reportView}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setReportView(null)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContainer, styles.reportContainer]}>
+          {reportView && (
+            <>
+              <Text style={styles.reportTitle}>{reportView.title}</Text>
+              <ScrollView style={styles.reportBody}>
+                {getReportHeader(reportView).map(row => (
+                  <Text key={row.label} style={styles.reportMeta}>{row.label}: {row.value}</Text>
+                ))}
+                {getShiftReportSections(reportView.report).map(section => (
+                  <View key={section.title} style={styles.reportSection}>
+                    <Text style={styles.reportSectionTitle}>{section.title}</Text>
+                    {section.rows.map(row => (
+                      <View key={row.label} style={styles.reportRow}>
+                        <Text style={[styles.reportLabel, row.bold && styles.reportBold]}>{row.label}</Text>
+                        <Text style={[styles.reportValue, row.bold && styles.reportBold]}>{row.value}</Text>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+              </ScrollView>
+              <View style={styles.modalButtons}>
+                <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={() => setReportView(null)}>
+                  <Text style={styles.cancelButtonText}>Close</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.saveButton, isPrinting && styles.buttonDisabled]}
+                  onPress={printReport}
+                  disabled={isPrinting}
+                >
+                  {isPrinting ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Print</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#F36514" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="arrow-left" size={20} color="#374151" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Shifts</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {openShift ? renderCurrentShift(openShift) : renderOpenShiftForm()}
+        {renderRecentShifts()}
+      </ScrollView>
+
+      {renderCloseModal()}
+      {renderReportModal()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginLeft: 12,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+    maxWidth: 720,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  cardHint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  statusPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#DCFCE7',
+    marginBottom: 12,
+  },
+  statusPillText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#166534',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  infoValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#F36514',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#EF4444',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 14,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+  },
+  toggleButtonActive: {
+    backgroundColor: '#F36514',
+    borderColor: '#F36514',
+  },
+  toggleButtonText: {
+    color: '#374151',
+    fontWeight: '500',
+  },
+  toggleButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 14,
+  },
+  movementList: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  movementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  movementReason: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  movementMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  movementAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  movementOut: {
+    color: '#EF4444',
+  },
+  shiftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  shiftRowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: '40%',
+    maxWidth: 400,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 16,
+  },
+  warningBox: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#92400E',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    color: '#374151',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#F36514',
+  },
+  closeButton: {
+    backgroundColor: '#EF4444',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  reportContainer: {
+    maxHeight: '85%',
+  },
+  reportTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  reportBody: {
+    marginBottom: 16,
+  },
+  reportMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  reportSection: {
+    marginTop: 14,
+  },
+  reportSectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    paddingBottom: 4,
+    marginBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  reportLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  reportValue: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  reportBold: {
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+});
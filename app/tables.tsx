@@ -0,0 +1,910 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { collection, onSnapshot, doc, addDoc, updateDoc, deleteDoc, getDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { useUser } from './contexts/UserContext';
+import { useNetwork } from './contexts/networkcontext';
+import {
+  DiningTable,
+  FLOOR_COLUMNS,
+  FLOOR_ROWS,
+  toDiningTable,
+  isTableOccupied,
+  getTableAt,
+  getNextTableNumber,
+  formatOccupiedDuration,
+  moveTableOrders
+} from '../utils/tables';
+import { getOrderLabel } from '../utils/orderNumbers';
+
+type MoveMode = 'transfer' | 'merge';
+
+// An action waiting on the confirm modal; Alert.alert buttons don't show on web
+interface PendingConfirm {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: () => Promise<void>;
+}
+
+interface TableOrderSummary {
+  id: string;
+  orderNumber: number | null;
+  total: number | null;
+  itemCount: number;
+  synced: boolean;
+}
+
+export default function TablesScreen() {
+  const { role } = useUser();
+  const { isOffline } = useNetwork();
+  const [tables, setTables] = useState<DiningTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [moveMode, setMoveMode] = useState<MoveMode | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [tableOrders, setTableOrders] = useState<TableOrderSummary[]>([]);
+
+  // Add / edit table modal
+  const [showTableModal, setShowTableModal] = useState(false);
+  const [editingTableId, setEditingTableId] = useState<string | null>(null);
+  const [pendingCell, setPendingCell] = useState<{ x: number; y: number } | null>(null);
+  const [tableNumberInput, setTableNumberInput] = useState('');
+  const [seatsInput, setSeatsInput] = useState('');
+
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+
+  const isOwner = role === 'owner';
+  const selectedTable = tables.find(table => table.id === selectedTableId) || null;
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, 'tables'),
+      (snapshot) => {
+        const tableList = snapshot.docs
+          .map(tableDoc => toDiningTable(tableDoc.id, tableDoc.data()))
+          .sort((a, b) => a.number - b.number);
+        setTables(tableList);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading tables:', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  // Keeps the "occupied for" timers current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedTable || selectedTable.orderIds.length === 0) {
+      setTableOrders([]);
+      return;
+    }
+    loadTableOrders(selectedTable.orderIds);
+  }, [selectedTableId, selectedTable?.orderIds.join(',')]);
+
+  const loadTableOrders = async (orderIds: string[]) => {
+    try {
+      const summaries = await Promise.all(orderIds.map(async (orderId) => {
+        const orderDoc = await getDoc(doc(db, 'orders', orderId));
+        if (!orderDoc.exists()) {
+          // Still in the register's offline queue
+          return { id: orderId, orderNumber: null, total: null, itemCount: 0, synced: false };
+        }
+        const data = orderDoc.data();
+        return {
+          id: orderId,
+          orderNumber: data.orderNumber ?? null,
+          total: data.total ?? null,
+          itemCount: (data.items || []).reduce((sum: number, item: { quantity: number }) => sum + (item.quantity || 0), 0),
+          synced: true
+        };
+      }));
+      setTableOrders(summaries);
+    } catch (error) {
+      console.error('Error loading table orders:', error);
+    }
+  };
+
+  const openNewTableModal = (x: number, y: number) => {
+    setEditingTableId(null);
+    setPendingCell({ x, y });
+    setTableNumberInput(String(getNextTableNumber(tables)));
+    setSeatsInput('4');
+    setShowTableModal(true);
+  };
+
+  const openEditTableModal = (table: DiningTable) => {
+    setEditingTableId(table.id);
+    setPendingCell(null);
+    setTableNumberInput(String(table.number));
+    setSeatsInput(String(table.seats));
+    setShowTableModal(true);
+  };
+
+  const closeTableModal = () => {
+    setShowTableModal(false);
+    setEditingTableId(null);
+    setPendingCell(null);
+  };
+
+  const handleSaveTable = async () => {
+    const number = parseInt(tableNumberInput, 10);
+    const seats = parseInt(seatsInput, 10);
+
+    if (isNaN(number) || number <= 0) {
+      Alert.alert('Error', 'Please enter a valid table number');
+      return;
+    }
+    if (isNaN(seats) || seats <= 0) {
+      Alert.alert('Error', 'Please enter the number of seats');
+      return;
+    }
+    if (tables.some(table => table.number === number && table.id !== editingTableId)) {
+      Alert.alert('Error', `Table ${number} already exists`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingTableId) {
+        await updateDoc(doc(db, 'tables', editingTableId), { number, seats });
+      } else if (pendingCell) {
+        await addDoc(collection(db, 'tables'), {
+          number,
+          seats,
+          x: pendingCell.x,
+          y: pendingCell.y,
+          orderIds: [],
+          occupiedSince: null,
+          createdAt: new Date().toISOString()
+        });
+      }
+      closeTableModal();
+    } catch (error) {
+      console.error('Error saving table:', error);
+      Alert.alert('Error', 'Failed to save table');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTable = (table: DiningTable) => {
+    if (isTableOccupied(table)) {
+      Alert.alert('Table In Use', 'Clear or transfer this table before removing it');
+      return;
+    }
+
+    setPendingConfirm({
+      title: 'Remove Table',
+      message: `Remove table ${table.number} from the floor plan?`,
+      confirmLabel: 'Remove',
+      destructive: true,
+      onConfirm: async () => {
+        try {
+          await deleteDoc(doc(db, 'tables', table.id));
+          setSelectedTableId(null);
+        } catch (error) {
+          console.error('Error removing table:', error);
+          Alert.alert('Error', 'Failed to remove table');
+        }
+      }
+    });
+  };
+
+  const handleCellPress = async (x: number, y: number) => {
+    if (!isEditing) {
+      setSelectedTableId(null);
+      setMoveMode(null);
+      return;
+    }
+
+    // In layout mode an empty cell either receives the selected table or a new one
+    if (selectedTable) {
+      try {
+        await updateDoc(doc(db, 'tables', selectedTable.id), { x, y });
+        setSelectedTableId(null);
+      } catch (error) {
+        console.error('Error moving table:', error);
+        Alert.alert('Error', 'Failed to move table');
+      }
+      return;
+    }
+    openNewTableModal(x, y);
+  };
+
+  const handleTablePress = (table: DiningTable) => {
+    if (moveMode && selectedTable) {
+      handleMoveTarget(table);
+      return;
+    }
+    setSelectedTableId(selectedTableId === table.id ? null : table.id);
+  };
+
+  const handleStartMove = (mode: MoveMode) => {
+    if (isOffline) {
+      Alert.alert('Offline', 'Tables can only be transferred or merged while online');
+      return;
+    }
+    setMoveMode(moveMode === mode ? null : mode);
+  };
+
+  const handleMoveTarget = (target: DiningTable) => {
+    if (!selectedTable || !moveMode) return;
+
+    if (target.id === selectedTable.id) {
+      setMoveMode(null);
+      return;
+    }
+    if (moveMode === 'transfer' && isTableOccupied(target)) {
+      Alert.alert('Table Occupied', `Table ${target.number} is occupied. Use Merge to combine the tables.`);
+      return;
+    }
+    if (moveMode === 'merge' && !isTableOccupied(target)) {
+      Alert.alert('Table Free', `Table ${target.number} is free. Use Transfer to move the party.`);
+      return;
+    }
+
+    const message = moveMode === 'transfer'
+      ? `Move the party at table ${selectedTable.number} to table ${target.number}?`
+      : `Merge table ${selectedTable.number} into table ${target.number}?`;
+
+    setPendingConfirm({
+      title: moveMode === 'transfer' ? 'Transfer Table' : 'Merge Tables',
+      message,
+      confirmLabel: 'Confirm',
+      onConfirm: async () => {
+        try {
+          setIsSaving(true);
+          await moveTableOrders(selectedTable, target);
+          setMoveMode(null);
+          setSelectedTableId(target.id);
+        } catch (error) {
+          console.error('Error moving table orders:', error);
+          Alert.alert('Error', 'Failed to update tables. Please try again.');
+        } finally {
+          setIsSaving(false);
+        }
+      }
+    });
+  };
+
+  const handleClearTable = (table: DiningTable) => {
+    setPendingConfirm({
+      title: 'Clear Table',
+      message: `Mark table ${table.number} as free?`,
+      confirmLabel: 'Clear',
+      onConfirm: async () => {
+        try {
+          await updateDoc(doc(db, 'tables', table.id), { orderIds: [], occupiedSince: null });
+          setMoveMode(null);
+        } catch (error) {
+          console.error('Error clearing table:', error);
+          Alert.alert('Error', 'Failed to clear table');
+        }
+      }
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingConfirm) return;
+    const { onConfirm } = pendingConfirm;
+    setPendingConfirm(null);
+    await onConfirm();
+  };
+
+  const renderTable = (table: DiningTable) => {
+    const occupied = isTableOccupied(table);
+    const isSelected = table.id === selectedTableId;
+
+    return (
+      <TouchableOpacity
+        key={table.id}
+        style={[
+          styles.tableCard,
+          occupied ? styles.tableOccupied : styles.tableFree,
+          isSelected && styles.tableSelected
+        ]}
+        onPress={() => handleTablePress(table)}
+      >
+        <Text style={[styles.tableNumber, occupied && styles.tableTextOccupied]}>{table.number}</Text>
+        <Text style={[styles.tableMeta, occupied && styles.tableTextOccupied]}>
+          {occupied ? formatOccupiedDuration(table.occupiedSince, now) : `${table.seats} seats`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFloorPlan = () => (
+    <View style={styles.floor}>
+      {Array.from({ length: FLOOR_ROWS }).map((_, y) => (
+        <View key={y} style={styles.floorRow}>
+          {Array.from({ length: FLOOR_COLUMNS }).map((_, x) => {
+            const table = getTableAt(tables, x, y);
+            return (
+              <View key={x} style={styles.floorCell}>
+                {table ? renderTable(table) : (
+                  <TouchableOpacity
+                    style={[styles.emptyCell, isEditing && styles.emptyCellEditing]}
+                    onPress={() => handleCellPress(x, y)}
+                  >
+                    {isEditing && (
+                      <FontAwesome name={selectedTable ? 'arrows' : 'plus'} size={14} color="#D1D5DB" />
+                    )}
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderLayoutPanel = () => (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>Edit Layout</Text>
+      {selectedTable ? (
+        <>
+          <Text style={styles.panelText}>Table {selectedTable.number} · {selectedTable.seats} seats</Text>
+          <Text style={styles.panelHint}>Tap an empty cell to move this table.</Text>
+          <TouchableOpacity style={styles.panelButton} onPress={() => openEditTableModal(selectedTable)}>
+            <FontAwesome name="pencil" size={14} color="#FFFFFF" />
+            <Text style={styles.panelButtonText}>Edit Details</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.panelButton, styles.dangerButton]}
+            onPress={() => handleDeleteTable(selectedTable)}
+          >
+            <FontAwesome name="trash" size={14} color="#FFFFFF" />
+            <Text style={styles.panelButtonText}>Remove Table</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <Text style={styles.panelHint}>Tap an empty cell to add a table, or tap a table to move or edit it.</Text>
+      )}
+    </View>
+  );
+
+  const renderServicePanel = () => {
+    if (!selectedTable) {
+      const occupiedCount = tables.filter(isTableOccupied).length;
+      return (
+        <View style={styles.panel}>
+          <Text style={styles.panelTitle}>Tables</Text>
+          <Text style={styles.panelText}>{occupiedCount} of {tables.length} occupied</Text>
+          <Text style={styles.panelHint}>Tap a table to see its orders, transfer or merge it.</Text>
+        </View>
+      );
+    }
+
+    const occupied = isTableOccupied(selectedTable);
+
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.panelTitle}>Table {selectedTable.number}</Text>
+        <Text style={styles.panelText}>{selectedTable.seats} seats</Text>
+        <Text style={[styles.statusPill, occupied ? styles.statusOccupied : styles.statusFree]}>
+          {occupied ? `Occupied · ${formatOccupiedDuration(selectedTable.occupiedSince, now)}` : 'Free'}
+        </Text>
+
+        {occupied && (
+          <>
+            <Text style={styles.sectionLabel}>Orders</Text>
+            <ScrollView style={styles.orderList}>
+              {tableOrders.map(order => (
+                <View key={order.id} style={styles.orderRow}>
+                  <Text style={styles.orderId}>{getOrderLabel(order)}</Text>
+                  <Text style={styles.orderMeta}>
+                    {order.synced
+                      ? `${order.itemCount} item(s) · ₱${(order.total || 0).toFixed(2)}`
+                      : 'Waiting to sync'}
+                  </Text>
+                </View>
+              ))}
+            </ScrollView>
+
+            {moveMode ? (
+              <Text style={styles.moveHint}>
+                {moveMode === 'transfer' ? 'Tap a free table to transfer to.' : 'Tap an occupied table to merge into.'}
+              </Text>
+            ) : null}
+
+            <View style={styles.panelActions}>
+              <TouchableOpacity
+                style={[styles.panelButton, moveMode === 'transfer' && styles.panelButtonActive]}
+                onPress={() => handleStartMove('transfer')}
+                disabled={isSaving}
+              >
+                <FontAwesome name="exchange" size={14} color="#FFFFFF" />
+                <Text style={styles.panelButtonText}>Transfer</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.panelButton, moveMode === 'merge' && styles.panelButtonActive]}
+                onPress={() => handleStartMove('merge')}
+                disabled={isSaving}
+              >
+                <FontAwesome name="compress" size={14} color="#FFFFFF" />
+                <Text style={styles.panelButtonText}>Merge</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.panelButton, styles.secondaryButton]}
+              onPress={() => handleClearTable(selectedTable)}
+              disabled={isSaving}
+            >
+              <FontAwesome name="check" size={14} color="#374151" />
+              <Text style={[styles.panelButtonText, styles.secondaryButtonText]}>Clear Table</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderTableModal = () => (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={showTableModal}
+      onRequestClose={closeTableModal}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>{editingTableId ? 'Edit Table' : 'Add Table'}</Text>
+
+          <Text style={styles.inputLabel}>Table Number</Text>
+          <TextInput
+            style={styles.input}
+            value={tableNumberInput}
+            onChangeText={setTableNumberInput}
+            keyboardType="number-pad"
+          />
+
+          <Text style={styles.inputLabel}>Seats</Text>
+          <TextInput
+            style={styles.input}
+            value={seatsInput}
+            onChangeText={setSeatsInput}
+            keyboardType="number-pad"
+          />
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={closeTableModal}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.saveButton]}
+              onPress={handleSaveTable}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderConfirmModal = () => (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={!!pendingConfirm}
+      onRequestClose={() => setPendingConfirm(null)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>{pendingConfirm?.title}</Text>
+          <Text style={styles.confirmMessage}>{pendingConfirm?.message}</Text>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={() => setPendingConfirm(null)}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, pendingConfirm?.destructive ? styles.dangerButton : styles.saveButton]}
+              onPress={handleConfirm}
+            >
+              <Text style={styles.saveButtonText}>{pendingConfirm?.confirmLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#F36514" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <FontAwesome name="arrow-left" size={20} color="#1F2937" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Floor Plan</Text>
+        </View>
+        {isOwner && (
+          <TouchableOpacity
+            style={[styles.editButton, isEditing && styles.editButtonActive]}
+            onPress={() => {
+              setIsEditing(!isEditing);
+              setSelectedTableId(null);
+              setMoveMode(null);
+            }}
+          >
+            <FontAwesome name={isEditing ? 'check' : 'th'} size={14} color={isEditing ? '#FFFFFF' : '#F36514'} />
+            <Text style={[styles.editButtonText, isEditing && styles.editButtonTextActive]}>
+              {isEditing ? 'Done' : 'Edit Layout'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.floorContainer}>
+          <View style={styles.legend}>
+            <View style={[styles.legendSwatch, styles.tableFree]} />
+            <Text style={styles.legendText}>Free</Text>
+            <View style={[styles.legendSwatch, styles.tableOccupied]} />
+            <Text style={styles.legendText}>Occupied</Text>
+          </View>
+          {tables.length === 0 && !isEditing ? (
+            <View style={styles.emptyState}>
+              <FontAwesome name="th" size={32} color="#D1D5DB" />
+              <Text style={styles.emptyStateText}>
+                {isOwner ? 'No tables yet. Tap Edit Layout to add tables.' : 'No tables have been set up yet.'}
+              </Text>
+            </View>
+          ) : renderFloorPlan()}
+        </View>
+        {isEditing ? renderLayoutPanel() : renderServicePanel()}
+      </View>
+
+      {renderTableModal()}
+      {renderConfirmModal()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginLeft: 12,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#F36514',
+  },
+  editButtonActive: {
+    backgroundColor: '#F36514',
+  },
+  editButtonText: {
+    color: '#F36514',
+    fontWeight: '600',
+  },
+  editButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 16,
+    gap: 16,
+  },
+  floorContainer: {
+    flex: 3,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginRight: 12,
+  },
+  floor: {
+    flex: 1,
+    gap: 8,
+  },
+  floorRow: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  floorCell: {
+    flex: 1,
+  },
+  emptyCell: {
+    flex: 1,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyCellEditing: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#E5E7EB',
+  },
+  tableCard: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tableFree: {
+    backgroundColor: '#ECFDF5',
+    borderColor: '#10B981',
+  },
+  tableOccupied: {
+    backgroundColor: '#F36514',
+    borderColor: '#C2410C',
+  },
+  tableSelected: {
+    borderColor: '#1F2937',
+    borderWidth: 3,
+  },
+  tableNumber: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#065F46',
+  },
+  tableMeta: {
+    fontSize: 12,
+    color: '#047857',
+    marginTop: 2,
+  },
+  tableTextOccupied: {
+    color: '#FFFFFF',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: '#6B7280',
+  },
+  panel: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  panelText: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginBottom: 8,
+  },
+  panelHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  statusPill: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    fontSize: 12,
+    fontWeight: '600',
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  statusFree: {
+    backgroundColor: '#D1FAE5',
+    color: '#065F46',
+  },
+  statusOccupied: {
+    backgroundColor: '#FFEDD5',
+    color: '#C2410C',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  orderList: {
+    maxHeight: 180,
+    marginBottom: 12,
+  },
+  orderRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  orderId: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  orderMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  moveHint: {
+    fontSize: 13,
+    color: '#C2410C',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  panelActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  panelButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#F36514',
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  panelButtonActive: {
+    backgroundColor: '#C2410C',
+  },
+  panelButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#EF4444',
+  },
+  secondaryButton: {
+    flex: 0,
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: '40%',
+    maxWidth: 400,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 16,
+  },
+  confirmMessage: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 14,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    color: '#374151',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#F36514',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,94 @@
+// Approval PINs are checked here rather than on the register so staff devices never see
+// them. Only a salted hash is stored, in `approvalPins/{ownerId}`. The project's Firestore
+// rules must deny clients access to that collection and to `approvalPinAttempts` (see
+// "Cloud Functions" in the README); the Admin SDK used here is not bound by those rules.
+//
+//   cd functions && npm install && npm run deploy
+const crypto = require('crypto');
+const { initializeApp } = require('firebase-admin/app');
+const { FieldValue, getFirestore } = require('firebase-admin/firestore');
+const { HttpsError, onCall } = require('firebase-functions/v2/https');
+
+initializeApp();
+const db = getFirestore();
+
+// Failed PIN entries a register gets before it has to wait out the lockout
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const isValidPin = (pin) => typeof pin === 'string' && /^\d{4,6}$/.test(pin);
+
+const hashPin = (pin, salt) => crypto.scryptSync(pin, salt, 32).toString('hex');
+
+const requireSignedIn = (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Please sign in again');
+  }
+  return request.auth.uid;
+};
+
+// Saves the calling owner's approval PIN as a salted hash and drops any PIN left in
+// plain text on their user document by earlier versions of the app
+exports.setApprovalPin = onCall(async (request) => {
+  const uid = requireSignedIn(request);
+  const pin = request.data && request.data.pin;
+  if (!isValidPin(pin)) {
+    throw new HttpsError('invalid-argument', 'Approval PIN must be 4 to 6 digits');
+  }
+
+  const user = await db.collection('users').doc(uid).get();
+  if (!user.exists || user.data().role !== 'owner') {
+    throw new HttpsError('permission-denied', 'Only owners can set an approval PIN');
+  }
+
+  const salt = crypto.randomBytes(16).toString('hex');
+  const batch = db.batch();
+  batch.set(db.collection('approvalPins').doc(uid), {
+    salt,
+    hash: hashPin(pin, salt),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+  batch.update(user.ref, { approvalPin: FieldValue.delete() });
+  await batch.commit();
+  return { saved: true };
+});
+
+// Returns the owner whose approval PIN was entered, or null when it matches nobody.
+// Repeated misses lock the caller out for a while so PINs cannot be guessed.
+exports.verifyApprovalPin = onCall(async (request) => {
+  const uid = requireSignedIn(request);
+  const pin = request.data && request.data.pin;
+  if (!isValidPin(pin)) return { approver: null };
+
+  const attemptsRef = db.collection('approvalPinAttempts').doc(uid);
+  const attempts = (await attemptsRef.get()).data() || { failures: 0, lockedUntil: 0 };
+  if (attempts.lockedUntil > Date.now()) {
+    throw new HttpsError('resource-exhausted', 'Too many wrong PINs. Please try again in a few minutes.');
+  }
+
+  const owners = await db.collection('users').where('role', '==', 'owner').get();
+  for (const owner of owners.docs) {
+    const stored = await db.collection('approvalPins').doc(owner.id).get();
+    if (!stored.exists) continue;
+
+    const { salt, hash } = stored.data();
+    if (crypto.timingSafeEqual(Buffer.from(hashPin(pin, salt), 'hex'), Buffer.from(hash, 'hex'))) {
+      await attemptsRef.delete();
+      return {
+        approver: {
+          staffId: owner.id,
+          staffName: owner.data().name || 'Owner',
+          staffEmail: owner.data().email || ''
+        }
+      };
+    }
+  }
+
+  const failures = attempts.failures + 1;
+  await attemptsRef.set(
+    failures >= MAX_FAILED_ATTEMPTS
+      ? { failures: 0, lockedUntil: Date.now() + LOCKOUT_MS }
+      : { failures, lockedUntil: 0 }
+  );
+  return { approver: null };
+});
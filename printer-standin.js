@@ -0,0 +1,60 @@
+// Stands in for a network receipt printer during development. It listens on the raw
+// printing port, saves every job it receives and prints a readable preview.
+//
+//   PORT=9100 CAPTURE_DIR=./captures node printer-standin.js
+//
+// Jobs are saved to CAPTURE_DIR, or to a folder in the system temp directory by default.
+//
+// Point the register's printer settings at this machine's IP address and port.
+const net = require('net');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const port = process.env.PORT || 9100;
+const captureDir = process.env.CAPTURE_DIR || path.join(os.tmpdir(), 'print-captures');
+
+// Shows printable text and line feeds; control sequences are summarised in brackets
+const preview = (bytes) => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === 0x0a) {
+      output += '\n';
+    } else if (byte >= 0x20 && byte <= 0x7e) {
+      output += String.fromCharCode(byte);
+    } else if (byte === 0x1d && bytes[i + 1] === 0x56) {
+      output += '\n[CUT]\n';
+      i += 3;
+    } else if (byte === 0x1d && bytes[i + 1] === 0x28 && bytes[i + 2] === 0x6b) {
+      const length = bytes[i + 3] + bytes[i + 4] * 256;
+      if (bytes[i + 6] === 0x50) {
+        output += `[QR: ${bytes.slice(i + 8, i + 5 + length).toString('ascii')}]`;
+      }
+      i += 4 + length;
+    } else if (byte === 0x1b || byte === 0x1d) {
+      // ESC/GS commands used by the register take one or two parameter bytes
+      i += bytes[i + 1] === 0x40 ? 1 : 2;
+    }
+  }
+  return output;
+};
+
+const server = net.createServer((socket) => {
+  const chunks = [];
+  socket.on('data', (chunk) => chunks.push(chunk));
+  socket.on('end', () => {
+    const bytes = Buffer.concat(chunks);
+    fs.mkdirSync(captureDir, { recursive: true });
+    const file = path.join(captureDir, `job-${Date.now()}.bin`);
+    fs.writeFileSync(file, bytes);
+
+    console.log(`Received ${bytes.length} bytes from ${socket.remoteAddress} (saved to ${file})`);
+    console.log(preview(bytes));
+  });
+  socket.on('error', (error) => console.error('Connection error:', error.message));
+});
+
+server.listen(port, () => {
+  console.log(`Printer stand-in listening on port ${port}`);
+});
@@ -0,0 +1,231 @@
+import { PricingInput, computePricing, roundCurrency } from '../pricing';
+
+const baseInput: PricingInput = {
+  lines: [],
+  vatRate: 0.12,
+  pricesIncludeVat: true,
+  serviceChargeRate: 0
+};
+
+const price = (overrides: Partial<PricingInput>) => computePricing({ ...baseInput, ...overrides });
+
+// The breakdown's own rows must add back up to the total it reports
+const expectRowsToAddUp = (pricing: ReturnType<typeof computePricing>) => {
+  expect(roundCurrency(
+    pricing.netSales + pricing.vatAmount + pricing.serviceCharge - pricing.statutory.discountAmount - pricing.voucherDiscount
+  )).toBe(pricing.total);
+};
+
+describe('computePricing', () => {
+  describe('VAT', () => {
+    it('backs VAT out of VAT-inclusive prices', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }] });
+
+      expect(pricing.grossSales).toBe(112);
+      expect(pricing.vatableSales).toBe(100);
+      expect(pricing.vatAmount).toBe(12);
+      expect(pricing.netSales).toBe(100);
+      expect(pricing.total).toBe(112);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('adds VAT on top of VAT-exclusive prices', () => {
+      const pricing = price({ lines: [{ price: 50, quantity: 2 }], pricesIncludeVat: false });
+
+      expect(pricing.grossSales).toBe(100);
+      expect(pricing.vatableSales).toBe(100);
+      expect(pricing.vatAmount).toBe(12);
+      expect(pricing.total).toBe(112);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('rounds every row to centavos', () => {
+      const pricing = price({ lines: [{ price: 33.33, quantity: 3 }] });
+
+      expect(pricing.grossSales).toBe(99.99);
+      expect(pricing.vatableSales).toBe(89.28);
+      expect(pricing.vatAmount).toBe(10.71);
+      expect(pricing.total).toBe(99.99);
+      expectRowsToAddUp(pricing);
+    });
+  });
+
+  describe('tax classes', () => {
+    it('keeps VAT-exempt and zero-rated lines out of VATable sales', () => {
+      const pricing = price({
+        lines: [
+          { price: 112, quantity: 1, taxClass: 'vatable' },
+          { price: 50, quantity: 1, taxClass: 'vat-exempt' },
+          { price: 30, quantity: 1, taxClass: 'zero-rated' }
+        ]
+      });
+
+      expect(pricing.vatableSales).toBe(100);
+      expect(pricing.vatAmount).toBe(12);
+      expect(pricing.vatExemptSales).toBe(50);
+      expect(pricing.zeroRatedSales).toBe(30);
+      expect(pricing.netSales).toBe(180);
+      expect(pricing.total).toBe(192);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('treats lines without a tax class as VATable', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1, taxClass: null }] });
+
+      expect(pricing.vatableSales).toBe(100);
+      expect(pricing.vatExemptSales).toBe(0);
+    });
+  });
+
+  describe('PWD/Senior discount', () => {
+    const discount = (cardholderCount: number, partySize: number) => ({ cardholderCount, partySize, percentage: 20 });
+
+    it('makes a sole cardholder\'s order VAT-exempt before taking 20% off', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }], statutoryDiscount: discount(1, 1) });
+
+      expect(pricing.statutory.vatRemoved).toBe(12);
+      expect(pricing.statutory.vatExemptSales).toBe(100);
+      expect(pricing.statutory.discountAmount).toBe(20);
+      expect(pricing.vatableSales).toBe(0);
+      expect(pricing.vatAmount).toBe(0);
+      expect(pricing.vatExemptSales).toBe(100);
+      expect(pricing.total).toBe(80);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('only discounts the cardholders\' share of a group order', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 4 }], statutoryDiscount: discount(2, 4) });
+
+      expect(pricing.statutory.qualifyingGross).toBe(224);
+      expect(pricing.statutory.discountAmount).toBe(40);
+      expect(pricing.vatableSales).toBe(200);
+      expect(pricing.vatAmount).toBe(24);
+      expect(pricing.vatExemptSales).toBe(200);
+      expect(pricing.total).toBe(384);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('never counts more people than cardholders would allow', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }], statutoryDiscount: discount(2, 1) });
+
+      expect(pricing.statutory.qualifyingGross).toBe(112);
+      expect(pricing.total).toBe(80);
+    });
+
+    it('discounts VAT-exempt and zero-rated lines without removing VAT from them', () => {
+      const pricing = price({
+        lines: [
+          { price: 112, quantity: 1, taxClass: 'vatable' },
+          { price: 50, quantity: 1, taxClass: 'vat-exempt' },
+          { price: 30, quantity: 1, taxClass: 'zero-rated' }
+        ],
+        statutoryDiscount: discount(1, 1)
+      });
+
+      expect(pricing.statutory.vatRemoved).toBe(12);
+      expect(pricing.statutory.discountAmount).toBe(36);
+      expect(pricing.vatExemptSales).toBe(150);
+      expect(pricing.netSales).toBe(180);
+      expect(pricing.total).toBe(144);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('has no VAT to remove when prices exclude VAT', () => {
+      const pricing = price({
+        lines: [{ price: 100, quantity: 1 }],
+        pricesIncludeVat: false,
+        statutoryDiscount: discount(1, 1)
+      });
+
+      expect(pricing.statutory.vatRemoved).toBe(0);
+      expect(pricing.statutory.discountAmount).toBe(20);
+      expect(pricing.vatAmount).toBe(0);
+      expect(pricing.total).toBe(80);
+      expectRowsToAddUp(pricing);
+    });
+  });
+
+  describe('service charge', () => {
+    it('is charged on sales net of VAT', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }], serviceChargeRate: 10 });
+
+      expect(pricing.serviceCharge).toBe(10);
+      expect(pricing.serviceChargeRate).toBe(10);
+      expect(pricing.total).toBe(122);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('is charged after the PWD/Senior share becomes VAT-exempt', () => {
+      const pricing = price({
+        lines: [{ price: 112, quantity: 1 }],
+        serviceChargeRate: 10,
+        statutoryDiscount: { cardholderCount: 1, partySize: 1, percentage: 20 }
+      });
+
+      expect(pricing.serviceCharge).toBe(10);
+      expect(pricing.total).toBe(90);
+      expectRowsToAddUp(pricing);
+    });
+  });
+
+  describe('vouchers', () => {
+    it('is not applied below its minimum order', () => {
+      const pricing = price({
+        lines: [{ price: 112, quantity: 1 }],
+        voucher: { discountAmount: 50, minimumOrderAmount: 200 }
+      });
+
+      expect(pricing.voucherApplied).toBe(false);
+      expect(pricing.voucherDiscount).toBe(0);
+      expect(pricing.total).toBe(112);
+    });
+
+    it('is applied once the cart reaches its minimum order', () => {
+      const pricing = price({
+        lines: [{ price: 112, quantity: 2 }],
+        voucher: { discountAmount: 50, minimumOrderAmount: 200 }
+      });
+
+      expect(pricing.voucherApplied).toBe(true);
+      expect(pricing.voucherDiscount).toBe(50);
+      expect(pricing.total).toBe(174);
+      expectRowsToAddUp(pricing);
+    });
+
+    it('is capped at the order total', () => {
+      const pricing = price({
+        lines: [{ price: 112, quantity: 1 }],
+        voucher: { discountAmount: 500, minimumOrderAmount: 0 }
+      });
+
+      expect(pricing.voucherDiscount).toBe(112);
+      expect(pricing.total).toBe(0);
+      expectRowsToAddUp(pricing);
+    });
+  });
+
+  describe('points tendered', () => {
+    it('reduces the balance due but not the total', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }], pointsTendered: 30 });
+
+      expect(pricing.total).toBe(112);
+      expect(pricing.pointsTendered).toBe(30);
+      expect(pricing.balanceDue).toBe(82);
+    });
+
+    it('is capped at the order total', () => {
+      const pricing = price({ lines: [{ price: 112, quantity: 1 }], pointsTendered: 150 });
+
+      expect(pricing.pointsTendered).toBe(112);
+      expect(pricing.balanceDue).toBe(0);
+    });
+  });
+
+  it('prices an empty cart at zero', () => {
+    const pricing = price({ lines: [], voucher: { discountAmount: 50, minimumOrderAmount: 0 } });
+
+    expect(pricing.total).toBe(0);
+    expect(pricing.voucherDiscount).toBe(0);
+    expect(pricing.balanceDue).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+// Minimal product shape needed to resolve scanned codes; sizes may carry their own barcode
+export interface BarcodedProduct {
+  id: string;
+  name: string;
+  sku?: string | null;
+  barcode?: string | null;
+  hasSizes?: boolean;
+  sizes?: { [key: string]: { price: string; barcode?: string | null } } | null;
+}
+
+// A scanned code resolved to a product, and to a specific size for size-level barcodes
+export interface BarcodeMatch<T extends BarcodedProduct> {
+  product: T;
+  size?: string;
+}
+
+// Scanners and hand-typed codes differ in case and stray whitespace
+export const normalizeBarcode = (code?: string | null) =>
+  (code || '').trim().replace(/\s+/g, '').toUpperCase();
+
+// Every code a product answers to, with the size it selects (if any)
+export const getProductCodes = (product: BarcodedProduct): { code: string; size?: string }[] => {
+  const codes: { code: string; size?: string }[] = [];
+  [product.sku, product.barcode].forEach(code => {
+    if (normalizeBarcode(code)) codes.push({ code: normalizeBarcode(code) });
+  });
+  if (product.hasSizes) {
+    Object.entries(product.sizes || {}).forEach(([size, data]) => {
+      if (normalizeBarcode(data.barcode)) codes.push({ code: normalizeBarcode(data.barcode), size });
+    });
+  }
+  return codes;
+};
+
+// Size-level barcodes win over product-level codes so a scan lands on the exact size
+export const buildBarcodeIndex = <T extends BarcodedProduct>(products: T[]) => {
+  const index = new Map<string, BarcodeMatch<T>>();
+  products.forEach(product => {
+    getProductCodes(product).forEach(({ code, size }) => {
+      const existing = index.get(code);
+      if (!existing || (size && !existing.size)) {
+        index.set(code, { product, size });
+      }
+    });
+  });
+  return index;
+};
+
+// Returns an error message if any of the product's codes repeat or clash with another product
+export const findBarcodeConflict = (product: BarcodedProduct, products: BarcodedProduct[]): string | null => {
+  const seen = new Set<string>();
+  for (const { code } of getProductCodes(product)) {
+    if (seen.has(code)) {
+      return `Code ${code} is used more than once on this product`;
+    }
+    seen.add(code);
+  }
+
+  for (const other of products) {
+    if (other.id === product.id) continue;
+    const clash = getProductCodes(other).find(({ code }) => seen.has(code));
+    if (clash) {
+      return `Code ${clash.code} is already assigned to ${other.name}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,118 @@
+import { Platform } from 'react-native';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+
+// What the customer-facing screen shows. The register publishes a fresh snapshot on every
+// cart or payment change; the display never writes back.
+export type CustomerDisplayStatus = 'idle' | 'cart' | 'payment' | 'complete';
+
+export interface CustomerDisplayLine {
+  name: string;
+  quantity: number;
+  total: number;
+  details: string | null;   // Size and modifiers, e.g. "Large · Oat milk"
+}
+
+export interface CustomerDisplayState {
+  status: CustomerDisplayStatus;
+  lines: CustomerDisplayLine[];
+  subtotal: number;
+  adjustments: { label: string; amount: number }[];   // Discounts are negative
+  total: number;
+  tip: number;
+  paid: number;
+  remaining: number;
+  change: number;
+  paymentMethod: string | null;
+  paymentQr: PaymentQr | null;
+  updatedAt: number;
+}
+
+// Dynamic QR Ph code for the e-wallet tender being entered (utils/qrph.ts)
+export interface PaymentQr {
+  payload: string;
+  amount: number;
+  reference: string;
+}
+
+// Static e-wallet QR images uploaded in Settings > Display, keyed by payment method
+export type PaymentQrCodes = Partial<Record<'gcash' | 'maya', string>>;
+
+export const IDLE_DISPLAY_STATE: CustomerDisplayState = {
+  status: 'idle',
+  lines: [],
+  subtotal: 0,
+  adjustments: [],
+  total: 0,
+  tip: 0,
+  paid: 0,
+  remaining: 0,
+  change: 0,
+  paymentMethod: null,
+  paymentQr: null,
+  updatedAt: 0
+};
+
+const CHANNEL_NAME = 'nookpay-customer-display';
+
+// A display in another window of the same browser gets updates instantly over a
+// BroadcastChannel; a separate tablet follows the same state through Firestore.
+const getBroadcastChannel = (() => {
+  let channel: BroadcastChannel | null = null;
+  return () => {
+    if (Platform.OS !== 'web' || typeof BroadcastChannel === 'undefined') return null;
+    if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+    return channel;
+  };
+})();
+
+// One display per signed-in account, so the second screen logs in as the cashier
+const getDisplayRef = (displayId: string) => doc(db, 'customerDisplays', displayId);
+
+// The register publishes on every keystroke, so the Firestore copy is only written once
+// changes settle; the BroadcastChannel still gets every update straight away
+const FIRESTORE_WRITE_DELAY_MS = 500;
+const pendingWrites: Record<string, ReturnType<typeof setTimeout>> = {};
+
+export const publishCustomerDisplay = (displayId: string, state: CustomerDisplayState) => {
+  getBroadcastChannel()?.postMessage({ displayId, state });
+
+  clearTimeout(pendingWrites[displayId]);
+  pendingWrites[displayId] = setTimeout(() => {
+    delete pendingWrites[displayId];
+    setDoc(getDisplayRef(displayId), state).catch(error => {
+      console.error('Error updating customer display:', error);
+    });
+  }, FIRESTORE_WRITE_DELAY_MS);
+};
+
+// Calls back with the newest state from either channel; returns the unsubscribe
+export const subscribeToCustomerDisplay = (displayId: string, callback: (state: CustomerDisplayState) => void) => {
+  let latest = 0;
+  const receive = (state: CustomerDisplayState) => {
+    if (state.updatedAt < latest) return;
+    latest = state.updatedAt;
+    callback(state);
+  };
+
+  const channel = getBroadcastChannel();
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.displayId === displayId) receive(event.data.state);
+  };
+  channel?.addEventListener('message', handleMessage);
+
+  const unsubscribe = onSnapshot(
+    getDisplayRef(displayId),
+    (snapshot) => {
+      if (snapshot.exists()) receive({ ...IDLE_DISPLAY_STATE, ...snapshot.data() } as CustomerDisplayState);
+    },
+    (error) => {
+      console.error('Error fetching customer display:', error);
+    }
+  );
+
+  return () => {
+    channel?.removeEventListener('message', handleMessage);
+    unsubscribe();
+  };
+};
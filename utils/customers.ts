@@ -0,0 +1,104 @@
+import { roundCurrency } from './pricing';
+import { RefundableOrder, getOrderNetTotal } from './refunds';
+
+// A rewards customer stored in the `users` collection (staff accounts carry a role)
+export interface Customer {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  points: number;
+}
+
+export interface CustomerForm {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface CustomerProfileStats {
+  lastVisit: Date | null;
+  lifetimeSpend: number;
+  visitCount: number;
+  favoriteItems: { name: string; quantity: number }[];
+}
+
+const STAFF_ROLES = ['owner', 'employee'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isStaffAccount = (data: { role?: string | null }) =>
+  !!data.role && STAFF_ROLES.includes(data.role);
+
+// Digits only (keeping a leading +) so "0917 123 4567" and "09171234567" match
+export const normalizePhone = (phone?: string | null) =>
+  (phone || '').trim().replace(/(?!^\+)[^\d]/g, '');
+
+export const searchCustomers = (customers: Customer[], term: string, limit = 5): Customer[] => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [];
+  const phoneNeedle = normalizePhone(needle);
+
+  return customers
+    .filter(customer =>
+      customer.name.toLowerCase().includes(needle) ||
+      customer.email.toLowerCase().includes(needle) ||
+      (phoneNeedle.length >= 3 && normalizePhone(customer.phone).includes(phoneNeedle))
+    )
+    .slice(0, limit);
+};
+
+// Validates the new-customer form; returns an error message or null
+export const validateCustomerForm = (form: CustomerForm, customers: Customer[]): string | null => {
+  const email = form.email.trim().toLowerCase();
+  const phone = normalizePhone(form.phone);
+
+  if (!form.name.trim()) {
+    return 'Please enter the customer name';
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return 'Please enter a valid email address';
+  }
+  if (form.phone.trim() && (phone.replace('+', '').length < 10 || phone.replace('+', '').length > 13)) {
+    return 'Please enter a valid mobile number';
+  }
+  if (customers.some(customer => customer.email.toLowerCase() === email)) {
+    return 'A customer with this email already exists';
+  }
+  if (phone && customers.some(customer => normalizePhone(customer.phone) === phone)) {
+    return 'A customer with this mobile number already exists';
+  }
+  return null;
+};
+
+// Summarises a customer's order history for the checkout profile card
+export const buildCustomerStats = (
+  orders: (RefundableOrder & { createdAt: Date | null })[],
+  favoriteCount = 3
+): CustomerProfileStats => {
+  // Cancelled and fully refunded orders aren't visits; partial refunds and voids come off the spend
+  const counted = orders.filter(order => order.status !== 'refunded' && order.status !== 'cancelled');
+  const itemTotals: { [name: string]: number } = {};
+  let lastVisit: Date | null = null;
+
+  counted.forEach(order => {
+    if (order.createdAt && (!lastVisit || order.createdAt > lastVisit)) {
+      lastVisit = order.createdAt;
+    }
+    (order.items || []).forEach(item => {
+      itemTotals[item.name] = (itemTotals[item.name] || 0) + (item.quantity || 0);
+    });
+  });
+
+  const favoriteItems = Object.entries(itemTotals)
+    .map(([name, quantity]) => ({ name, quantity }))
+    .sort((a, b) => b.quantity - a.quantity)
+    .slice(0, favoriteCount);
+
+  return {
+    lastVisit,
+    lifetimeSpend: roundCurrency(counted.reduce((sum, order) => sum + getOrderNetTotal(order), 0)),
+    visitCount: counted.length,
+    favoriteItems
+  };
+};
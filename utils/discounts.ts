@@ -0,0 +1,40 @@
+export type StatutoryDiscountType = 'PWD' | 'Senior Citizen';
+
+// Cardholder details required for the BIR PWD/Senior Citizen discount booklet
+export interface DiscountCardholder {
+  idNumber: string;
+  name: string;
+}
+
+export interface StatutoryDiscountBreakdown {
+  qualifyingGross: number; // VAT-inclusive share of the bill consumed by cardholders
+  vatExemptSales: number;  // That share with VAT removed
+  vatRemoved: number;      // VAT waived on the qualifying share
+  discountAmount: number;  // Discount taken off the VAT-exempt amount
+}
+
+const NO_DISCOUNT: StatutoryDiscountBreakdown = {
+  qualifyingGross: 0,
+  vatExemptSales: 0,
+  vatRemoved: 0,
+  discountAmount: 0,
+};
+
+// RA 9994 / RA 10754: the qualifying share is made VAT-exempt first and the
+// discount is then applied to the VAT-exclusive amount. For group orders only
+// the cardholders' pro-rata share of the bill qualifies.
+export const computeStatutoryDiscount = (
+  grossTotal: number,
+  options: { cardholderCount: number; partySize: number; percentage: number; vatRate: number }
+): StatutoryDiscountBreakdown => {
+  const { cardholderCount, partySize, percentage, vatRate } = options;
+  if (cardholderCount <= 0 || grossTotal <= 0) return NO_DISCOUNT;
+
+  const headcount = Math.max(partySize, cardholderCount);
+  const qualifyingGross = (grossTotal * cardholderCount) / headcount;
+  const vatExemptSales = qualifyingGross / (1 + vatRate);
+  const vatRemoved = qualifyingGross - vatExemptSales;
+  const discountAmount = (vatExemptSales * percentage) / 100;
+
+  return { qualifyingGross, vatExemptSales, vatRemoved, discountAmount };
+};
@@ -0,0 +1,156 @@
+// Builds ESC/POS byte streams for 58mm and 80mm thermal receipt printers
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font (Font A)
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+export type TextAlignment = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  align?: TextAlignment;
+  bold?: boolean;
+  large?: boolean;   // Double width and height
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGNMENT_CODES: Record<TextAlignment, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+};
+
+// Printers run on a single-byte code page, so anything outside printable ASCII is
+// transliterated: accents are dropped and the peso sign becomes "P".
+export const toPrintableText = (text: string) =>
+  text
+    .replace(/₱/g, 'P')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/×/g, 'x')
+    .replace(/·/g, '-')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+// Breaks text on spaces so no line is longer than `columns`; longer words are split
+export const wrapText = (text: string, columns: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      let remaining = word;
+      while (remaining.length > columns) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(remaining.slice(0, columns));
+        remaining = remaining.slice(columns);
+      }
+      if (!line) {
+        line = remaining;
+      } else if (line.length + 1 + remaining.length <= columns) {
+        line += ` ${remaining}`;
+      } else {
+        lines.push(line);
+        line = remaining;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Left text and right-aligned amount on one line; the left side wraps when they don't fit
+export const formatColumns = (left: string, right: string, columns: number): string[] => {
+  const leftLines = wrapText(left, Math.max(1, columns - right.length - 1));
+  const last = leftLines[leftLines.length - 1];
+  leftLines[leftLines.length - 1] = last + ' '.repeat(Math.max(1, columns - last.length - right.length)) + right;
+  return leftLines;
+};
+
+export const createEscPosBuilder = (paperWidth: PaperWidth) => {
+  const columns = PAPER_COLUMNS[paperWidth];
+  // ESC @ resets the printer so a previous job's styles don't leak into this one
+  const bytes: number[] = [ESC, 0x40];
+
+  const pushText = (text: string) => {
+    for (const char of toPrintableText(text)) {
+      bytes.push(char.charCodeAt(0));
+    }
+    bytes.push(LF);
+  };
+
+  const setStyle = ({ align = 'left', bold = false, large = false }: TextStyle) => {
+    bytes.push(ESC, 0x61, ALIGNMENT_CODES[align]);
+    bytes.push(ESC, 0x45, bold ? 1 : 0);
+    bytes.push(GS, 0x21, large ? 0x11 : 0x00);
+  };
+
+  const builder = {
+    columns,
+
+    text(text: string, style: TextStyle = {}) {
+      setStyle(style);
+      // Double-width characters take two columns each
+      wrapText(text, style.large ? Math.floor(columns / 2) : columns).forEach(pushText);
+      setStyle({});
+      return builder;
+    },
+
+    row(left: string, right: string, style: Pick<TextStyle, 'bold'> = {}) {
+      setStyle({ bold: style.bold });
+      formatColumns(left, right, columns).forEach(pushText);
+      setStyle({});
+      return builder;
+    },
+
+    divider(char = '-') {
+      pushText(char.repeat(columns));
+      return builder;
+    },
+
+    feed(lines = 1) {
+      bytes.push(ESC, 0x64, Math.max(0, Math.min(255, lines)));
+      return builder;
+    },
+
+    // Model 2 QR code via GS ( k; `moduleSize` is the dot size of each square (1-16)
+    qrCode(data: string, moduleSize = 6) {
+      const payload = Array.from(toPrintableText(data)).map(char => char.charCodeAt(0));
+      const storeLength = payload.length + 3;
+
+      bytes.push(ESC, 0x61, ALIGNMENT_CODES.center);
+      bytes.push(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);             // Model 2
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.max(1, Math.min(16, moduleSize)));
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);                   // Error correction M
+      bytes.push(GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...payload);
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);                   // Print
+      bytes.push(LF);
+      bytes.push(ESC, 0x61, ALIGNMENT_CODES.left);
+      return builder;
+    },
+
+    // Feeds the paper past the cutter, then makes a partial cut
+    cut() {
+      bytes.push(GS, 0x56, 0x42, 0x03);
+      return builder;
+    },
+
+    toBytes() {
+      return Uint8Array.from(bytes);
+    },
+  };
+
+  return builder;
+};
+
+export type EscPosBuilder = ReturnType<typeof createEscPosBuilder>;
@@ -0,0 +1,111 @@
+export interface ModifierOption {
+  name: string;
+  price: string; // Price delta, stored as a string like size prices
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOption[];
+}
+
+// A modifier option chosen for a cart line, with the price delta frozen at the time of sale
+export interface SelectedModifier {
+  groupId: string;
+  groupName: string;
+  name: string;
+  price: number;
+}
+
+export const createModifierGroupId = () =>
+  `mod_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Required groups always need at least one pick, even if min was left at 0
+export const getMinSelections = (group: ModifierGroup) =>
+  group.required ? Math.max(1, group.minSelections || 0) : Math.max(0, group.minSelections || 0);
+
+export const getMaxSelections = (group: ModifierGroup) =>
+  Math.max(1, group.maxSelections || group.options.length);
+
+export const getModifiersTotal = (modifiers?: SelectedModifier[] | null) =>
+  (modifiers || []).reduce((sum, modifier) => sum + (modifier.price || 0), 0);
+
+export const formatModifiers = (modifiers?: SelectedModifier[] | null) =>
+  (modifiers || [])
+    .map(modifier => modifier.price > 0 ? `${modifier.name} (+₱${modifier.price.toFixed(2)})` : modifier.name)
+    .join(', ');
+
+// Stable signature so identical configurations merge into one cart line
+export const getModifiersKey = (modifiers?: SelectedModifier[] | null) =>
+  (modifiers || [])
+    .map(modifier => `${modifier.groupId}:${modifier.name}`)
+    .sort()
+    .join('|');
+
+// Validates the product editor's modifier groups; returns an error message or null
+export const validateModifierGroups = (groups?: ModifierGroup[] | null): string | null => {
+  for (const group of groups || []) {
+    if (!group.name.trim()) {
+      return 'Every modifier group needs a name';
+    }
+    if (group.options.length === 0) {
+      return `Add at least one option to ${group.name}`;
+    }
+    for (const option of group.options) {
+      if (!option.name.trim()) {
+        return `Every option in ${group.name} needs a name`;
+      }
+      if (option.price && (isNaN(Number(option.price)) || Number(option.price) < 0)) {
+        return `Price for ${option.name} must be zero or a positive number`;
+      }
+    }
+    const min = getMinSelections(group);
+    const max = getMaxSelections(group);
+    if (min > max) {
+      return `${group.name}: minimum selections cannot exceed the maximum`;
+    }
+    if (min > group.options.length) {
+      return `${group.name}: minimum selections exceeds the number of options`;
+    }
+  }
+  return null;
+};
+
+// Validates a cashier's picks against each group's rules; returns an error message or null
+export const validateModifierSelections = (
+  groups: ModifierGroup[] | null | undefined,
+  selections: { [groupId: string]: string[] }
+): string | null => {
+  for (const group of groups || []) {
+    const count = (selections[group.id] || []).length;
+    const min = getMinSelections(group);
+    const max = getMaxSelections(group);
+    if (count < min) {
+      return min === 1
+        ? `Please choose an option for ${group.name}`
+        : `Please choose at least ${min} options for ${group.name}`;
+    }
+    if (count > max) {
+      return `Choose at most ${max} options for ${group.name}`;
+    }
+  }
+  return null;
+};
+
+export const buildSelectedModifiers = (
+  groups: ModifierGroup[] | null | undefined,
+  selections: { [groupId: string]: string[] }
+): SelectedModifier[] =>
+  (groups || []).flatMap(group =>
+    group.options
+      .filter(option => (selections[group.id] || []).includes(option.name))
+      .map(option => ({
+        groupId: group.id,
+        groupName: group.name,
+        name: option.name,
+        price: Number(option.price) || 0
+      }))
+  );
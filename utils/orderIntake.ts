@@ -0,0 +1,67 @@
+import { doc, serverTimestamp, Timestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { updateOrderStatus } from './orderStatus';
+import { OrderVoid, VoidApprover, recordVoid } from './voids';
+
+// Paid customer-app orders wait as `pending` until a register accepts them with a prep
+// time or rejects them. The customer app reads the fields written here to show the
+// estimated ready time, or the rejection reason and refund status.
+export const PREP_TIME_OPTIONS = [10, 15, 20, 30, 45];
+export const DEFAULT_PREP_TIME = 15;
+
+export const REJECTION_REASONS = ['Item unavailable', 'Too busy right now', 'Closing soon'];
+
+// 'pending' until the payment is returned through the provider the customer paid with
+export type CustomerRefundStatus = 'pending' | 'refunded';
+
+export interface IntakeStaff {
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+}
+
+export const acceptOrder = (orderId: string, prepTimeMinutes: number) =>
+  updateOrderStatus(orderId, 'processing', {
+    acceptedAt: serverTimestamp(),
+    prepTimeMinutes,
+    estimatedReadyAt: Timestamp.fromMillis(Date.now() + prepTimeMinutes * 60 * 1000)
+  });
+
+// Voids the whole order, which takes its sale back out of the sales journal, and marks
+// the payment for refund. Nothing has been prepared yet, so no stock is returned. Like
+// any other void, staff need an owner's approval; it is null only when an owner rejects.
+export const rejectOrder = (
+  orderId: string,
+  order: { customerId?: string | null },
+  reason: string,
+  staff: IntakeStaff,
+  approvedBy: VoidApprover | null
+): Promise<OrderVoid> =>
+  recordVoid(
+    orderId,
+    {
+      type: 'order',
+      lines: [],
+      reason: `Rejected: ${reason}`,
+      ...staff,
+      approvedBy,
+      shiftId: null
+    },
+    {
+      customerId: order.customerId || null,
+      restock: [],
+      orderFields: {
+        rejectionReason: reason,
+        rejectedAt: serverTimestamp(),
+        refundStatus: 'pending' as CustomerRefundStatus
+      }
+    }
+  );
+
+// Records that a rejected order's payment has been returned to the customer
+export const markCustomerRefunded = (orderId: string, staff: IntakeStaff) =>
+  updateDoc(doc(db, 'orders', orderId), {
+    refundStatus: 'refunded' as CustomerRefundStatus,
+    customerRefundedAt: serverTimestamp(),
+    customerRefundedBy: staff
+  });
@@ -0,0 +1,111 @@
+import { doc, runTransaction, serverTimestamp, Transaction } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { JournalOrder, openSalesJournal } from './salesJournal';
+
+// Counter-facing numbers stamped on every order. The order number restarts at 1 each
+// business day; the official receipt (OR) number never resets.
+export interface OrderNumbers {
+  orderNumber: number;
+  receiptNumber: number;
+  businessDate: string;
+}
+
+// A daily order number taken ahead of the sale, e.g. to print on a QR Ph code before
+// the customer pays. The OR number is only issued once the sale goes through.
+export type DailyNumber = Pick<OrderNumbers, 'orderNumber' | 'businessDate'>;
+
+// Local calendar day (YYYY-MM-DD), so the daily sequence restarts at the store's midnight
+export const getBusinessDate = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const formatReceiptNumber = (receiptNumber?: number | null) =>
+  receiptNumber ? `OR-${String(receiptNumber).padStart(8, '0')}` : '';
+
+// "#42" once a number is assigned; older orders fall back to their Firestore ID fragment
+export const getOrderLabel = (order: { id: string; orderNumber?: number | null }) =>
+  order.orderNumber ? `#${order.orderNumber}` : `#${order.id.slice(-6)}`;
+
+// Matches "42", "#42", "OR-00000123" or "123" against an order's numbers
+export const matchesOrderNumber = (
+  order: { orderNumber?: number | null; receiptNumber?: number | null },
+  term: string
+) => {
+  const needle = term.trim().toUpperCase();
+  if (!needle) return false;
+  const digits = needle.replace(/^#|^OR-?/, '');
+  if (!/^\d+$/.test(digits)) return false;
+  return Number(digits) === order.orderNumber || Number(digits) === order.receiptNumber;
+};
+
+// "20261019-42": the business date and daily order number, so an e-wallet statement line
+// can be matched back to its order
+export const formatOrderReference = (numbers: DailyNumber) =>
+  `${numbers.businessDate.replace(/-/g, '')}-${numbers.orderNumber}`;
+
+// Takes the next numbers inside a caller's transaction. Firestore requires every read to
+// happen before any write, so call this after the caller's own reads. A `daily` number
+// reserved earlier is kept, and only the OR number is issued.
+export const reserveOrderNumbers = async (
+  transaction: Transaction,
+  daily: DailyNumber | null = null
+): Promise<OrderNumbers> => {
+  const counterRef = doc(db, 'counters', 'orders');
+  const counter = await transaction.get(counterRef);
+  const data = counter.exists() ? counter.data() : null;
+  const receiptNumber = (data?.receiptNumber || 0) + 1;
+
+  if (daily) {
+    transaction.set(counterRef, { receiptNumber, updatedAt: serverTimestamp() }, { merge: true });
+    return { ...daily, receiptNumber };
+  }
+
+  const businessDate = getBusinessDate();
+  const orderNumber = data?.businessDate === businessDate ? (data.dailyNumber || 0) + 1 : 1;
+
+  transaction.set(counterRef, {
+    businessDate,
+    dailyNumber: orderNumber,
+    receiptNumber,
+    updatedAt: serverTimestamp()
+  });
+
+  return { orderNumber, receiptNumber, businessDate };
+};
+
+export const allocateOrderNumbers = (daily: DailyNumber | null = null) =>
+  runTransaction(db, transaction => reserveOrderNumbers(transaction, daily));
+
+// Takes only the next daily order number, leaving the OR sequence untouched so a
+// checkout that is abandoned never leaves a gap in the receipts
+export const allocateDailyNumber = () =>
+  runTransaction(db, async (transaction): Promise<DailyNumber> => {
+    const counterRef = doc(db, 'counters', 'orders');
+    const counter = await transaction.get(counterRef);
+    const data = counter.exists() ? counter.data() : null;
+
+    const businessDate = getBusinessDate();
+    const orderNumber = data?.businessDate === businessDate ? (data.dailyNumber || 0) + 1 : 1;
+
+    transaction.set(counterRef, {
+      businessDate,
+      dailyNumber: orderNumber,
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+
+    return { orderNumber, businessDate };
+  });
+
+// Numbers a customer-app order the first time a register sees it and journals the sale
+// against its receipt. Safe to call from several registers at once: only the first
+// transaction to commit assigns numbers.
+export const assignOrderNumbers = (orderId: string) =>
+  runTransaction(db, async (transaction) => {
+    const orderRef = doc(db, 'orders', orderId);
+    const order = await transaction.get(orderRef);
+    if (!order.exists() || order.data().orderNumber) return;
+
+    const journal = await openSalesJournal(transaction);
+    const numbers = await reserveOrderNumbers(transaction);
+    transaction.update(orderRef, { ...numbers });
+    journal.recordSale(orderId, { ...(order.data() as JournalOrder), ...numbers }, numbers.businessDate);
+  });
@@ -0,0 +1,229 @@
+import { collection, doc, getDocs, query, runTransaction, increment, where, Timestamp } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { getBusinessDate, reserveOrderNumbers } from './orderNumbers';
+import { openSalesJournal } from './salesJournal';
+import {
+  insertQueueRow,
+  getQueueRows,
+  getQueueRow,
+  updateQueueRow,
+  deleteQueueRow,
+  deleteSyncedRowsBefore
+} from './orderQueueStore';
+
+// 'stuck' sales failed too many times in a row and wait for the cashier to retry or discard them
+export type QueuedOrderStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'stuck';
+
+// Follow-up writes that must land together with the order when it is replayed
+export interface QueuedOrderEffects {
+  voucherUsage?: {
+    voucherId: string;
+    code: string;
+    customerEmail: string | null;
+    discountAmount: number;
+    maxUsagePerUser?: number;   // Per-customer limit, checked again when the sale replays
+  } | null;
+  customerPoints?: {
+    customerId: string;
+    pointsDelta: number;
+  } | null;
+}
+
+export interface QueuedOrder {
+  id: string;
+  status: QueuedOrderStatus;
+  total: number;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  syncedAt: Date | null;
+}
+
+// One stored sale, as kept by orderQueueStore (SQLite on native, AsyncStorage on web)
+export interface QueueRow {
+  id: string;
+  payload: string;
+  effects: string;
+  status: QueuedOrderStatus;
+  total: number;
+  attempts: number;
+  last_error: string | null;
+  created_at: number;
+  synced_at: number | null;
+}
+
+// Synced rows are kept for a day so the cashier can still see what went through
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Failed replays are retried on every sync until this many attempts
+const MAX_SYNC_ATTEMPTS = 5;
+
+const toQueuedOrder = (row: QueueRow): QueuedOrder => ({
+  id: row.id,
+  status: row.status,
+  total: row.total,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  createdAt: new Date(row.created_at),
+  syncedAt: row.synced_at ? new Date(row.synced_at) : null
+});
+
+// Firestore assigns auto IDs on the client, so this works without a connection
+export const createOrderId = () => doc(collection(db, 'orders')).id;
+
+// Stores a completed sale locally. Timestamps are added on replay from the queued time,
+// so the order data must be plain JSON (no serverTimestamp sentinels).
+export const enqueueOrder = (id: string, order: { total: number; [key: string]: any }, effects: QueuedOrderEffects) =>
+  insertQueueRow({
+    id,
+    payload: JSON.stringify(order),
+    effects: JSON.stringify(effects),
+    status: 'pending',
+    total: order.total,
+    attempts: 0,
+    last_error: null,
+    created_at: Date.now(),
+    synced_at: null
+  });
+
+// Newest sale first
+export const getQueuedOrders = async (): Promise<QueuedOrder[]> =>
+  (await getQueueRows()).reverse().map(toQueuedOrder);
+
+// Patches a sale that has not started replaying yet; returns false once Firestore owns it
+export const updateQueuedOrder = async (id: string, fields: { [key: string]: any }) => {
+  const row = await getQueueRow(id);
+  if (!row || (row.status !== 'pending' && row.status !== 'failed' && row.status !== 'stuck')) return false;
+
+  await updateQueueRow(id, { payload: JSON.stringify({ ...JSON.parse(row.payload), ...fields }) });
+  return true;
+};
+
+// Transactions can't run queries, so redemptions of a voucher with a per-customer limit
+// are also counted in one document per voucher and customer
+const getVoucherRedemptionRef = (voucherId: string, customerEmail: string) =>
+  doc(db, 'voucherRedemptions', `${voucherId}_${encodeURIComponent(customerEmail)}`);
+
+const replayOrder = async (row: QueueRow) => {
+  const orderRef = doc(db, 'orders', row.id);
+  const soldAt = Timestamp.fromMillis(row.created_at);
+  const order = JSON.parse(row.payload);
+  const effects: QueuedOrderEffects = JSON.parse(row.effects);
+
+  const { maxUsagePerUser = 0, ...voucherUsage } = effects.voucherUsage || {};
+  const limitedVoucher = effects.voucherUsage && effects.voucherUsage.customerEmail && maxUsagePerUser > 0
+    ? { ...effects.voucherUsage, customerEmail: effects.voucherUsage.customerEmail }
+    : null;
+  // Redemptions made before the count existed are only in voucherUsage
+  const pastRedemptions = limitedVoucher
+    ? (await getDocs(query(
+        collection(db, 'voucherUsage'),
+        where('voucherId', '==', limitedVoucher.voucherId),
+        where('customerEmail', '==', limitedVoucher.customerEmail)
+      ))).size
+    : 0;
+
+  await runTransaction(db, async (transaction) => {
+    // A previous attempt may have committed before we could mark it synced
+    const existing = await transaction.get(orderRef);
+    if (existing.exists()) return;
+
+    // A customer deleted since the sale can't be credited, but the sale still goes through
+    const customerRef = effects.customerPoints ? doc(db, 'users', effects.customerPoints.customerId) : null;
+    const customer = customerRef ? await transaction.get(customerRef) : null;
+
+    // Another register may have redeemed the same voucher for this customer meanwhile
+    const redemptionRef = limitedVoucher
+      ? getVoucherRedemptionRef(limitedVoucher.voucherId, limitedVoucher.customerEmail)
+      : null;
+    const redemption = redemptionRef ? await transaction.get(redemptionRef) : null;
+    const redemptions = redemption?.exists() ? redemption.data().count || 0 : pastRedemptions;
+    if (limitedVoucher && redemptions >= maxUsagePerUser) {
+      throw new Error(`${limitedVoucher.code} has already been used ${redemptions} time(s) by this customer`);
+    }
+
+    const journal = await openSalesJournal(transaction);
+    // Sales rung up offline are numbered when they reach Firestore, keeping any daily
+    // number already reserved for a QR Ph code
+    const numbers = order.receiptNumber
+      ? {}
+      : await reserveOrderNumbers(
+          transaction,
+          order.orderNumber ? { orderNumber: order.orderNumber, businessDate: order.businessDate } : null
+        );
+
+    transaction.set(orderRef, {
+      ...order,
+      ...numbers,
+      createdAt: soldAt,
+      completedAt: soldAt,
+      processingStartTime: soldAt,
+      readyTime: soldAt,
+      syncedAt: Timestamp.now()
+    });
+    // Journaled under the day its receipt number was issued, which keeps each day's OR range unbroken
+    const sale = { ...order, ...numbers };
+    journal.recordSale(row.id, sale, sale.businessDate || getBusinessDate());
+
+    if (effects.voucherUsage) {
+      transaction.set(doc(db, 'voucherUsage', row.id), {
+        ...voucherUsage,
+        orderId: row.id,
+        usedAt: soldAt
+      });
+    }
+    if (limitedVoucher && redemptionRef) {
+      transaction.set(redemptionRef, {
+        voucherId: limitedVoucher.voucherId,
+        customerEmail: limitedVoucher.customerEmail,
+        count: redemptions + 1,
+        updatedAt: soldAt
+      });
+    }
+
+    if (effects.customerPoints && customerRef && customer?.exists()) {
+      transaction.update(customerRef, {
+        points: increment(effects.customerPoints.pointsDelta),
+        lastVisit: soldAt
+      });
+    }
+  });
+};
+
+// Replays every unsynced order in the order it was sold; returns how many are still unsynced
+export const syncQueuedOrders = async (): Promise<number> => {
+  const rows = await getQueueRows(['pending', 'failed', 'syncing']);
+
+  let remaining = 0;
+  for (const row of rows) {
+    await updateQueueRow(row.id, { status: 'syncing' });
+    try {
+      await replayOrder(row);
+      await updateQueueRow(row.id, { status: 'synced', synced_at: Date.now(), last_error: null });
+    } catch (error) {
+      console.error('Error syncing queued order:', row.id, error);
+      remaining += 1;
+      await updateQueueRow(row.id, {
+        status: row.attempts + 1 >= MAX_SYNC_ATTEMPTS ? 'stuck' : 'failed',
+        attempts: row.attempts + 1,
+        last_error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  await deleteSyncedRowsBefore(Date.now() - SYNCED_RETENTION_MS);
+
+  return remaining;
+};
+
+// Puts a stuck sale back in line with a fresh set of attempts
+export const retryQueuedOrder = (id: string) =>
+  updateQueueRow(id, { status: 'pending', attempts: 0 });
+
+// Drops a sale that never reached Firestore; returns false once it is synced or syncing
+export const discardQueuedOrder = async (id: string) => {
+  const row = await getQueueRow(id);
+  if (!row || (row.status !== 'failed' && row.status !== 'stuck')) return false;
+  await deleteQueueRow(id);
+  return true;
+};
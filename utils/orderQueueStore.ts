@@ -0,0 +1,84 @@
+import * as SQLite from 'expo-sqlite';
+import type { QueueRow, QueuedOrderStatus } from './orderQueue';
+
+// Native storage for the offline order queue. expo-sqlite has no web build, so the web
+// app resolves orderQueueStore.web.ts instead; both expose the same functions.
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const getDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const database = await SQLite.openDatabaseAsync('nookpay-queue.db');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS queued_orders (
+          id TEXT PRIMARY KEY NOT NULL,
+          payload TEXT NOT NULL,
+          effects TEXT NOT NULL,
+          status TEXT NOT NULL,
+          total REAL NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at INTEGER NOT NULL,
+          synced_at INTEGER
+        );
+      `);
+      return database;
+    })();
+  }
+  return databasePromise;
+};
+
+export const insertQueueRow = async (row: QueueRow) => {
+  const database = await getDatabase();
+  await database.runAsync(
+    'INSERT INTO queued_orders (id, payload, effects, status, total, attempts, last_error, created_at, synced_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    row.id,
+    row.payload,
+    row.effects,
+    row.status,
+    row.total,
+    row.attempts,
+    row.last_error,
+    row.created_at,
+    row.synced_at
+  );
+};
+
+// Rows in the given statuses (all rows when omitted), oldest sale first
+export const getQueueRows = async (statuses?: QueuedOrderStatus[]) => {
+  const database = await getDatabase();
+  if (!statuses) {
+    return database.getAllAsync<QueueRow>('SELECT * FROM queued_orders ORDER BY created_at ASC');
+  }
+  return database.getAllAsync<QueueRow>(
+    `SELECT * FROM queued_orders WHERE status IN (${statuses.map(() => '?').join(', ')}) ORDER BY created_at ASC`,
+    ...statuses
+  );
+};
+
+export const getQueueRow = async (id: string) => {
+  const database = await getDatabase();
+  return database.getFirstAsync<QueueRow>('SELECT * FROM queued_orders WHERE id = ?', id);
+};
+
+export const updateQueueRow = async (id: string, fields: Partial<Omit<QueueRow, 'id'>>) => {
+  const columns = Object.keys(fields) as (keyof typeof fields)[];
+  if (columns.length === 0) return;
+  const database = await getDatabase();
+  await database.runAsync(
+    `UPDATE queued_orders SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+    ...columns.map(column => fields[column] ?? null),
+    id
+  );
+};
+
+export const deleteQueueRow = async (id: string) => {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM queued_orders WHERE id = ?', id);
+};
+
+export const deleteSyncedRowsBefore = async (time: number) => {
+  const database = await getDatabase();
+  await database.runAsync("DELETE FROM queued_orders WHERE status = 'synced' AND synced_at < ?", time);
+};
@@ -0,0 +1,60 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { QueueRow, QueuedOrderStatus } from './orderQueue';
+
+// Web storage for the offline order queue, kept as one JSON list in AsyncStorage
+// (localStorage in the browser). Mirrors orderQueueStore.ts.
+
+const STORAGE_KEY = 'nookpay-queued-orders';
+
+// Every change is a read-modify-write of the whole list, so changes run one at a time
+let pending: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = pending.then(task);
+  pending = result.catch(() => {});
+  return result;
+};
+
+const readRows = async (): Promise<QueueRow[]> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeRows = (rows: QueueRow[]) => AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(rows));
+
+export const insertQueueRow = (row: QueueRow) =>
+  serialize(async () => {
+    const rows = await readRows();
+    if (rows.some(existing => existing.id === row.id)) {
+      throw new Error(`Order ${row.id} is already queued`);
+    }
+    await writeRows([...rows, row]);
+  });
+
+// Rows in the given statuses (all rows when omitted), oldest sale first
+export const getQueueRows = (statuses?: QueuedOrderStatus[]) =>
+  serialize(async () =>
+    (await readRows())
+      .filter(row => !statuses || statuses.includes(row.status))
+      .sort((a, b) => a.created_at - b.created_at)
+  );
+
+export const getQueueRow = (id: string) =>
+  serialize(async () => (await readRows()).find(row => row.id === id) || null);
+
+export const updateQueueRow = (id: string, fields: Partial<Omit<QueueRow, 'id'>>) =>
+  serialize(async () => {
+    const rows = await readRows();
+    await writeRows(rows.map(row => (row.id === id ? { ...row, ...fields } : row)));
+  });
+
+export const deleteQueueRow = (id: string) =>
+  serialize(async () => {
+    await writeRows((await readRows()).filter(row => row.id !== id));
+  });
+
+export const deleteSyncedRowsBefore = (time: number) =>
+  serialize(async () => {
+    const rows = await readRows();
+    await writeRows(rows.filter(row => !(row.status === 'synced' && (row.synced_at || 0) < time)));
+  });
@@ -0,0 +1,50 @@
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { auth, db } from '../firebaseConfig';
+
+export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled' | 'refunded' | 'ready for pickup';
+
+export interface StatusStaffInfo {
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+}
+
+// Time recorded when an order enters each stage
+const STATUS_TIMESTAMP_FIELDS: Partial<Record<OrderStatus, string>> = {
+  'processing': 'processingStartTime',
+  'ready for pickup': 'readyTime',
+  'completed': 'completedAt'
+};
+
+// Moves an order to a new status and records who moved it, along with any extra fields
+// for that step. Returns the staff fields so screens can patch their local copy without
+// waiting for a snapshot.
+export const updateOrderStatus = async (
+  orderId: string,
+  newStatus: OrderStatus,
+  fields: { [key: string]: any } = {}
+): Promise<StatusStaffInfo> => {
+  const currentUser = auth.currentUser;
+
+  // Get user role and name from Firestore
+  const userDoc = await getDoc(doc(db, 'users', currentUser?.uid || ''));
+  const userData = userDoc.exists() ? userDoc.data() : null;
+  const staffName = userData?.name || 'Unknown Staff';
+  const isOwner = userData?.role === 'owner';
+
+  const staffInfo = {
+    staffId: currentUser?.uid || 'unknown',
+    staffName: isOwner ? `${staffName}` : staffName,
+    staffEmail: currentUser?.email || 'No Email'
+  };
+
+  const timestampField = STATUS_TIMESTAMP_FIELDS[newStatus];
+  await updateDoc(doc(db, 'orders', orderId), {
+    status: newStatus,
+    ...(timestampField ? { [timestampField]: serverTimestamp() } : {}),
+    ...fields,
+    ...staffInfo
+  });
+
+  return staffInfo;
+};
@@ -0,0 +1,97 @@
+import { CURRENCY_TOLERANCE } from './pricing';
+
+export type PaymentMethod = 'cash' | 'gcash' | 'maya' | 'grabpay' | 'points';
+
+export interface PaymentTender {
+  method: PaymentMethod;
+  amount: number;
+  referenceNumber?: string | null;
+  // E-wallets only: reference carried in the QR Ph code the customer scanned
+  qrReference?: string | null;
+  // Cash only: what the customer handed over and the change returned.
+  // `amount` is always the portion applied to the order.
+  amountTendered?: number | null;
+  change?: number | null;
+  // Loyalty points only: number of points consumed for `amount`
+  pointsRedeemed?: number | null;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  gcash: 'GCash',
+  maya: 'Maya',
+  grabpay: 'GrabPay',
+  points: 'Points',
+};
+
+export const PAYMENT_METHOD_COLORS: Record<PaymentMethod, string> = {
+  cash: '#4F46E5',
+  gcash: '#00a6ce',
+  maya: '#5cc6c8',
+  grabpay: '#00b14f',
+  points: '#F59E0B',
+};
+
+// Quick-tender buttons shown on the cash keypad
+export const CASH_DENOMINATIONS = [20, 50, 100, 200, 500, 1000];
+
+export const getPaymentMethodLabel = (method: string) =>
+  PAYMENT_METHOD_LABELS[method as PaymentMethod] || method;
+
+// Label for a single tender line on receipts, including its reference or points used
+export const formatTenderLabel = (payment: PaymentTender) => {
+  let label = getPaymentMethodLabel(payment.method);
+  if (payment.referenceNumber) label += ` (Ref: ${payment.referenceNumber})`;
+  if (payment.qrReference) label += ` (QR: ${payment.qrReference})`;
+  if (payment.pointsRedeemed) label += ` (${payment.pointsRedeemed} pts)`;
+  return label;
+};
+
+export const getPointsRedeemed = (payments: PaymentTender[]) =>
+  payments.reduce((sum, payment) => sum + (payment.pointsRedeemed || 0), 0);
+
+export const getTenderedTotal = (payments: PaymentTender[]) =>
+  payments.reduce((sum, payment) => sum + (payment.amount || 0), 0);
+
+export const getRemainingBalance = (total: number, payments: PaymentTender[]) => {
+  const remaining = total - getTenderedTotal(payments);
+  return remaining > CURRENCY_TOLERANCE ? remaining : 0;
+};
+
+export const isFullyTendered = (total: number, payments: PaymentTender[]) =>
+  payments.length > 0 && getRemainingBalance(total, payments) === 0;
+
+export const getCashTendered = (payments: PaymentTender[]) =>
+  payments
+    .filter(payment => payment.method === 'cash')
+    .reduce((sum, payment) => sum + (payment.amountTendered ?? payment.amount ?? 0), 0);
+
+export const getChangeDue = (payments: PaymentTender[]) =>
+  payments.reduce((sum, payment) => sum + (payment.change || 0), 0);
+
+// Orders created before split tender only carry a single paymentMethod string,
+// so fall back to treating the whole total as paid with that method.
+export const getOrderPayments = (order: {
+  payments?: PaymentTender[] | null;
+  paymentMethod?: string | null;
+  total?: number;
+}): PaymentTender[] => {
+  if (order.payments && order.payments.length > 0) {
+    return order.payments;
+  }
+  if (order.paymentMethod) {
+    return [{ method: order.paymentMethod as PaymentMethod, amount: order.total || 0 }];
+  }
+  return [];
+};
+
+export const formatPaymentSummary = (order: {
+  payments?: PaymentTender[] | null;
+  paymentMethod?: string | null;
+  total?: number;
+}) => {
+  const payments = getOrderPayments(order);
+  if (payments.length === 0) return 'N/A';
+  if (payments.length === 1) return getPaymentMethodLabel(payments[0].method);
+  return payments.map(payment => getPaymentMethodLabel(payment.method)).join(' + ');
+};
@@ -0,0 +1,135 @@
+import { StatutoryDiscountBreakdown, computeStatutoryDiscount } from './discounts';
+
+export type TaxClass = 'vatable' | 'vat-exempt' | 'zero-rated';
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  'vatable': 'VATable',
+  'vat-exempt': 'VAT-Exempt',
+  'zero-rated': 'Zero-Rated'
+};
+
+// Store-wide tax configuration kept under settings/config.tax
+export interface TaxSettings {
+  rate: number;              // Percentage, e.g. 12
+  pricesIncludeVat: boolean; // True when shelf prices already contain VAT
+  label: string;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  rate: 12,
+  pricesIncludeVat: true,
+  label: 'VAT'
+};
+
+// Everything needed to price a cart. Line prices are shelf prices; lines without
+// a tax class are treated as VATable.
+export interface PricingInput {
+  lines: { price: number; quantity: number; taxClass?: TaxClass | null }[];
+  vatRate: number;           // e.g. 0.12
+  pricesIncludeVat: boolean;
+  serviceChargeRate: number; // Percentage of net sales; 0 when not auto-applied
+  statutoryDiscount?: {
+    cardholderCount: number;
+    partySize: number;
+    percentage: number;
+  } | null;
+  voucher?: {
+    discountAmount: number;
+    minimumOrderAmount: number;
+  } | null;
+  pointsTendered?: number;   // Peso value of points already applied as a tender
+}
+
+// Fully itemised totals. Every amount is rounded to centavos and the rows add up:
+// netSales + vatAmount + serviceCharge - statutory.discountAmount - voucherDiscount = total
+export interface PricingBreakdown {
+  grossSales: number;     // Sum of cart lines at shelf price
+  netSales: number;       // Sales net of VAT: vatableSales + vatExemptSales + zeroRatedSales
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number; // VAT-exempt items plus the PWD/Senior share of VATable items
+  zeroRatedSales: number;
+  vatRate: number;
+  pricesIncludeVat: boolean;
+  serviceCharge: number;
+  serviceChargeRate: number;
+  statutory: StatutoryDiscountBreakdown;
+  voucherDiscount: number;
+  voucherApplied: boolean; // False when the cart is below the voucher's minimum order
+  total: number;
+  pointsTendered: number;
+  balanceDue: number;      // Total less points already tendered
+}
+
+export const roundCurrency = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+// Amounts within half a centavo are treated as settled
+export const CURRENCY_TOLERANCE = 0.005;
+
+const sumLines = (lines: PricingInput['lines'], taxClass: TaxClass) =>
+  lines
+    .filter(line => (line.taxClass || 'vatable') === taxClass)
+    .reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+export const computePricing = (input: PricingInput): PricingBreakdown => {
+  const grossSales = roundCurrency(
+    input.lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+  );
+  const vatableGross = roundCurrency(sumLines(input.lines, 'vatable'));
+  const exemptGross = roundCurrency(sumLines(input.lines, 'vat-exempt'));
+  const zeroRatedGross = roundCurrency(sumLines(input.lines, 'zero-rated'));
+
+  // PWD/Senior: the cardholders' share of VATable items becomes VAT-exempt, and the
+  // discount applies to their share of every item net of VAT. Exclusive prices carry
+  // no VAT to remove, so only inclusive prices use the VAT rate here.
+  const discountOptions = input.statutoryDiscount || { cardholderCount: 0, partySize: 1, percentage: 0 };
+  const vatableShare = computeStatutoryDiscount(vatableGross, {
+    ...discountOptions,
+    vatRate: input.pricesIncludeVat ? input.vatRate : 0
+  });
+  const otherShare = computeStatutoryDiscount(exemptGross + zeroRatedGross, { ...discountOptions, vatRate: 0 });
+  const statutory: StatutoryDiscountBreakdown = {
+    qualifyingGross: roundCurrency(vatableShare.qualifyingGross + otherShare.qualifyingGross),
+    vatExemptSales: roundCurrency(vatableShare.vatExemptSales),
+    vatRemoved: roundCurrency(vatableShare.vatRemoved),
+    discountAmount: roundCurrency(vatableShare.discountAmount + otherShare.discountAmount)
+  };
+
+  // VAT is backed out of inclusive prices, or added on top of exclusive ones
+  const remainingVatable = vatableGross - roundCurrency(vatableShare.qualifyingGross);
+  const vatableSales = roundCurrency(input.pricesIncludeVat ? remainingVatable / (1 + input.vatRate) : remainingVatable);
+  const vatAmount = roundCurrency(input.pricesIncludeVat ? remainingVatable - vatableSales : remainingVatable * input.vatRate);
+  const vatExemptSales = roundCurrency(exemptGross + statutory.vatExemptSales);
+  const netSales = roundCurrency(vatableSales + vatExemptSales + zeroRatedGross);
+
+  const serviceCharge = roundCurrency((netSales * (input.serviceChargeRate || 0)) / 100);
+
+  const beforeVoucher = netSales + vatAmount + serviceCharge - statutory.discountAmount;
+  const voucherApplied = !!input.voucher && grossSales >= (input.voucher.minimumOrderAmount || 0);
+  // Capped so the total never goes negative
+  const voucherDiscount = voucherApplied
+    ? roundCurrency(Math.min(input.voucher!.discountAmount || 0, Math.max(beforeVoucher, 0)))
+    : 0;
+
+  const total = roundCurrency(beforeVoucher - voucherDiscount);
+  const pointsTendered = roundCurrency(Math.min(input.pointsTendered || 0, total));
+
+  return {
+    grossSales,
+    netSales,
+    vatableSales,
+    vatAmount,
+    vatExemptSales,
+    zeroRatedSales: zeroRatedGross,
+    vatRate: input.vatRate,
+    pricesIncludeVat: input.pricesIncludeVat,
+    serviceCharge,
+    serviceChargeRate: input.serviceChargeRate || 0,
+    statutory,
+    voucherDiscount,
+    voucherApplied,
+    total,
+    pointsTendered,
+    balanceDue: roundCurrency(total - pointsTendered)
+  };
+};
@@ -0,0 +1,92 @@
+import { Platform } from 'react-native';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { PaperWidth, createEscPosBuilder } from './escpos';
+
+// Raw TCP needs the native socket module, which has no web implementation
+const TcpSocket = Platform.OS !== 'web' ? require('react-native-tcp-socket').default : null;
+
+export interface PrinterSettings {
+  host: string;
+  port: number;
+  paperWidth: PaperWidth;
+}
+
+// Port 9100 is the raw printing (JetDirect) port on network receipt printers
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  host: '',
+  port: 9100,
+  paperWidth: 80,
+};
+
+const PRINT_TIMEOUT_MS = 10000;
+
+export const isPrinterConfigured = (settings: PrinterSettings) => !!settings.host.trim();
+
+export const toPrinterSettings = (data?: Partial<PrinterSettings> | null): PrinterSettings => ({
+  host: data?.host ?? DEFAULT_PRINTER_SETTINGS.host,
+  port: data?.port || DEFAULT_PRINTER_SETTINGS.port,
+  paperWidth: data?.paperWidth === 58 ? 58 : DEFAULT_PRINTER_SETTINGS.paperWidth,
+});
+
+export const loadPrinterSettings = async () => {
+  const settingsDoc = await getDoc(doc(db, 'settings', 'config'));
+  return toPrinterSettings(settingsDoc.exists() ? settingsDoc.data().printer : null);
+};
+
+// Sends a finished ESC/POS job and resolves once the printer has received all of it
+export const sendToPrinter = (settings: PrinterSettings, data: Uint8Array) =>
+  new Promise<void>((resolve, reject) => {
+    if (!TcpSocket) {
+      reject(new Error('Network printing is only available in the mobile app'));
+      return;
+    }
+    if (!isPrinterConfigured(settings)) {
+      reject(new Error('No receipt printer has been set up'));
+      return;
+    }
+
+    let settled = false;
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if (error) {
+        socket.destroy();
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const socket = TcpSocket.createConnection(
+      { host: settings.host.trim(), port: settings.port },
+      () => {
+        socket.write(data, undefined, () => socket.end());
+      }
+    );
+
+    const timeout = setTimeout(
+      () => finish(new Error(`Printer at ${settings.host}:${settings.port} did not respond`)),
+      PRINT_TIMEOUT_MS
+    );
+
+    socket.on('error', (error: Error) => finish(error));
+    socket.on('close', () => finish());
+  });
+
+export const printTestPage = (settings: PrinterSettings) => {
+  const receipt = createEscPosBuilder(settings.paperWidth)
+    .text("Brothers' Nook", { align: 'center', bold: true, large: true })
+    .text('Printer Test', { align: 'center' })
+    .divider()
+    .text(`Paper width: ${settings.paperWidth}mm`)
+    .text(`Address: ${settings.host}:${settings.port}`)
+    .row('Left column', 'Right')
+    .divider()
+    .qrCode(`PRINTER-TEST ${new Date().toISOString()}`)
+    .feed(2)
+    .cut();
+
+  return sendToPrinter(settings, receipt.toBytes());
+};
@@ -0,0 +1,94 @@
+// Merchant details for QR Ph, the national EMVCo QR standard that GCash, Maya and the
+// other Philippine e-wallets all scan. They come from the merchant's acquiring bank.
+export interface QrPhSettings {
+  enabled: boolean;
+  merchantName: string;
+  merchantCity: string;
+  postalCode: string;
+  merchantCategoryCode: string;
+  acquirerId: string;   // Acquirer's BIC, e.g. "GXCHPHM2XXX"
+  merchantId: string;
+}
+
+// MCC 5814 is fast food restaurants
+export const DEFAULT_QRPH_SETTINGS: QrPhSettings = {
+  enabled: false,
+  merchantName: '',
+  merchantCity: '',
+  postalCode: '',
+  merchantCategoryCode: '5814',
+  acquirerId: '',
+  merchantId: '',
+};
+
+// Globally unique identifier for person-to-merchant QR Ph payments
+const QRPH_P2M_GUID = 'ph.ppmi.p2m';
+const PHP_CURRENCY_CODE = '608';
+
+export const toQrPhSettings = (data?: Partial<QrPhSettings> | null): QrPhSettings => ({
+  enabled: data?.enabled ?? DEFAULT_QRPH_SETTINGS.enabled,
+  merchantName: data?.merchantName ?? DEFAULT_QRPH_SETTINGS.merchantName,
+  merchantCity: data?.merchantCity ?? DEFAULT_QRPH_SETTINGS.merchantCity,
+  postalCode: data?.postalCode ?? DEFAULT_QRPH_SETTINGS.postalCode,
+  merchantCategoryCode: data?.merchantCategoryCode || DEFAULT_QRPH_SETTINGS.merchantCategoryCode,
+  acquirerId: data?.acquirerId ?? DEFAULT_QRPH_SETTINGS.acquirerId,
+  merchantId: data?.merchantId ?? DEFAULT_QRPH_SETTINGS.merchantId,
+});
+
+export const isQrPhConfigured = (settings: QrPhSettings) =>
+  settings.enabled &&
+  !!settings.merchantName.trim() &&
+  !!settings.merchantCity.trim() &&
+  !!settings.acquirerId.trim() &&
+  !!settings.merchantId.trim() &&
+  /^\d{4}$/.test(settings.merchantCategoryCode);
+
+// EMVCo fields are plain ASCII with a two-digit length, so accents are dropped and long
+// values are cut to the field's limit
+const toEmvText = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+    .slice(0, maxLength);
+
+// One ID-length-value field
+const tlv = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// CRC-16/CCITT-FALSE over the whole payload, including the CRC field's own ID and length
+const crc16 = (payload: string) => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Dynamic (single-use) QR Ph payload for an exact amount
+export const buildQrPhPayload = (settings: QrPhSettings, amount: number, reference: string) => {
+  const postalCode = toEmvText(settings.postalCode, 10);
+  const payload = [
+    tlv('00', '01'),                      // Payload format indicator
+    tlv('01', '12'),                      // Dynamic QR
+    tlv('28', [
+      tlv('00', QRPH_P2M_GUID),
+      tlv('01', toEmvText(settings.acquirerId, 11)),
+      tlv('03', toEmvText(settings.merchantId, 25))
+    ].join('')),
+    tlv('52', settings.merchantCategoryCode),
+    tlv('53', PHP_CURRENCY_CODE),
+    tlv('54', amount.toFixed(2)),
+    tlv('58', 'PH'),
+    tlv('59', toEmvText(settings.merchantName, 25)),
+    tlv('60', toEmvText(settings.merchantCity, 15)),
+    ...(postalCode ? [tlv('61', postalCode)] : []),
+    tlv('62', tlv('05', toEmvText(reference, 25))),   // Reference label
+    '6304'
+  ].join('');
+  return payload + crc16(payload);
+};
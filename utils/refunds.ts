@@ -0,0 +1,262 @@
+import { doc, runTransaction, serverTimestamp, arrayUnion, DocumentSnapshot } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { PaymentMethod, getOrderPayments, PaymentTender } from './payments';
+import { CURRENCY_TOLERANCE, roundCurrency } from './pricing';
+import { getBusinessDate } from './orderNumbers';
+import { JournalOrder, openSalesJournal } from './salesJournal';
+
+// A refunded quantity of one order line; `amount` is what the customer paid for it
+export interface RefundLine {
+  itemIndex: number;
+  name: string;
+  quantity: number;
+  amount: number;
+  restocked: boolean;
+}
+
+// One refund against an order. An order can carry several until its total is used up.
+export interface OrderRefund {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  lines: RefundLine[];      // Empty for a custom-amount refund
+  reason: string;
+  pointsReversed: number;   // Earned points taken back from the customer
+  pointsCredited: number;   // Points returned when refunding to the points tender
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+  shiftId?: string | null;  // Shift whose cash drawer paid it out
+  createdAt: string;
+}
+
+export interface RefundableOrder {
+  total: number;
+  status?: string;
+  items?: { name: string; quantity: number; price?: number; total?: number }[];
+  refunds?: OrderRefund[] | null;
+  refundedAmount?: number | null;
+  // Voided lines and amounts (see voids.ts) also come off what can still be refunded
+  voids?: { amount: number; lines: RefundLine[]; pointsReversed: number }[] | null;
+  voidedAmount?: number | null;
+  pointsEarned?: number | null;
+  payments?: PaymentTender[] | null;
+  paymentMethod?: string | null;
+}
+
+export interface RestockTarget {
+  inventoryId: string;
+  quantity: number;
+}
+
+// Orders refunded before partial refunds were a single status flip with no refund records
+const isLegacyFullRefund = (order: RefundableOrder) =>
+  order.status === 'refunded' && !(order.refunds && order.refunds.length > 0);
+
+// Likewise, orders cancelled before voids were tracked carry no void records
+const isLegacyCancel = (order: RefundableOrder) =>
+  order.status === 'cancelled' && !(order.voids && order.voids.length > 0);
+
+export const getRefundedAmount = (order: RefundableOrder) => {
+  if (isLegacyFullRefund(order)) return order.total || 0;
+  return roundCurrency(order.refundedAmount || 0);
+};
+
+export const getVoidedAmount = (order: RefundableOrder) => {
+  if (isLegacyCancel(order)) return order.total || 0;
+  return roundCurrency(order.voidedAmount || 0);
+};
+
+export const getRemainingRefundable = (order: RefundableOrder) =>
+  Math.max(0, roundCurrency((order.total || 0) - getRefundedAmount(order) - getVoidedAmount(order)));
+
+// What the order still contributes to sales after refunds and voids
+export const getOrderNetTotal = (order: RefundableOrder) =>
+  Math.max(0, roundCurrency((order.total || 0) - getRefundedAmount(order) - getVoidedAmount(order)));
+
+export const getRefundedQuantity = (order: RefundableOrder, itemIndex: number) => {
+  if (isLegacyFullRefund(order)) return order.items?.[itemIndex]?.quantity || 0;
+  return (order.refunds || []).reduce(
+    (sum, refund) => sum + refund.lines
+      .filter(line => line.itemIndex === itemIndex)
+      .reduce((lineSum, line) => lineSum + line.quantity, 0),
+    0
+  );
+};
+
+export const getVoidedQuantity = (order: RefundableOrder, itemIndex: number) => {
+  if (isLegacyCancel(order)) return order.items?.[itemIndex]?.quantity || 0;
+  return (order.voids || []).reduce(
+    (sum, orderVoid) => sum + orderVoid.lines
+      .filter(line => line.itemIndex === itemIndex)
+      .reduce((lineSum, line) => lineSum + line.quantity, 0),
+    0
+  );
+};
+
+export const getRefundableQuantity = (order: RefundableOrder, itemIndex: number) =>
+  Math.max(
+    0,
+    (order.items?.[itemIndex]?.quantity || 0) - getRefundedQuantity(order, itemIndex) - getVoidedQuantity(order, itemIndex)
+  );
+
+// A line's share of the amount actually paid, so discounts, vouchers and charges are
+// refunded in the same proportion they were applied
+export const getLineRefundAmount = (order: RefundableOrder, itemIndex: number, quantity: number) => {
+  const items = order.items || [];
+  const item = items[itemIndex];
+  if (!item || item.quantity <= 0) return 0;
+
+  const lineGross = (line: { quantity: number; price?: number; total?: number }) =>
+    line.total ?? (line.price || 0) * line.quantity;
+  const grossSales = items.reduce((sum, line) => sum + lineGross(line), 0);
+  if (grossSales <= 0) return 0;
+
+  return roundCurrency((order.total || 0) * (lineGross(item) / grossSales) * (quantity / item.quantity));
+};
+
+// Refunded amounts per tender; legacy full refunds went back to the original payments
+export const getRefundsByMethod = (order: RefundableOrder): { method: string; amount: number }[] => {
+  if (isLegacyFullRefund(order)) {
+    return getOrderPayments(order).map(payment => ({ method: payment.method, amount: payment.amount }));
+  }
+  return (order.refunds || []).map(refund => ({ method: refund.method, amount: refund.amount }));
+};
+
+// Earned points taken back in proportion to the amount refunded; a refund that
+// clears the order takes back whatever is left
+export const getPointsToReverse = (order: RefundableOrder, amount: number) => {
+  const earned = order.pointsEarned || 0;
+  if (earned <= 0 || !order.total) return 0;
+  const alreadyReversed = [...(order.refunds || []), ...(order.voids || [])]
+    .reduce((sum, adjustment) => sum + (adjustment.pointsReversed || 0), 0);
+  const remaining = Math.max(0, earned - alreadyReversed);
+  if (amount >= getRemainingRefundable(order) - CURRENCY_TOLERANCE) return remaining;
+  return Math.min(remaining, Math.round((earned * amount) / order.total));
+};
+
+// Validates a refund against the order as it stands; returns an error message or null
+export const validateRefund = (order: RefundableOrder, amount: number, lines: RefundLine[]): string | null => {
+  if (!(amount > 0)) {
+    return 'Please enter a refund amount';
+  }
+  if (amount > getRemainingRefundable(order) + CURRENCY_TOLERANCE) {
+    return `Only ₱${getRemainingRefundable(order).toFixed(2)} is left to refund on this order`;
+  }
+  for (const line of lines) {
+    if (line.quantity > getRefundableQuantity(order, line.itemIndex)) {
+      return `Only ${getRefundableQuantity(order, line.itemIndex)} × ${line.name} can still be refunded`;
+    }
+  }
+  return null;
+};
+
+// Adds the stock back to the batch that expires last, so FIFO consumption is unchanged
+export const restockInventory = (snapshot: DocumentSnapshot, quantity: number, entry: { [key: string]: any }) => {
+  const data = snapshot.data() || {};
+  const batches: { expirationDate: string; quantity: number }[] = data.restockHistory || [];
+  const latest = batches.reduce<{ expirationDate: string } | null>(
+    (best, batch) => (!best || new Date(batch.expirationDate) > new Date(best.expirationDate) ? batch : best),
+    null
+  );
+
+  return {
+    quantity: (data.quantity || 0) + quantity,
+    restockHistory: batches.map(batch =>
+      batch === latest ? { ...batch, quantity: batch.quantity + quantity } : batch
+    ),
+    returnHistory: arrayUnion({ ...entry, quantity })
+  };
+};
+
+// Several lines can map to one inventory item; each document may only be written once per transaction
+export const mergeRestockTargets = (targets: RestockTarget[]) =>
+  targets.reduce<RestockTarget[]>((merged, target) => {
+    const existing = merged.find(item => item.inventoryId === target.inventoryId);
+    if (existing) {
+      existing.quantity += target.quantity;
+    } else {
+      merged.push({ ...target });
+    }
+    return merged;
+  }, []);
+
+// Records a refund, reverses loyalty points and returns stock in one transaction so two
+// registers can't refund the same money twice. The order becomes `refunded` once nothing
+// is left to refund, counting anything already voided.
+export const recordRefund = async (
+  orderId: string,
+  refund: Omit<OrderRefund, 'id' | 'createdAt' | 'pointsReversed' | 'pointsCredited'>,
+  options: { customerId?: string | null; pointValue: number; restock: RestockTarget[] }
+): Promise<OrderRefund> => {
+  const orderRef = doc(db, 'orders', orderId);
+  const restock = mergeRestockTargets(options.restock);
+
+  return runTransaction(db, async (transaction) => {
+    const orderSnapshot = await transaction.get(orderRef);
+    if (!orderSnapshot.exists()) {
+      throw new Error('Order not found');
+    }
+    const order = orderSnapshot.data() as RefundableOrder & JournalOrder;
+    const customerRef = options.customerId ? doc(db, 'users', options.customerId) : null;
+    const customerSnapshot = customerRef ? await transaction.get(customerRef) : null;
+    const inventorySnapshots = await Promise.all(
+      restock.map(target => transaction.get(doc(db, 'inventory', target.inventoryId)))
+    );
+    const journal = await openSalesJournal(transaction);
+
+    const error = validateRefund(order, refund.amount, refund.lines);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const createdAt = new Date().toISOString();
+    const record: OrderRefund = {
+      ...refund,
+      id: `${orderId}-${(order.refunds || []).length + 1}`,
+      amount: roundCurrency(refund.amount),
+      pointsReversed: customerSnapshot?.exists() ? getPointsToReverse(order, refund.amount) : 0,
+      pointsCredited: refund.method === 'points' && options.pointValue > 0
+        ? Math.ceil(refund.amount / options.pointValue)
+        : 0,
+      createdAt
+    };
+
+    const refundedAmount = roundCurrency(getRefundedAmount(order) + record.amount);
+    const fullyRefunded = record.amount >= getRemainingRefundable(order) - CURRENCY_TOLERANCE;
+
+    transaction.update(orderRef, {
+      refunds: [...(order.refunds || []), record],
+      refundedAmount,
+      lastRefundAt: serverTimestamp(),
+      ...(fullyRefunded ? {
+        status: 'refunded',
+        refundedAt: serverTimestamp(),
+        refundReason: record.reason
+      } : {})
+    });
+    journal.recordDeduction('refund', orderId, order, record, getBusinessDate());
+
+    if (customerRef && customerSnapshot?.exists()) {
+      const pointsDelta = record.pointsCredited - record.pointsReversed;
+      if (pointsDelta !== 0) {
+        // Points already spent elsewhere can't be clawed back below zero
+        transaction.update(customerRef, {
+          points: Math.max(0, (customerSnapshot.data().points || 0) + pointsDelta)
+        });
+      }
+    }
+
+    inventorySnapshots.forEach((snapshot, index) => {
+      if (!snapshot.exists()) return;
+      transaction.update(snapshot.ref, restockInventory(snapshot, restock[index].quantity, {
+        date: createdAt,
+        orderId,
+        staffName: refund.staffName,
+        staffEmail: refund.staffEmail
+      }));
+    });
+
+    return record;
+  });
+};
@@ -0,0 +1,261 @@
+import { collection, doc, getDocs, query, where, serverTimestamp, Transaction } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { roundCurrency } from './pricing';
+
+// Append-only record of every sale, refund and void, kept for BIR CAS/POS reporting.
+// Entries are only ever written inside the transaction that issues the receipt, refund
+// or void, and nothing in the app updates or deletes them.
+export type JournalEntryType = 'sale' | 'refund' | 'void';
+
+// Order fields the journal reads, as written at checkout
+export interface JournalOrder {
+  total: number;
+  receiptNumber?: number | null;
+  vatableSales?: number;
+  vatAmount?: number;
+  tax?: { amount: number } | null;
+  vatExemptSales?: number;
+  zeroRatedSales?: number;
+  discount?: { amount: number } | null;
+  voucher?: { discountAmount: number } | null;
+  serviceCharge?: { amount: number } | null;
+  staffName?: string | null;
+}
+
+export interface SalesJournalEntry {
+  sequence: number;
+  type: JournalEntryType;
+  businessDate: string;
+  orderId: string;
+  receiptNumber: number | null;
+  referenceId: string | null;   // Refund or void ID
+  amount: number;               // Always positive; refunds and voids are deducted in reports
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  discounts: number;
+  serviceCharges: number;
+  grandTotalBefore: number;
+  grandTotalAfter: number;
+  resetCounter: number;
+  staffName: string | null;
+  createdAt: string;
+}
+
+// Running totals in `counters/salesJournal`. The accumulated grand total only ever grows
+// with sales; refunds and voids are counted separately, as BIR readings show them.
+export interface SalesJournalTotals {
+  sequence: number;
+  grandTotal: number;
+  refundCount: number;
+  refundTotal: number;
+  voidCount: number;
+  voidTotal: number;
+  resetCounter: number;   // Times the grand total was reset; the app itself never resets it
+}
+
+export interface DailySalesSummary {
+  businessDate: string;
+  beginningReceipt: number | null;
+  endingReceipt: number | null;
+  beginningGrandTotal: number | null;
+  endingGrandTotal: number | null;
+  saleCount: number;
+  grossSales: number;
+  discounts: number;
+  serviceCharges: number;
+  refundCount: number;
+  refundAmount: number;
+  voidCount: number;
+  voidAmount: number;
+  netSales: number;
+  // Net of refunds and voids
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  resetCounter: number;
+}
+
+export const toSalesJournalTotals = (data?: any): SalesJournalTotals => ({
+  sequence: data?.sequence || 0,
+  grandTotal: data?.grandTotal || 0,
+  refundCount: data?.refundCount || 0,
+  refundTotal: data?.refundTotal || 0,
+  voidCount: data?.voidCount || 0,
+  voidTotal: data?.voidTotal || 0,
+  resetCounter: data?.resetCounter || 0
+});
+
+// The order's tax split, scaled down for a partial refund or void
+const getSalesBreakdown = (order: JournalOrder, share = 1) => ({
+  vatableSales: roundCurrency((order.vatableSales || 0) * share),
+  vatAmount: roundCurrency((order.tax?.amount ?? order.vatAmount ?? 0) * share),
+  vatExemptSales: roundCurrency((order.vatExemptSales || 0) * share),
+  zeroRatedSales: roundCurrency((order.zeroRatedSales || 0) * share),
+  discounts: roundCurrency(((order.discount?.amount || 0) + (order.voucher?.discountAmount || 0)) * share),
+  serviceCharges: roundCurrency((order.serviceCharge?.amount || 0) * share)
+});
+
+type NewJournalEntry = Omit<SalesJournalEntry, 'sequence' | 'grandTotalBefore' | 'grandTotalAfter' | 'resetCounter' | 'createdAt'>;
+
+// Reads the running totals inside a caller's transaction and returns a writer for new
+// entries. Like reserveOrderNumbers, call it before the caller's first write.
+export const openSalesJournal = async (transaction: Transaction) => {
+  const totalsRef = doc(db, 'counters', 'salesJournal');
+  const snapshot = await transaction.get(totalsRef);
+  let totals = toSalesJournalTotals(snapshot.exists() ? snapshot.data() : null);
+
+  const append = (entry: NewJournalEntry) => {
+    const grandTotalBefore = totals.grandTotal;
+    totals = {
+      ...totals,
+      sequence: totals.sequence + 1,
+      grandTotal: entry.type === 'sale' ? roundCurrency(totals.grandTotal + entry.amount) : totals.grandTotal,
+      refundCount: totals.refundCount + (entry.type === 'refund' ? 1 : 0),
+      refundTotal: entry.type === 'refund' ? roundCurrency(totals.refundTotal + entry.amount) : totals.refundTotal,
+      voidCount: totals.voidCount + (entry.type === 'void' ? 1 : 0),
+      voidTotal: entry.type === 'void' ? roundCurrency(totals.voidTotal + entry.amount) : totals.voidTotal
+    };
+
+    const record: SalesJournalEntry = {
+      ...entry,
+      sequence: totals.sequence,
+      grandTotalBefore,
+      grandTotalAfter: totals.grandTotal,
+      resetCounter: totals.resetCounter,
+      createdAt: new Date().toISOString()
+    };
+
+    // Entries are keyed by sequence, so a missing or rewritten number stands out
+    transaction.set(doc(db, 'salesJournal', String(record.sequence).padStart(10, '0')), {
+      ...record,
+      recordedAt: serverTimestamp()
+    });
+    transaction.set(totalsRef, { ...totals, updatedAt: serverTimestamp() });
+    return record;
+  };
+
+  return {
+    recordSale: (orderId: string, order: JournalOrder, businessDate: string) =>
+      append({
+        type: 'sale',
+        businessDate,
+        orderId,
+        receiptNumber: order.receiptNumber || null,
+        referenceId: null,
+        amount: roundCurrency(order.total || 0),
+        ...getSalesBreakdown(order),
+        staffName: order.staffName || null
+      }),
+
+    recordDeduction: (
+      type: 'refund' | 'void',
+      orderId: string,
+      order: JournalOrder,
+      deduction: { id: string; amount: number; staffName: string },
+      businessDate: string
+    ) =>
+      append({
+        type,
+        businessDate,
+        orderId,
+        receiptNumber: order.receiptNumber || null,
+        referenceId: deduction.id,
+        amount: roundCurrency(deduction.amount),
+        ...getSalesBreakdown(order, order.total ? deduction.amount / order.total : 0),
+        staffName: deduction.staffName
+      })
+  };
+};
+
+// Entries for one business day (YYYY-MM-DD) or an inclusive range of them, oldest first
+export const loadJournalEntries = async (startDate: string, endDate = startDate): Promise<SalesJournalEntry[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'salesJournal'),
+    where('businessDate', '>=', startDate),
+    where('businessDate', '<=', endDate)
+  ));
+  return snapshot.docs
+    .map(entryDoc => entryDoc.data() as SalesJournalEntry)
+    .sort((a, b) => a.sequence - b.sequence);
+};
+
+export const buildDailySalesSummary = (businessDate: string, entries: SalesJournalEntry[]): DailySalesSummary => {
+  const dayEntries = entries.filter(entry => entry.businessDate === businessDate);
+  const sales = dayEntries.filter(entry => entry.type === 'sale');
+  const refunds = dayEntries.filter(entry => entry.type === 'refund');
+  const voids = dayEntries.filter(entry => entry.type === 'void');
+  const receiptNumbers = sales
+    .map(entry => entry.receiptNumber)
+    .filter((receiptNumber): receiptNumber is number => !!receiptNumber);
+
+  const sum = (items: SalesJournalEntry[], field: keyof SalesJournalEntry) =>
+    roundCurrency(items.reduce((total, entry) => total + (Number(entry[field]) || 0), 0));
+  // Sales add to the day's tax columns; refunds and voids take their share back out
+  const net = (field: keyof SalesJournalEntry) =>
+    roundCurrency(sum(sales, field) - sum(refunds, field) - sum(voids, field));
+
+  const grossSales = sum(sales, 'amount');
+  const refundAmount = sum(refunds, 'amount');
+  const voidAmount = sum(voids, 'amount');
+
+  return {
+    businessDate,
+    beginningReceipt: receiptNumbers.length > 0 ? Math.min(...receiptNumbers) : null,
+    endingReceipt: receiptNumbers.length > 0 ? Math.max(...receiptNumbers) : null,
+    beginningGrandTotal: dayEntries.length > 0 ? dayEntries[0].grandTotalBefore : null,
+    endingGrandTotal: dayEntries.length > 0 ? dayEntries[dayEntries.length - 1].grandTotalAfter : null,
+    saleCount: sales.length,
+    grossSales,
+    discounts: sum(sales, 'discounts'),
+    serviceCharges: sum(sales, 'serviceCharges'),
+    refundCount: refunds.length,
+    refundAmount,
+    voidCount: voids.length,
+    voidAmount,
+    netSales: roundCurrency(grossSales - refundAmount - voidAmount),
+    vatableSales: net('vatableSales'),
+    vatAmount: net('vatAmount'),
+    vatExemptSales: net('vatExemptSales'),
+    zeroRatedSales: net('zeroRatedSales'),
+    resetCounter: dayEntries.length > 0 ? dayEntries[dayEntries.length - 1].resetCounter : 0
+  };
+};
+
+// One summary per business day that has entries, oldest first
+export const summarizeByDay = (entries: SalesJournalEntry[]) =>
+  Array.from(new Set(entries.map(entry => entry.businessDate)))
+    .sort()
+    .map(businessDate => buildDailySalesSummary(businessDate, entries));
+
+const E_SALES_COLUMNS: { label: string; value: (summary: DailySalesSummary) => string | number | null }[] = [
+  { label: 'Date', value: summary => summary.businessDate },
+  { label: 'Beginning OR', value: summary => summary.beginningReceipt },
+  { label: 'Ending OR', value: summary => summary.endingReceipt },
+  { label: 'Beginning Grand Total', value: summary => summary.beginningGrandTotal?.toFixed(2) ?? null },
+  { label: 'Ending Grand Total', value: summary => summary.endingGrandTotal?.toFixed(2) ?? null },
+  { label: 'Gross Sales', value: summary => summary.grossSales.toFixed(2) },
+  { label: 'Discounts', value: summary => summary.discounts.toFixed(2) },
+  { label: 'Service Charges', value: summary => summary.serviceCharges.toFixed(2) },
+  { label: 'Refund Count', value: summary => summary.refundCount },
+  { label: 'Refunds', value: summary => summary.refundAmount.toFixed(2) },
+  { label: 'Void Count', value: summary => summary.voidCount },
+  { label: 'Voids', value: summary => summary.voidAmount.toFixed(2) },
+  { label: 'Net Sales', value: summary => summary.netSales.toFixed(2) },
+  { label: 'VATable Sales', value: summary => summary.vatableSales.toFixed(2) },
+  { label: 'VAT', value: summary => summary.vatAmount.toFixed(2) },
+  { label: 'VAT-Exempt Sales', value: summary => summary.vatExemptSales.toFixed(2) },
+  { label: 'Zero-Rated Sales', value: summary => summary.zeroRatedSales.toFixed(2) },
+  { label: 'Reset Counter', value: summary => summary.resetCounter }
+];
+
+// Daily e-sales summary as CSV, one row per business day
+export const toESalesCsv = (summaries: DailySalesSummary[]) =>
+  [
+    E_SALES_COLUMNS.map(column => column.label),
+    ...summaries.map(summary => E_SALES_COLUMNS.map(column => column.value(summary) ?? ''))
+  ]
+    .map(row => row.join(','))
+    .join('\n');
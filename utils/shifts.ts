@@ -0,0 +1,337 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  Timestamp,
+  arrayUnion
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { PaymentTender, getOrderPayments, getPaymentMethodLabel } from './payments';
+import { roundCurrency } from './pricing';
+import { OrderRefund } from './refunds';
+import { OrderVoid, splitAcrossTenders } from './voids';
+import { OrderTip, getTipsByMethod } from './tips';
+
+export interface ShiftStaff {
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+}
+
+// Cash put into or taken out of the drawer outside of a sale, e.g. change fund top-ups or payouts
+export interface CashMovement {
+  type: 'in' | 'out';
+  amount: number;
+  reason: string;
+  staffName: string;
+  staffEmail: string;
+  createdAt: string;
+}
+
+// A register session in the `shifts` collection. Only one shift is open at a time,
+// tracked by `counters/shifts` so two registers can't both open the drawer.
+export interface Shift {
+  id: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedBy: ShiftStaff;
+  openedAt: Date;
+  cashMovements: CashMovement[];
+  closedBy: ShiftStaff | null;
+  closedAt: Date | null;
+  countedCash: number | null;
+  zReadNumber: number | null;
+  zReport: ShiftReport | null;   // Frozen when the shift closes
+}
+
+export interface ShiftReport {
+  orderCount: number;
+  grossSales: number;
+  discounts: number;
+  refunds: number;
+  voids: number;
+  netSales: number;
+  vatableSales: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  vatAmount: number;
+  serviceCharges: number;
+  tips: number;            // Collected with sales but not part of them
+  payments: { method: string; amount: number }[];
+  openingFloat: number;
+  cashSales: number;
+  cashTips: number;
+  cashIn: number;
+  cashOut: number;
+  cashRefunds: number;
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null;
+  generatedAt: string;
+}
+
+export interface ShiftReportSection {
+  title: string;
+  rows: { label: string; value: string; bold?: boolean }[];
+}
+
+// The parts of an order the shift report reads
+export interface ShiftOrder {
+  id: string;
+  total: number;
+  shiftId?: string | null;
+  payments?: PaymentTender[] | null;
+  paymentMethod?: string | null;
+  discount?: { amount: number } | null;
+  voucher?: { discountAmount: number } | null;
+  tax?: { amount: number } | null;
+  serviceCharge?: { amount: number } | null;
+  vatableSales?: number;
+  vatExemptSales?: number;
+  zeroRatedSales?: number;
+  refunds?: OrderRefund[];
+  voids?: OrderVoid[];
+  tip?: OrderTip | null;
+}
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  return typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+};
+
+export const toShift = (id: string, data: any): Shift => ({
+  id,
+  status: data.status === 'closed' ? 'closed' : 'open',
+  openingFloat: Number(data.openingFloat) || 0,
+  openedBy: data.openedBy,
+  openedAt: toDate(data.openedAt) || new Date(),
+  cashMovements: Array.isArray(data.cashMovements) ? data.cashMovements : [],
+  closedBy: data.closedBy || null,
+  closedAt: toDate(data.closedAt),
+  countedCash: data.countedCash ?? null,
+  zReadNumber: data.zReadNumber ?? null,
+  zReport: data.zReport || null
+});
+
+// Calls back with the open shift, or null when the drawer is closed
+export const subscribeToOpenShift = (callback: (shift: Shift | null) => void) =>
+  onSnapshot(
+    query(collection(db, 'shifts'), where('status', '==', 'open')),
+    (snapshot) => {
+      const shifts = snapshot.docs
+        .map(shiftDoc => toShift(shiftDoc.id, shiftDoc.data()))
+        .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+      callback(shifts[0] || null);
+    },
+    (error) => {
+      console.error('Error fetching open shift:', error);
+    }
+  );
+
+export const openShift = (openingFloat: number, openedBy: ShiftStaff) =>
+  runTransaction(db, async (transaction) => {
+    const counterRef = doc(db, 'counters', 'shifts');
+    const counter = await transaction.get(counterRef);
+    const openShiftId = counter.exists() ? counter.data().openShiftId : null;
+    if (openShiftId) {
+      const current = await transaction.get(doc(db, 'shifts', openShiftId));
+      if (current.exists() && current.data().status === 'open') {
+        throw new Error('A shift is already open. Close it before opening a new one.');
+      }
+    }
+
+    const shiftRef = doc(collection(db, 'shifts'));
+    transaction.set(shiftRef, {
+      status: 'open',
+      openingFloat: roundCurrency(openingFloat),
+      openedBy,
+      openedAt: serverTimestamp(),
+      cashMovements: []
+    });
+    transaction.set(counterRef, { openShiftId: shiftRef.id }, { merge: true });
+    return shiftRef.id;
+  });
+
+export const recordCashMovement = (shiftId: string, movement: CashMovement) =>
+  runTransaction(db, async (transaction) => {
+    const shiftRef = doc(db, 'shifts', shiftId);
+    const shift = await transaction.get(shiftRef);
+    if (!shift.exists() || shift.data().status !== 'open') {
+      throw new Error('This shift is already closed');
+    }
+    transaction.update(shiftRef, {
+      cashMovements: arrayUnion({ ...movement, amount: roundCurrency(movement.amount) })
+    });
+  });
+
+// Sales rung up during the shift, plus any order refunded or voided since it opened
+// (those may belong to an earlier shift but the cash left this drawer)
+export const loadShiftOrders = async (shift: Shift): Promise<ShiftOrder[]> => {
+  const openedAt = Timestamp.fromDate(shift.openedAt);
+  const snapshots = await Promise.all([
+    getDocs(query(collection(db, 'orders'), where('shiftId', '==', shift.id))),
+    getDocs(query(collection(db, 'orders'), where('lastRefundAt', '>=', openedAt))),
+    getDocs(query(collection(db, 'orders'), where('lastVoidAt', '>=', openedAt)))
+  ]);
+
+  const orders = new Map<string, ShiftOrder>();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(orderDoc => {
+    orders.set(orderDoc.id, { id: orderDoc.id, ...orderDoc.data() } as ShiftOrder);
+  }));
+  return Array.from(orders.values());
+};
+
+export const buildShiftReport = (shift: Shift, orders: ShiftOrder[], countedCash: number | null = null): ShiftReport => {
+  const sales = orders.filter(order => order.shiftId === shift.id);
+  const sum = <T>(items: T[], amount: (item: T) => number) =>
+    roundCurrency(items.reduce((total, item) => total + (amount(item) || 0), 0));
+
+  const refunds = orders.flatMap(order => (order.refunds || []).filter(refund => refund.shiftId === shift.id));
+  const shiftVoids = orders.flatMap(order => (order.voids || [])
+    .filter(orderVoid => orderVoid.shiftId === shift.id)
+    .map(orderVoid => ({ order, orderVoid })));
+  // Voids hand back the order's original tenders, each its share, and the tip with it
+  // when the void clears the order
+  const voidsByMethod = shiftVoids.flatMap(({ order, orderVoid }) => splitAcrossTenders(order, orderVoid.amount));
+  const tipsReturnedByMethod = shiftVoids
+    .filter(({ orderVoid }) => (orderVoid.tipReturned || 0) > 0)
+    .flatMap(({ order }) => getTipsByMethod(order));
+
+  // Tenders cover total + tip; tips are taken back out so payments show sales only
+  const paymentsMap = new Map<string, number>();
+  const tipsMap = new Map<string, number>();
+  sales.forEach(order => {
+    getOrderPayments(order).forEach(payment => {
+      paymentsMap.set(payment.method, (paymentsMap.get(payment.method) || 0) + payment.amount);
+    });
+    getTipsByMethod(order).forEach(tip => {
+      paymentsMap.set(tip.method, (paymentsMap.get(tip.method) || 0) - tip.amount);
+      tipsMap.set(tip.method, (tipsMap.get(tip.method) || 0) + tip.amount);
+    });
+  });
+
+  const grossSales = sum(sales, order => order.total);
+  const refundTotal = sum(refunds, refund => refund.amount);
+  const voidTotal = sum(shiftVoids, ({ orderVoid }) => orderVoid.amount);
+  const cashSales = roundCurrency(paymentsMap.get('cash') || 0);
+  const cashTips = roundCurrency(tipsMap.get('cash') || 0);
+  const cashIn = sum(shift.cashMovements.filter(movement => movement.type === 'in'), movement => movement.amount);
+  const cashOut = sum(shift.cashMovements.filter(movement => movement.type === 'out'), movement => movement.amount);
+  const cashRefunds = roundCurrency(
+    sum(refunds.filter(refund => refund.method === 'cash'), refund => refund.amount) +
+    sum(voidsByMethod.filter(share => share.method === 'cash'), share => share.amount) +
+    sum(tipsReturnedByMethod.filter(tip => tip.method === 'cash'), tip => tip.amount)
+  );
+  const expectedCash = roundCurrency(shift.openingFloat + cashSales + cashTips + cashIn - cashOut - cashRefunds);
+
+  return {
+    orderCount: sales.length,
+    grossSales,
+    discounts: sum(sales, order => (order.discount?.amount || 0) + (order.voucher?.discountAmount || 0)),
+    refunds: refundTotal,
+    voids: voidTotal,
+    netSales: roundCurrency(grossSales - refundTotal - voidTotal),
+    vatableSales: sum(sales, order => order.vatableSales || 0),
+    vatExemptSales: sum(sales, order => order.vatExemptSales || 0),
+    zeroRatedSales: sum(sales, order => order.zeroRatedSales || 0),
+    vatAmount: sum(sales, order => order.tax?.amount || 0),
+    serviceCharges: sum(sales, order => order.serviceCharge?.amount || 0),
+    tips: roundCurrency(Array.from(tipsMap.values()).reduce((total, amount) => total + amount, 0)),
+    payments: Array.from(paymentsMap.entries())
+      .map(([method, amount]) => ({ method, amount: roundCurrency(amount) }))
+      .sort((a, b) => b.amount - a.amount),
+    openingFloat: shift.openingFloat,
+    cashSales,
+    cashTips,
+    cashIn,
+    cashOut,
+    cashRefunds,
+    expectedCash,
+    countedCash,
+    variance: countedCash === null ? null : roundCurrency(countedCash - expectedCash),
+    generatedAt: new Date().toISOString()
+  };
+};
+
+// Closes the shift with the blind count and freezes its Z-read. Z-read numbers never reset.
+export const closeShift = (shift: Shift, report: ShiftReport, closedBy: ShiftStaff) =>
+  runTransaction(db, async (transaction) => {
+    const shiftRef = doc(db, 'shifts', shift.id);
+    const counterRef = doc(db, 'counters', 'shifts');
+    const [current, counter] = await Promise.all([transaction.get(shiftRef), transaction.get(counterRef)]);
+    if (!current.exists() || current.data().status !== 'open') {
+      throw new Error('This shift is already closed');
+    }
+
+    const zReadNumber = ((counter.exists() ? counter.data().zReadNumber : 0) || 0) + 1;
+    transaction.update(shiftRef, {
+      status: 'closed',
+      closedBy,
+      closedAt: serverTimestamp(),
+      countedCash: report.countedCash,
+      zReadNumber,
+      zReport: report
+    });
+    transaction.set(counterRef, { openShiftId: null, zReadNumber }, { merge: true });
+    return zReadNumber;
+  });
+
+const peso = (amount: number) => `₱${amount.toFixed(2)}`;
+
+// Report content shared by the screen, the web print-out and the thermal printer
+export const getShiftReportSections = (report: ShiftReport): ShiftReportSection[] => [
+  {
+    title: 'Sales',
+    rows: [
+      { label: 'Orders', value: String(report.orderCount) },
+      { label: 'Gross Sales', value: peso(report.grossSales) },
+      { label: 'Discounts', value: `-${peso(report.discounts)}` },
+      { label: 'Refunds', value: `-${peso(report.refunds)}` },
+      { label: 'Voids', value: `-${peso(report.voids)}` },
+      { label: 'Net Sales', value: peso(report.netSales), bold: true },
+      // Z-reads saved before tips were tracked have no tip fields
+      ...(report.tips ? [{ label: 'Tips (not in sales)', value: peso(report.tips) }] : [])
+    ]
+  },
+  {
+    title: 'Tax',
+    rows: [
+      { label: 'VATable Sales', value: peso(report.vatableSales) },
+      { label: 'VAT-Exempt Sales', value: peso(report.vatExemptSales) },
+      { label: 'Zero-Rated Sales', value: peso(report.zeroRatedSales) },
+      { label: 'VAT', value: peso(report.vatAmount) },
+      { label: 'Service Charges', value: peso(report.serviceCharges) }
+    ]
+  },
+  {
+    title: 'Payments',
+    rows: report.payments.length > 0
+      ? report.payments.map(payment => ({ label: getPaymentMethodLabel(payment.method), value: peso(payment.amount) }))
+      : [{ label: 'No payments', value: peso(0) }]
+  },
+  {
+    title: 'Cash Drawer',
+    rows: [
+      { label: 'Opening Float', value: peso(report.openingFloat) },
+      { label: 'Cash Sales', value: peso(report.cashSales) },
+      ...(report.cashTips ? [{ label: 'Cash Tips', value: peso(report.cashTips) }] : []),
+      { label: 'Cash In', value: peso(report.cashIn) },
+      { label: 'Cash Out', value: `-${peso(report.cashOut)}` },
+      { label: 'Cash Refunds & Voids', value: `-${peso(report.cashRefunds)}` },
+      { label: 'Expected Cash', value: peso(report.expectedCash), bold: true },
+      ...(report.countedCash !== null ? [
+        { label: 'Counted Cash', value: peso(report.countedCash), bold: true },
+        {
+          label: report.variance! < 0 ? 'Short' : report.variance! > 0 ? 'Over' : 'Variance',
+          value: peso(Math.abs(report.variance!)),
+          bold: true
+        }
+      ] : [])
+    ]
+  }
+];
@@ -0,0 +1,98 @@
+import { doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { updateQueuedOrder } from './orderQueue';
+
+// A dine-in table on the floor plan, stored in the `tables` collection. Positions are
+// grid cells so the layout looks the same on every register size.
+export interface DiningTable {
+  id: string;
+  number: number;
+  seats: number;
+  x: number;
+  y: number;
+  orderIds: string[];
+  occupiedSince: Date | null;
+}
+
+export const FLOOR_COLUMNS = 8;
+export const FLOOR_ROWS = 5;
+
+export const toDiningTable = (id: string, data: any): DiningTable => ({
+  id,
+  number: Number(data.number) || 0,
+  seats: Number(data.seats) || 0,
+  x: Number(data.x) || 0,
+  y: Number(data.y) || 0,
+  orderIds: Array.isArray(data.orderIds) ? data.orderIds : [],
+  occupiedSince: data.occupiedSince?.toDate ? data.occupiedSince.toDate() : null
+});
+
+export const isTableOccupied = (table: DiningTable) => table.orderIds.length > 0;
+
+export const getTableAt = (tables: DiningTable[], x: number, y: number) =>
+  tables.find(table => table.x === x && table.y === y) || null;
+
+export const getNextTableNumber = (tables: DiningTable[]) =>
+  tables.reduce((max, table) => Math.max(max, table.number), 0) + 1;
+
+// "45m" or "1h 05m" since the first order was seated
+export const formatOccupiedDuration = (since: Date | null, now: Date) => {
+  if (!since) return '';
+  const minutes = Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+// Moves every order on `source` onto `target` and frees `source`. A transfer targets a
+// free table; a merge targets one that is already seated and keeps its earliest start.
+// Both tables are re-read in the transaction, so an order seated on either since the
+// floor plan last loaded is never dropped.
+export const moveTableOrders = async (source: DiningTable, target: DiningTable) => {
+  const tableFields = { tableId: target.id, tableNumber: target.number };
+
+  const queuedOrderIds = await runTransaction(db, async (transaction) => {
+    const sourceRef = doc(db, 'tables', source.id);
+    const targetRef = doc(db, 'tables', target.id);
+    const [sourceSnapshot, targetSnapshot] = await Promise.all([
+      transaction.get(sourceRef),
+      transaction.get(targetRef)
+    ]);
+    if (!sourceSnapshot.exists() || !targetSnapshot.exists()) {
+      throw new Error('Table not found');
+    }
+    const currentSource = toDiningTable(sourceSnapshot.id, sourceSnapshot.data());
+    const currentTarget = toDiningTable(targetSnapshot.id, targetSnapshot.data());
+    const orderSnapshots = await Promise.all(
+      currentSource.orderIds.map(orderId => transaction.get(doc(db, 'orders', orderId)))
+    );
+
+    const starts = [currentSource.occupiedSince, currentTarget.occupiedSince]
+      .filter((date): date is Date => !!date);
+    const occupiedSince = starts.length > 0
+      ? new Date(Math.min(...starts.map(date => date.getTime())))
+      : new Date();
+
+    transaction.update(targetRef, {
+      orderIds: [
+        ...currentTarget.orderIds,
+        ...currentSource.orderIds.filter(id => !currentTarget.orderIds.includes(id))
+      ],
+      occupiedSince: Timestamp.fromDate(occupiedSince)
+    });
+    transaction.update(sourceRef, {
+      orderIds: [],
+      occupiedSince: null
+    });
+
+    orderSnapshots.forEach(snapshot => {
+      if (snapshot.exists()) transaction.update(snapshot.ref, tableFields);
+    });
+    // Orders not in Firestore yet are still waiting in the offline queue
+    return orderSnapshots.filter(snapshot => !snapshot.exists()).map(snapshot => snapshot.id);
+  });
+
+  // The local queue can't join the transaction, so queued sales are retagged after it
+  for (const orderId of queuedOrderIds) {
+    await updateQueuedOrder(orderId, tableFields);
+  }
+};
@@ -0,0 +1,117 @@
+import { PaymentTender, getOrderPayments } from './payments';
+import { roundCurrency } from './pricing';
+
+// Preset tip buttons shown at checkout, as a percentage of the order total
+export const TIP_PERCENTAGES = [5, 10, 15];
+
+// A voluntary tip paid on top of an order. It is kept out of `total`, so it never
+// counts as a sale or carries VAT; the tenders cover total + tip.
+export interface OrderTip {
+  amount: number;
+  percentage: number | null;   // Null for a custom amount
+}
+
+export type TipSplitMode = 'hours' | 'even';
+
+export interface TipStaffHours {
+  staffId: string;
+  staffName: string;
+  hours: number;
+}
+
+export interface TipShare extends TipStaffHours {
+  amount: number;
+}
+
+// Shift and order fields the tip report reads
+interface TipShift {
+  id: string;
+  openedBy: { staffId: string; staffName: string };
+  openedAt: Date;
+  closedBy: { staffId: string; staffName: string } | null;
+  closedAt: Date | null;
+}
+
+interface TipOrder {
+  shiftId?: string | null;
+  staffId?: string;
+  staffName?: string;
+}
+
+export const calculateTip = (orderTotal: number, percentage: number) =>
+  roundCurrency((orderTotal * percentage) / 100);
+
+export const getOrderTip = (order: { tip?: OrderTip | null }) => order.tip?.amount || 0;
+
+// The tip still kept on an order once any tip handed back by a void is taken off
+export const getKeptTip = (order: { tip?: OrderTip | null; voids?: { tipReturned?: number }[] | null }) =>
+  roundCurrency(Math.max(0, getOrderTip(order) -
+    (order.voids || []).reduce((total, orderVoid) => total + (orderVoid.tipReturned || 0), 0)));
+
+// The tip is settled by the last tenders added, since it was charged on top of the order
+export const getTipsByMethod = (order: {
+  tip?: OrderTip | null;
+  payments?: PaymentTender[] | null;
+  paymentMethod?: string | null;
+  total?: number;
+}): { method: string; amount: number }[] => {
+  let remaining = getOrderTip(order);
+  const tips: { method: string; amount: number }[] = [];
+  [...getOrderPayments(order)].reverse().forEach(payment => {
+    if (remaining <= 0) return;
+    const amount = Math.min(remaining, payment.amount || 0);
+    if (amount > 0) {
+      tips.push({ method: payment.method, amount: roundCurrency(amount) });
+      remaining = roundCurrency(remaining - amount);
+    }
+  });
+  return tips;
+};
+
+// Everyone who opened, closed or rang up a sale on a shift is credited with the hours
+// that shift was open within the period
+export const getStaffHours = (
+  shifts: TipShift[],
+  orders: TipOrder[],
+  periodStart: Date,
+  periodEnd: Date
+): TipStaffHours[] => {
+  const staffHours = new Map<string, TipStaffHours>();
+
+  shifts.forEach(shift => {
+    const start = Math.max(shift.openedAt.getTime(), periodStart.getTime());
+    const end = Math.min((shift.closedAt || new Date()).getTime(), periodEnd.getTime());
+    if (end <= start) return;
+    const hours = (end - start) / (60 * 60 * 1000);
+
+    const staff = new Map<string, string>();
+    staff.set(shift.openedBy.staffId, shift.openedBy.staffName);
+    if (shift.closedBy) staff.set(shift.closedBy.staffId, shift.closedBy.staffName);
+    orders
+      .filter(order => order.shiftId === shift.id && order.staffId)
+      .forEach(order => staff.set(order.staffId!, order.staffName || 'Unknown Staff'));
+
+    staff.forEach((staffName, staffId) => {
+      const current = staffHours.get(staffId) || { staffId, staffName, hours: 0 };
+      staffHours.set(staffId, { ...current, hours: current.hours + hours });
+    });
+  });
+
+  return Array.from(staffHours.values()).sort((a, b) => b.hours - a.hours);
+};
+
+// Splits the pool to the centavo; rounding leftovers go to whoever is listed first
+export const splitTipPool = (pool: number, staff: TipStaffHours[], mode: TipSplitMode): TipShare[] => {
+  const totalHours = staff.reduce((sum, member) => sum + member.hours, 0);
+  if (staff.length === 0 || pool <= 0 || (mode === 'hours' && totalHours <= 0)) {
+    return staff.map(member => ({ ...member, amount: 0 }));
+  }
+
+  const shares = staff.map(member => ({
+    ...member,
+    amount: Math.floor((mode === 'hours' ? (pool * member.hours) / totalHours : pool / staff.length) * 100) / 100
+  }));
+  const leftover = roundCurrency(pool - shares.reduce((sum, share) => sum + share.amount, 0));
+  shares[0].amount = roundCurrency(shares[0].amount + leftover);
+  return shares;
+};
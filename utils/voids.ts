@@ -0,0 +1,216 @@
+import { collection, doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from '../firebaseConfig';
+import { getOrderPayments, getPointsRedeemed } from './payments';
+import { OrderTip, getOrderTip, getTipsByMethod } from './tips';
+import { CURRENCY_TOLERANCE, roundCurrency } from './pricing';
+import { getBusinessDate } from './orderNumbers';
+import { JournalOrder, openSalesJournal } from './salesJournal';
+import {
+  RefundLine,
+  RefundableOrder,
+  RestockTarget,
+  getVoidedAmount,
+  getRemainingRefundable,
+  getRefundableQuantity,
+  getPointsToReverse,
+  mergeRestockTargets,
+  restockInventory
+} from './refunds';
+
+// 'items' takes selected lines off an order; 'order' voids whatever is left of it
+export type VoidType = 'items' | 'order';
+
+export interface VoidApprover {
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+}
+
+// One void against an order. The same record is written once to the `voids`
+// collection as the audit trail and is never updated afterwards.
+export interface OrderVoid {
+  id: string;
+  type: VoidType;
+  amount: number;
+  lines: RefundLine[];
+  reason: string;
+  pointsReversed: number;   // Earned points taken back from the customer
+  pointsReturned: number;   // Redeemed points given back to the customer
+  tipReturned?: number;     // Tip handed back with the order when the void clears it
+  staffId: string;
+  staffName: string;
+  staffEmail: string;
+  approvedBy: VoidApprover | null;   // Null when an owner voids on their own authority
+  shiftId?: string | null;           // Shift whose cash drawer paid it out
+  createdAt: string;
+}
+
+// Approval PINs must be 4 to 6 digits
+export const isValidApprovalPin = (pin: string) => /^\d{4,6}$/.test(pin.trim());
+
+// Approval PINs are hashed and checked by Cloud Functions (functions/index.js), so they
+// never reach staff devices
+const setApprovalPinFunction = httpsCallable<{ pin: string }, { saved: boolean }>(
+  getFunctions(db.app),
+  'setApprovalPin'
+);
+const verifyApprovalPinFunction = httpsCallable<{ pin: string }, { approver: VoidApprover | null }>(
+  getFunctions(db.app),
+  'verifyApprovalPin'
+);
+
+// Sets the signed-in owner's approval PIN
+export const saveApprovalPin = async (pin: string) => {
+  await setApprovalPinFunction({ pin: pin.trim() });
+};
+
+// Looks up the owner whose approval PIN was entered; null when it matches nobody
+export const findVoidApprover = async (pin: string): Promise<VoidApprover | null> => {
+  if (!isValidApprovalPin(pin)) return null;
+
+  const result = await verifyApprovalPinFunction({ pin: pin.trim() });
+  return result.data.approver;
+};
+
+// Splits a voided amount across the order's tenders in proportion to what each paid
+// towards the sale, leaving out the tip the last tenders settled. Redeemed points are
+// returned in the same proportion (see recordVoid).
+export const splitAcrossTenders = (
+  order: RefundableOrder & { tip?: OrderTip | null },
+  amount: number
+): { method: string; amount: number }[] => {
+  const tips = getTipsByMethod(order);
+  let tipLeft = tips.reduce((sum, tip) => sum + tip.amount, 0);
+  const tenders = [...getOrderPayments(order)].reverse().map(payment => {
+    const tip = Math.min(tipLeft, payment.amount || 0);
+    tipLeft = roundCurrency(tipLeft - tip);
+    return { method: payment.method as string, amount: roundCurrency((payment.amount || 0) - tip) };
+  }).reverse().filter(tender => tender.amount > 0);
+
+  const paid = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  if (paid <= 0) return [];
+
+  // Rounding leftovers go to the last tender so the shares add back up to the void
+  let left = roundCurrency(amount);
+  return tenders.map((tender, index) => {
+    const share = index === tenders.length - 1 ? left : roundCurrency((amount * tender.amount) / paid);
+    left = roundCurrency(left - share);
+    return { method: tender.method, amount: share };
+  }).filter(share => share.amount > 0);
+};
+
+// Voided amounts per original tender, for netting collections by payment method
+export const getVoidsByMethod = (order: RefundableOrder & { tip?: OrderTip | null }): { method: string; amount: number }[] => {
+  // Orders cancelled before voids were tracked gave back every tender
+  if (order.status === 'cancelled' && !(order.voids && order.voids.length > 0)) {
+    return getOrderPayments(order).map(payment => ({ method: payment.method, amount: payment.amount }));
+  }
+  return (order.voids || []).flatMap(orderVoid => splitAcrossTenders(order, orderVoid.amount));
+};
+
+// Voids lines or a whole order, reversing loyalty points and returning stock in the same
+// transaction as the audit record. Voiding everything that is left cancels the order and
+// hands its tip back too.
+// `orderFields` are written to the order alongside the void.
+export const recordVoid = async (
+  orderId: string,
+  orderVoid: Omit<OrderVoid, 'id' | 'createdAt' | 'amount' | 'pointsReversed' | 'pointsReturned' | 'tipReturned'>,
+  options: { customerId?: string | null; restock: RestockTarget[]; orderFields?: { [key: string]: any } }
+): Promise<OrderVoid> => {
+  const orderRef = doc(db, 'orders', orderId);
+  const voidRef = doc(collection(db, 'voids'));
+  const restock = mergeRestockTargets(options.restock);
+
+  return runTransaction(db, async (transaction) => {
+    const orderSnapshot = await transaction.get(orderRef);
+    if (!orderSnapshot.exists()) {
+      throw new Error('Order not found');
+    }
+    const order = orderSnapshot.data() as RefundableOrder & JournalOrder & {
+      orderNumber?: number | null;
+      tip?: OrderTip | null;
+    };
+    const customerRef = options.customerId ? doc(db, 'users', options.customerId) : null;
+    const customerSnapshot = customerRef ? await transaction.get(customerRef) : null;
+    const inventorySnapshots = await Promise.all(
+      restock.map(target => transaction.get(doc(db, 'inventory', target.inventoryId)))
+    );
+    const journal = await openSalesJournal(transaction);
+
+    const remaining = getRemainingRefundable(order);
+    if (order.status === 'cancelled' || remaining <= 0) {
+      throw new Error('There is nothing left to void on this order');
+    }
+    if (orderVoid.type === 'items' && orderVoid.lines.length === 0) {
+      throw new Error('Please select the items to void');
+    }
+    for (const line of orderVoid.lines) {
+      if (line.quantity > getRefundableQuantity(order, line.itemIndex)) {
+        throw new Error(`Only ${getRefundableQuantity(order, line.itemIndex)} × ${line.name} can still be voided`);
+      }
+    }
+
+    const amount = orderVoid.type === 'order'
+      ? remaining
+      : Math.min(remaining, roundCurrency(orderVoid.lines.reduce((sum, line) => sum + line.amount, 0)));
+    const clearsOrder = amount >= remaining - CURRENCY_TOLERANCE;
+    const hasCustomer = !!customerSnapshot?.exists();
+
+    const record: OrderVoid = {
+      ...orderVoid,
+      id: voidRef.id,
+      amount,
+      pointsReversed: hasCustomer ? getPointsToReverse(order, amount) : 0,
+      pointsReturned: hasCustomer && order.total
+        ? Math.round((getPointsRedeemed(getOrderPayments(order)) * amount) / order.total)
+        : 0,
+      tipReturned: clearsOrder ? getOrderTip(order) : 0,
+      createdAt: new Date().toISOString()
+    };
+
+    transaction.set(voidRef, {
+      ...record,
+      orderId,
+      orderNumber: order.orderNumber || null,
+      orderTotal: order.total,
+      recordedAt: serverTimestamp()
+    });
+
+    transaction.update(orderRef, {
+      voids: [...((order.voids as OrderVoid[] | null | undefined) || []), record],
+      voidedAmount: roundCurrency(getVoidedAmount(order) + amount),
+      lastVoidAt: serverTimestamp(),
+      ...(clearsOrder ? {
+        status: 'cancelled',
+        cancelledAt: serverTimestamp(),
+        voidReason: record.reason
+      } : {}),
+      ...options.orderFields
+    });
+    journal.recordDeduction('void', orderId, order, record, getBusinessDate());
+
+    if (customerRef && customerSnapshot?.exists()) {
+      const pointsDelta = record.pointsReturned - record.pointsReversed;
+      if (pointsDelta !== 0) {
+        // Points already spent elsewhere can't be clawed back below zero
+        transaction.update(customerRef, {
+          points: Math.max(0, (customerSnapshot.data().points || 0) + pointsDelta)
+        });
+      }
+    }
+
+    inventorySnapshots.forEach((snapshot, index) => {
+      if (!snapshot.exists()) return;
+      transaction.update(snapshot.ref, restockInventory(snapshot, restock[index].quantity, {
+        date: record.createdAt,
+        orderId,
+        voidId: record.id,
+        staffName: record.staffName,
+        staffEmail: record.staffEmail
+      }));
+    });
+
+    return record;
+  });
+};